@@ -8,10 +8,15 @@ import NotFound from "./pages/NotFound";
 import { SessionProvider } from "./components/SessionProvider";
 import React from "react";
 import { AppSettingsProvider } from "./contexts/AppSettingsContext";
+import { PrayerTimelineProvider } from "./contexts/PrayerTimelineContext";
+import { HijriCalendarProvider } from "./contexts/HijriCalendarContext";
+import { EidPrayerProvider } from "./contexts/EidPrayerContext";
+import { SahurReminderProvider } from "./contexts/SahurReminderContext";
 
 // Menggunakan React.lazy untuk memuat komponen secara dinamis
 const AdminPanel = React.lazy(() => import("./pages/AdminPanel"));
 const Login = React.lazy(() => import("./pages/Login"));
+const Diagnostics = React.lazy(() => import("./pages/Diagnostics"));
 
 const queryClient = new QueryClient();
 
@@ -23,36 +28,52 @@ const App = () => (
       <BrowserRouter basename="/tvmasjid/" future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
         <SessionProvider>
           <AppSettingsProvider>
-            {/* Wrapper untuk skala global */}
-            <div style={{ 
-              transform: 'scale(0.61875)',
-              transformOrigin: 'top left', 
-              width: 'calc(100% / 0.61875)', 
-              height: 'calc(100% / 0.61875)' 
-            }}>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                {/* Menggunakan Suspense untuk lazy-loaded components */}
-                <Route 
-                  path="/admin" 
-                  element={
-                    <React.Suspense fallback={<div>Memuat Admin Panel...</div>}>
-                      <AdminPanel />
-                    </React.Suspense>
-                  } 
-                />
-                <Route 
-                  path="/login" 
-                  element={
-                    <React.Suspense fallback={<div>Memuat Halaman Login...</div>}>
-                      <Login />
-                    </React.Suspense>
-                  } 
-                />
-                {/* TAMBAHKAN SEMUA RUTE KUSTOM DI ATAS RUTE CATCH-ALL "*" */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </div>
+            <HijriCalendarProvider>
+              <PrayerTimelineProvider>
+                <EidPrayerProvider>
+                  <SahurReminderProvider>
+                    {/* Wrapper untuk skala global */}
+                    <div style={{ 
+                      transform: 'scale(0.61875)',
+                      transformOrigin: 'top left', 
+                      width: 'calc(100% / 0.61875)', 
+                      height: 'calc(100% / 0.61875)' 
+                    }}>
+                      <Routes>
+                        <Route path="/" element={<Index />} />
+                        {/* Menggunakan Suspense untuk lazy-loaded components */}
+                        <Route 
+                          path="/admin" 
+                          element={
+                            <React.Suspense fallback={<div>Memuat Admin Panel...</div>}>
+                              <AdminPanel />
+                            </React.Suspense>
+                          } 
+                        />
+                        <Route 
+                          path="/login" 
+                          element={
+                            <React.Suspense fallback={<div>Memuat Halaman Login...</div>}>
+                              <Login />
+                            </React.Suspense>
+                          } 
+                        />
+                        <Route 
+                          path="/diagnostics" 
+                          element={
+                            <React.Suspense fallback={<div>Memuat Halaman Diagnostik...</div>}>
+                              <Diagnostics />
+                            </React.Suspense>
+                          } 
+                        />
+                        {/* TAMBAHKAN SEMUA RUTE KUSTOM DI ATAS RUTE CATCH-ALL "*" */}
+                        <Route path="*" element={<NotFound />} />
+                      </Routes>
+                    </div>
+                  </SahurReminderProvider>
+                </EidPrayerProvider>
+              </PrayerTimelineProvider>
+            </HijriCalendarProvider>
           </AppSettingsProvider>
         </SessionProvider>
       </BrowserRouter>
@@ -0,0 +1,86 @@
+import React from "react";
+import dayjs from "dayjs";
+import { EidOverlayPhase } from "@/lib/overlayState";
+import { describeEidLocation, EidTimeline } from "@/lib/eidPrayer";
+import { useCountdown } from "@/hooks/use-countdown";
+
+interface EidPrayerOverlayProps {
+  eidTimeline: EidTimeline;
+  displayPhase: EidOverlayPhase;
+  phaseEnd: dayjs.Dayjs | null; // End of the current phase, counted down to
+}
+
+// Renders the Ied morning overlay for the phase decided by the overlay state machine (see useOverlayState).
+const EidPrayerOverlay: React.FC<EidPrayerOverlayProps> = ({ eidTimeline, displayPhase, phaseEnd }) => {
+  const { eid, name } = eidTimeline;
+  const countdownText = useCountdown(displayPhase === "eid-countdown" ? phaseEnd : null);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 text-white p-4 md:p-8">
+      <div className="flex flex-col items-center justify-center w-full max-w-6xl h-full">
+        <h2 className="text-5xl md:text-7xl lg:text-8xl font-extrabold text-yellow-300 mb-6 text-outline-black uppercase text-center">
+          Selamat Hari Raya {name}
+        </h2>
+
+        {displayPhase === "eid-countdown" && (
+          <>
+            <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
+              <h3 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-3 text-green-300">
+                Sholat {name} {eidTimeline.prayerTime.format("HH:mm")}
+              </h3>
+              <p className="text-3xl md:text-4xl lg:text-5xl text-blue-200">
+                Lokasi: <span className="font-semibold">{describeEidLocation(eid)}</span>
+              </p>
+              {eid.imam_name && (
+                <p className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
+                  Imam: <span className="font-medium">{eid.imam_name}</span>
+                </p>
+              )}
+              {eid.khatib_name && (
+                <p className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
+                  Khatib: <span className="font-medium">{eid.khatib_name}</span>
+                </p>
+              )}
+            </div>
+            <h5 className="text-4xl md:text-5xl lg:text-6xl font-bold text-red-400 text-outline-black">
+              Menuju Sholat Ied: {countdownText}
+            </h5>
+          </>
+        )}
+
+        {displayPhase === "eid-prayer" && (
+          <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
+            <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-red-400 text-outline-black uppercase">
+              Sholat {name}
+            </h3>
+            {eid.imam_name && (
+              <p className="text-4xl md:text-5xl lg:text-6xl font-bold text-blue-400 mt-4 text-outline-black">
+                Imam: {eid.imam_name}
+              </p>
+            )}
+          </div>
+        )}
+
+        {displayPhase === "eid-khutbah" && (
+          <>
+            <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
+              <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-green-400 text-outline-black uppercase">
+                Khutbah {name}
+              </h3>
+              {eid.khatib_name && (
+                <p className="text-5xl md:text-6xl lg:text-7xl font-bold text-blue-400 mt-4 text-outline-black">
+                  {eid.khatib_name}
+                </p>
+              )}
+            </div>
+            <p className="text-4xl md:text-5xl lg:text-6xl font-bold text-red-600 mt-8 text-outline-black uppercase text-center">
+              Matikan Smartphone dan Jangan Bicara
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EidPrayerOverlay;
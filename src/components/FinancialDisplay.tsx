@@ -1,10 +1,10 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
-import dayjs from "dayjs";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
 import AutoScrollingFinancialRecords from "@/components/AutoScrollingFinancialRecords";
+import { masjidNow } from "@/lib/clock";
 
 interface FinancialRecord {
   id: string;
@@ -54,7 +54,7 @@ const FinancialDisplay: React.FC = React.memo(() => {
   useEffect(() => {
     fetchFinancialSummary();
 
-    const today = dayjs();
+    const today = masjidNow();
     // Calculate last Friday's date
     // day() returns 0 for Sunday, 1 for Monday, ..., 5 for Friday, 6 for Saturday
     // If today is Friday (5) or Saturday (6), last Friday is today's Friday.
@@ -1,36 +1,33 @@
 import React, { useState, useEffect } from "react";
-import dayjs from "dayjs";
 import "dayjs/locale/id"; // Import Indonesian locale
+import { getClockTickMs, masjidNow } from "@/lib/clock";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
 
 const HijriCalendarDisplay: React.FC = React.memo(() => {
-  const [currentDate, setCurrentDate] = useState(dayjs());
+  const [currentDate, setCurrentDate] = useState(masjidNow());
   const [hijriDate, setHijriDate] = useState<string>("Memuat...");
   const [currentTime, setCurrentTime] = useState<string>("");
+  const { formatHijri } = useHijriCalendar();
 
   useEffect(() => {
     const updateDatesAndTimes = () => {
-      const now = dayjs();
+      const now = masjidNow();
       setCurrentDate(now);
       setCurrentTime(now.format("HH:mm:ss")); // Format jam, menit, detik
 
       try {
-        const hijriFormatter = new Intl.DateTimeFormat("id-ID-u-ca-islamic", {
-          day: "numeric",
-          month: "long",
-          year: "numeric",
-        });
-        setHijriDate(hijriFormatter.format(now.toDate()));
+        setHijriDate(formatHijri(now));
       } catch (error) {
         console.error("Error formatting Hijri date:", error);
         setHijriDate("Kalender Hijriah tidak tersedia");
       }
     };
 
-    const timer = setInterval(updateDatesAndTimes, 1000);
+    const timer = setInterval(updateDatesAndTimes, getClockTickMs());
     updateDatesAndTimes();
 
     return () => clearInterval(timer);
-  }, []);
+  }, [formatHijri]);
 
   const gregorianDate = currentDate.locale('id').format("dddd, DD MMMM YYYY").replace('Minggu', 'Ahad');
 
@@ -0,0 +1,43 @@
+import React from "react";
+import { BERBUKA_DOA, IftarWindow } from "@/lib/iftar";
+import { useCountdown } from "@/hooks/use-countdown";
+
+interface IftarOverlayProps {
+  iftarWindow: IftarWindow;
+}
+
+// Countdown to berbuka with its doa, shown during the iftar-countdown phase (see useOverlayState).
+const IftarOverlay: React.FC<IftarOverlayProps> = ({ iftarWindow }) => {
+  const countdownText = useCountdown(iftarWindow.iftarTime);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 text-white p-4 md:p-8">
+      <div className="flex flex-col items-center justify-center w-full max-w-6xl h-full">
+        <h2 className="text-5xl md:text-7xl lg:text-8xl font-extrabold text-yellow-300 mb-4 text-outline-black">
+          MENUJU WAKTU BERBUKA
+        </h2>
+        <p className="text-3xl md:text-4xl lg:text-5xl font-semibold text-gray-300 mb-4 text-outline-black">
+          Maghrib pukul {iftarWindow.iftarTime.format("HH:mm")}
+        </p>
+        <p className="text-8xl md:text-9xl lg:text-[10rem] font-extrabold text-green-400 text-outline-black mb-8">
+          {countdownText}
+        </p>
+
+        <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-5xl text-center">
+          <h3 className="text-2xl md:text-3xl font-bold mb-4 text-blue-300">Doa Berbuka Puasa</h3>
+          <p className="text-4xl md:text-5xl lg:text-6xl leading-relaxed mb-4" dir="rtl" lang="ar">
+            {BERBUKA_DOA.arabic}
+          </p>
+          <p className="text-xl md:text-2xl lg:text-3xl italic text-yellow-200 mb-2">
+            {BERBUKA_DOA.latin}
+          </p>
+          <p className="text-xl md:text-2xl lg:text-3xl text-gray-200">
+            "{BERBUKA_DOA.translation}"
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IftarOverlay;
\ No newline at end of file
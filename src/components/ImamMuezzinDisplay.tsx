@@ -1,124 +1,69 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
-import dayjs from "dayjs";
 import { supabase } from "@/lib/supabase";
-import { CalculationMethod, PrayerTimes, Coordinates } from "adhan";
 import { toast } from "sonner";
 import { RealtimeChannel } from "@supabase/supabase-js";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { findNextPrayer, PRAYER_DISPLAY_NAMES } from "@/lib/prayerTimes";
+import { masjidNow } from "@/lib/clock";
+import { getIndonesianDayOfWeek, ImamSchedule, imamScheduleDateFilter, resolveImamSchedule } from "@/lib/imamSchedule";
+import { describePersonnelRoles, formatPersonnelName, PersonnelRole, resolveSchedulePerson } from "@/lib/personnel";
+import { usePersonnel } from "@/hooks/use-personnel";
+import PersonnelPhoto from "@/components/PersonnelPhoto";
 
-interface Schedule {
-  id: string;
-  day_of_week: string;
-  prayer_name: string;
-  imam_name: string;
-  muezzin_name?: string | null;
-  khatib_name?: string | null;
-  bilal_name?: string | null;
-  display_order: number;
-}
-
-const prayerNameMap: { [key: string]: string } = {
-  Fajr: "Subuh",
-  Dhuhr: "Dzuhur",
-  Asr: "Ashar",
-  Maghrib: "Maghrib",
-  Isha: "Isya",
-};
-
-const getIndonesianDayOfWeek = (date: dayjs.Dayjs): string => {
-  const days = ["Ahad", "Senin", "Selasa", "Rabu", "Kamis", "Jum'at", "Sabtu"];
-  return days[date.day()];
-};
+// The roles listed under the imam, in this order
+const SECONDARY_ROLES: PersonnelRole[] = ["muezzin", "khatib", "bilal"];
 
 const ImamMuezzinDisplay: React.FC = React.memo(() => {
-  const [currentSchedule, setCurrentSchedule] = useState<Schedule | null>(null);
+  const [currentSchedule, setCurrentSchedule] = useState<ImamSchedule | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [nextPrayerInfo, setNextPrayerInfo] = useState<{ day: string; prayer: string } | null>(null);
-  const settingsChannelRef = useRef<RealtimeChannel | null>(null);
+  const { timeline, tomorrowTimeline } = usePrayerTimeline();
   const schedulesChannelRef = useRef<RealtimeChannel | null>(null);
+  const personnel = usePersonnel('imam_muezzin_display_personnel_changes');
 
   const fetchAndDisplaySchedule = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     setNextPrayerInfo(null);
 
+    if (!timeline) {
+      setIsLoading(false);
+      return;
+    }
+
     try {
-      const { data: settings, error: settingsError } = await supabase
-        .from("app_settings")
-        .select("latitude, longitude, calculation_method")
-        .eq("id", 1)
-        .single();
-
-      if (settingsError && settingsError.code !== 'PGRST116') {
-        console.error("Error fetching app settings:", settingsError);
-        setError("Gagal memuat pengaturan aplikasi.");
+      const now = masjidNow();
+      const nextPrayer = findNextPrayer(timeline, now, tomorrowTimeline);
+
+      if (!nextPrayer) {
+        setError("Tidak dapat menentukan waktu sholat berikutnya (pemetaan nama).");
         setIsLoading(false);
         return;
       }
 
-      const latitude = settings?.latitude || -6.2088;
-      const longitude = settings?.longitude || 106.8456;
-      const calculationMethod = settings?.calculation_method || "MuslimWorldLeague";
-
-      const now = dayjs();
-      const coordinates = new Coordinates(latitude, longitude);
-      const params = CalculationMethod[calculationMethod as keyof typeof CalculationMethod]();
-      const times = new PrayerTimes(coordinates, now.toDate(), params);
-
-      const todayPrayerTimes = [
-        { name: "Fajr", time: dayjs(times.fajr) },
-        { name: "Dhuhr", time: dayjs(times.dhuhr) },
-        { name: "Asr", time: dayjs(times.asr) },
-        { name: "Maghrib", time: dayjs(times.maghrib) },
-        { name: "Isha", time: dayjs(times.isha) },
-      ];
-
-      let nextPrayerAdhanName: string | null = null;
-      let targetDay = now;
-
-      for (const prayer of todayPrayerTimes) {
-        if (prayer.time.isAfter(now)) {
-          nextPrayerAdhanName = prayer.name;
-          break;
-        }
-      }
+      const targetDay = nextPrayer.time;
+      let nextPrayerDisplayName = PRAYER_DISPLAY_NAMES[nextPrayer.key];
 
-      if (!nextPrayerAdhanName) {
-        nextPrayerAdhanName = "Fajr";
-        targetDay = now.add(1, 'day');
-      }
-
-      let nextPrayerDisplayName = prayerNameMap[nextPrayerAdhanName];
-
-      if (targetDay.day() === 5 && nextPrayerAdhanName === "Dhuhr") {
+      if (targetDay.day() === 5 && nextPrayer.key === "dhuhr") {
         nextPrayerDisplayName = "Jum'at";
       }
 
-      if (!nextPrayerDisplayName) {
-        setError("Tidak dapat menentukan waktu sholat berikutnya (pemetaan nama).");
-        setIsLoading(false);
-        return;
-      }
-
       const currentDayOfWeek = getIndonesianDayOfWeek(targetDay);
 
       setNextPrayerInfo({ day: currentDayOfWeek, prayer: nextPrayerDisplayName });
 
+      // The weekly pattern plus the assignments for the prayer's date, which take precedence
       const { data: scheduleData, error: scheduleError } = await supabase
         .from("imam_muezzin_schedules")
         .select("*")
-        .eq("day_of_week", currentDayOfWeek)
-        .eq("prayer_name", nextPrayerDisplayName)
-        .order("display_order", { ascending: true })
-        .limit(1);
+        .or(imamScheduleDateFilter(targetDay));
 
       if (scheduleError) {
         console.error("Error fetching imam/muezzin schedule:", scheduleError);
         setError("Gagal memuat jadwal imam & muadzin.");
-      } else if (scheduleData && scheduleData.length > 0) {
-        setCurrentSchedule(scheduleData[0]);
       } else {
-        setCurrentSchedule(null);
+        setCurrentSchedule(resolveImamSchedule(scheduleData || [], targetDay, nextPrayerDisplayName));
       }
     } catch (err) {
       console.error("Unexpected error in ImamMuezzinDisplay:", err);
@@ -127,22 +72,11 @@ const ImamMuezzinDisplay: React.FC = React.memo(() => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [timeline, tomorrowTimeline]);
 
   useEffect(() => {
     fetchAndDisplaySchedule();
 
-    if (!settingsChannelRef.current) {
-      settingsChannelRef.current = supabase
-        .channel('imam_muezzin_display_settings_changes')
-        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'app_settings', filter: 'id=eq.1' }, (payload) => {
-          console.log('App settings change received for ImamMuezzinDisplay!', payload);
-          fetchAndDisplaySchedule();
-        })
-        .subscribe();
-      console.log("ImamMuezzinDisplay: Subscribed to channel 'imam_muezzin_display_settings_changes'.");
-    }
-
     if (!schedulesChannelRef.current) {
       schedulesChannelRef.current = supabase
         .channel('imam_muezzin_display_schedules_changes')
@@ -157,11 +91,6 @@ const ImamMuezzinDisplay: React.FC = React.memo(() => {
     const interval = setInterval(fetchAndDisplaySchedule, 60 * 1000); 
 
     return () => {
-      if (settingsChannelRef.current) {
-        supabase.removeChannel(settingsChannelRef.current);
-        console.log("ImamMuezzinDisplay: Unsubscribed from channel 'imam_muezzin_display_settings_changes'.");
-        settingsChannelRef.current = null;
-      }
       if (schedulesChannelRef.current) {
         supabase.removeChannel(schedulesChannelRef.current);
         console.log("ImamMuezzinDisplay: Unsubscribed from channel 'imam_muezzin_display_schedules_changes'.");
@@ -203,29 +132,28 @@ const ImamMuezzinDisplay: React.FC = React.memo(() => {
     );
   }
 
+  const imam = resolveSchedulePerson(currentSchedule, "imam", personnel);
+
   return (
     <div className="bg-gray-800 bg-opacity-70 p-2 rounded-xl shadow-2xl w-full text-center flex-grow flex flex-col">
       <h3 className="text-xl md:text-2xl lg:text-3xl font-bold mb-0.5 text-green-300">
         Sholat {currentSchedule.prayer_name} Berikutnya
       </h3>
-      <p className="text-lg md:text-xl lg:text-2xl text-blue-200">
-        Imam: <span className="font-semibold">{currentSchedule.imam_name}</span>
-      </p>
-      {currentSchedule.muezzin_name && (
-        <p className="text-sm md:text-base lg:text-xl text-gray-300 mt-0.5">
-          Muadzin: <span className="font-medium">{currentSchedule.muezzin_name}</span>
-        </p>
-      )}
-      {currentSchedule.khatib_name && (
-        <p className="text-sm md:text-base lg:text-xl text-gray-300 mt-0.5">
-          Khatib: <span className="font-medium">{currentSchedule.khatib_name}</span>
-        </p>
-      )}
-      {currentSchedule.bilal_name && (
-        <p className="text-sm md:text-base lg:text-xl text-gray-300 mt-0.5">
-          Bilal: <span className="font-medium">{currentSchedule.bilal_name}</span>
+      {imam && (
+        <p className="text-lg md:text-xl lg:text-2xl text-blue-200">
+          <PersonnelPhoto person={imam} className="h-8 w-8 md:h-10 md:w-10" />
+          Imam: <span className="font-semibold">{formatPersonnelName(imam)}</span>
         </p>
       )}
+      {SECONDARY_ROLES.map((role) => {
+        const person = resolveSchedulePerson(currentSchedule, role, personnel);
+        return person && (
+          <p key={role} className="text-sm md:text-base lg:text-xl text-gray-300 mt-0.5">
+            <PersonnelPhoto person={person} className="h-6 w-6 md:h-8 md:w-8" />
+            {describePersonnelRoles([role])}: <span className="font-medium">{formatPersonnelName(person)}</span>
+          </p>
+        );
+      })}
     </div>
   );
 });
@@ -1,31 +1,34 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import dayjs from "dayjs";
 import duration from "dayjs/plugin/duration";
-import isSameOrAfter from "dayjs/plugin/isSameOrAfter";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { id } from "date-fns/locale";
 import { format } from "date-fns";
 import { RealtimeChannel } from "@supabase/supabase-js";
+import { useCurrentDay } from "@/hooks/use-current-day";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import { getClockTickMs, masjidDate, masjidNow } from "@/lib/clock";
+import { getUpcomingHolidays, IslamicHoliday } from "@/lib/islamicHolidays";
 
 dayjs.extend(duration);
-dayjs.extend(isSameOrAfter);
-
-interface IslamicHoliday {
-  id: string;
-  name: string;
-  holiday_date: string; // YYYY-MM-DD format
-  display_order: number;
-}
 
 const IslamicHolidayCountdown: React.FC = React.memo(() => {
-  const [nextHoliday, setNextHoliday] = useState<IslamicHoliday | null>(null);
+  const [holidays, setHolidays] = useState<IslamicHoliday[]>([]);
   const [countdown, setCountdown] = useState<string>("");
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const channelRef = useRef<RealtimeChannel | null>(null);
+  const currentDay = useCurrentDay(); // Re-evaluate the upcoming holiday after midnight
+  const { config, formatHijri } = useHijriCalendar();
+
+  // Recurring holidays are placed on their next Hijri occurrence locally, no external calendar is needed
+  const nextHoliday = useMemo(
+    () => getUpcomingHolidays(holidays, currentDay, config)[0] ?? null,
+    [holidays, currentDay, config],
+  );
 
-  const fetchNextHoliday = useCallback(async () => {
+  const fetchHolidays = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
@@ -40,14 +43,7 @@ const IslamicHolidayCountdown: React.FC = React.memo(() => {
         setError("Gagal memuat hari besar Islam.");
         toast.error("Gagal memuat hari besar Islam.");
       } else {
-        const now = dayjs().startOf('day');
-        const upcomingHolidays = data?.filter(holiday => dayjs(holiday.holiday_date).isSameOrAfter(now, 'day')) || [];
-
-        if (upcomingHolidays.length > 0) {
-          setNextHoliday(upcomingHolidays[0]);
-        } else {
-          setNextHoliday(null);
-        }
+        setHolidays(data || []);
       }
     } catch (err) {
       console.error("Unexpected error fetching Islamic holidays:", err);
@@ -59,14 +55,14 @@ const IslamicHolidayCountdown: React.FC = React.memo(() => {
   }, []);
 
   useEffect(() => {
-    fetchNextHoliday();
+    fetchHolidays();
 
     if (!channelRef.current) {
       channelRef.current = supabase
         .channel('islamic_holidays_display_changes')
         .on('postgres_changes', { event: '*', schema: 'public', table: 'islamic_holidays' }, (payload) => {
           console.log('Islamic holiday change received for display!', payload);
-          fetchNextHoliday();
+          fetchHolidays();
         })
         .subscribe();
       console.log("IslamicHolidayCountdown: Subscribed to channel 'islamic_holidays_display_changes'.");
@@ -79,7 +75,7 @@ const IslamicHolidayCountdown: React.FC = React.memo(() => {
         channelRef.current = null;
       }
     };
-  }, [fetchNextHoliday]);
+  }, [fetchHolidays]);
 
   useEffect(() => {
     const updateCountdown = () => {
@@ -88,14 +84,13 @@ const IslamicHolidayCountdown: React.FC = React.memo(() => {
         return;
       }
 
-      const now = dayjs();
-      const holidayDate = dayjs(nextHoliday.holiday_date).endOf('day');
+      const now = masjidNow();
+      const holidayDate = masjidDate(nextHoliday.date).endOf('day');
 
       const diffMs = holidayDate.diff(now);
 
       if (diffMs <= 0) {
         setCountdown("Hari ini!");
-        setTimeout(fetchNextHoliday, 5000); 
         return;
       }
 
@@ -127,11 +122,11 @@ const IslamicHolidayCountdown: React.FC = React.memo(() => {
       setCountdown(countdownText.trim());
     };
 
-    const interval = setInterval(updateCountdown, 1000);
+    const interval = setInterval(updateCountdown, getClockTickMs());
     updateCountdown();
 
     return () => clearInterval(interval);
-  }, [nextHoliday, fetchNextHoliday]);
+  }, [nextHoliday]);
 
   if (isLoading) {
     return (
@@ -161,7 +156,7 @@ const IslamicHolidayCountdown: React.FC = React.memo(() => {
             {nextHoliday.name}
           </p>
           <p className="text-sm md:text-base lg:text-lg text-gray-300 mb-1">
-            {format(new Date(nextHoliday.holiday_date), "EEEE, dd MMMM yyyy", { locale: id }).replace('Minggu', 'Ahad')}
+            {format(new Date(nextHoliday.date), "EEEE, dd MMMM yyyy", { locale: id }).replace('Minggu', 'Ahad')} / {formatHijri(nextHoliday.date)}
           </p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-green-400">
             {countdown}
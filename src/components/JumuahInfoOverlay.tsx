@@ -1,27 +1,23 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import dayjs from "dayjs";
-import duration from "dayjs/plugin/duration";
-import isBetween from "dayjs/plugin/isBetween"; // Import isBetween plugin
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
 import AutoScrollingFinancialRecords from "@/components/AutoScrollingFinancialRecords";
 import { cn } from "@/lib/utils";
-
-dayjs.extend(duration);
-dayjs.extend(isBetween); // Extend dayjs with isBetween plugin
-
-interface Schedule {
-  id: string;
-  day_of_week: string;
-  prayer_name: string;
-  imam_name: string;
-  muezzin_name?: string | null;
-  khatib_name?: string | null;
-  bilal_name?: string | null;
-  display_order: number;
-}
+import { JumuahOverlayPhase } from "@/lib/overlayState";
+import { JumuahPhaseWindow } from "@/lib/jumuah";
+import { useCountdown } from "@/hooks/use-countdown";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { masjidDate } from "@/lib/clock";
+import { ImamSchedule, imamScheduleDateFilter, resolveImamSchedule } from "@/lib/imamSchedule";
+import { describePersonnelRoles, formatPersonnelName, PersonnelRole, resolveSchedulePerson } from "@/lib/personnel";
+import { usePersonnel } from "@/hooks/use-personnel";
+import PersonnelPhoto from "@/components/PersonnelPhoto";
+
+// The roles listed under the imam in the Jum'at schedule, in this order
+const SECONDARY_ROLES: PersonnelRole[] = ["khatib", "bilal", "muezzin"];
 
 interface FinancialRecord {
   id: string;
@@ -32,48 +28,46 @@ interface FinancialRecord {
 }
 
 interface JumuahInfoOverlayProps {
-  jumuahDhuhrTime: dayjs.Dayjs; // Exact Dhuhr time for Friday
-  khutbahDurationMinutes: number;
-  onClose: () => void;
+  displayPhase: JumuahOverlayPhase;
+  jumuahPhases: JumuahPhaseWindow[]; // The Friday timeline, for the name and message of the current phase
+  phaseStart: dayjs.Dayjs | null;
+  phaseEnd: dayjs.Dayjs | null; // End of the current phase, counted down to
 }
 
-const PRE_ADHAN_JUMUAH_SECONDS = 300; // 5 minutes before Adhan
-const ADHAN_JUMUAH_DURATION_SECONDS = 90; // Approx 1.5 minutes for Adhan
-
-const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ jumuahDhuhrTime, khutbahDurationMinutes, onClose }) => {
-  const [jumuahSchedule, setJumuahSchedule] = useState<Schedule | null>(null);
+// Renders the Jum'at overlay for the phase decided by the overlay state machine (see useOverlayState).
+const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ displayPhase, jumuahPhases, phaseStart, phaseEnd }) => {
+  const [jumuahSchedule, setJumuahSchedule] = useState<ImamSchedule | null>(null);
   const [totalBalance, setTotalBalance] = useState<number>(0);
   const [recentRecords, setRecentRecords] = useState<FinancialRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { currentDay } = usePrayerTimeline();
+  const personnel = usePersonnel('jumuah_personnel_changes');
+  const imam = resolveSchedulePerson(jumuahSchedule, "imam", personnel);
+  const khatib = resolveSchedulePerson(jumuahSchedule, "khatib", personnel);
 
-  const [displayPhase, setDisplayPhase] = useState<"pre-adhan" | "adhan" | "khutbah" | "hidden">("hidden");
-  const [countdownText, setCountdownText] = useState<string>("");
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const countdownText = useCountdown(displayPhase === "pre-adhan" || displayPhase === "announcement" ? phaseEnd : null);
+  const phaseIndex = jumuahPhases.findIndex(({ start }) => start.valueOf() === phaseStart?.valueOf());
+  const currentPhase = phaseIndex >= 0 ? jumuahPhases[phaseIndex].phase : null;
+  const nextPhaseName = jumuahPhases[phaseIndex + 1]?.phase.name ?? "Adzan";
 
   const fetchJumuahInfo = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const today = dayjs();
-      const currentDayOfWeek = "Jum'at"; // Explicitly for Friday
+      const today = masjidDate(currentDay);
 
-      // Fetch Jumuah schedule
+      // Fetch Jumuah schedule: today's khatib assignment, otherwise the weekly Friday row
       const { data: scheduleData, error: scheduleError } = await supabase
         .from("imam_muezzin_schedules")
         .select("*")
-        .eq("day_of_week", currentDayOfWeek)
-        .eq("prayer_name", "Jum'at")
-        .order("display_order", { ascending: true })
-        .limit(1);
+        .or(imamScheduleDateFilter(today));
 
       if (scheduleError) {
         console.error("Error fetching Jumuah schedule:", scheduleError);
         setError("Gagal memuat jadwal Jum'at.");
-      } else if (scheduleData && scheduleData.length > 0) {
-        setJumuahSchedule(scheduleData[0]);
       } else {
-        setJumuahSchedule(null);
+        setJumuahSchedule(resolveImamSchedule(scheduleData || [], today, "Jumat"));
       }
 
       // Fetch financial records
@@ -99,7 +93,7 @@ const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ jumuahDhuhrTime,
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [currentDay]);
 
   useEffect(() => {
     fetchJumuahInfo();
@@ -126,63 +120,6 @@ const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ jumuahDhuhrTime,
     };
   }, [fetchJumuahInfo]);
 
-  // Jumuah Countdown and Phase Logic
-  useEffect(() => {
-    if (!jumuahDhuhrTime) {
-      setDisplayPhase("hidden");
-      setCountdownText("");
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      onClose();
-      return;
-    }
-
-    const adhanTime = jumuahDhuhrTime;
-    const preAdhanStartTime = adhanTime.subtract(PRE_ADHAN_JUMUAH_SECONDS, 'second');
-    const adhanEndTime = adhanTime.add(ADHAN_JUMUAH_DURATION_SECONDS, 'second');
-    const khutbahEndTime = adhanEndTime.add(khutbahDurationMinutes, 'minute');
-
-    const updatePhaseAndCountdown = () => {
-      const now = dayjs();
-
-      if (now.isBefore(preAdhanStartTime)) {
-        setDisplayPhase("hidden");
-        setCountdownText("");
-        return;
-      }
-
-      if (now.isBetween(preAdhanStartTime, adhanTime, null, '[)')) {
-        setDisplayPhase("pre-adhan");
-        const diff = adhanTime.diff(now);
-        const durationRemaining = dayjs.duration(diff);
-        setCountdownText(`${String(durationRemaining.minutes()).padStart(2, '0')}:${String(durationRemaining.seconds()).padStart(2, '0')}`);
-      } else if (now.isBetween(adhanTime, adhanEndTime, null, '[)')) {
-        setDisplayPhase("adhan");
-        setCountdownText(""); // No countdown during adhan
-      } else if (now.isBetween(adhanEndTime, khutbahEndTime, null, '[)')) {
-        setDisplayPhase("khutbah");
-        const diff = khutbahEndTime.diff(now);
-        const durationRemaining = dayjs.duration(diff);
-        setCountdownText(`${String(durationRemaining.minutes()).padStart(2, '0')}:${String(durationRemaining.seconds()).padStart(2, '0')}`);
-      } else if (now.isAfter(khutbahEndTime)) {
-        // After khutbah, hide the overlay
-        setDisplayPhase("hidden");
-        setCountdownText("");
-        onClose(); // Notify parent to close
-        if (intervalRef.current) clearInterval(intervalRef.current);
-        return;
-      }
-    };
-
-    // Clear any existing interval before setting a new one
-    if (intervalRef.current) clearInterval(intervalRef.current);
-    intervalRef.current = setInterval(updatePhaseAndCountdown, 1000);
-    updatePhaseAndCountdown(); // Initial call
-
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-    };
-  }, [jumuahDhuhrTime, khutbahDurationMinutes, onClose]);
-
   if (isLoading) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50 text-white">
@@ -200,10 +137,6 @@ const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ jumuahDhuhrTime,
     );
   }
 
-  if (displayPhase === "hidden") {
-    return null;
-  }
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 text-white p-4 md:p-8">
       <div className="flex flex-col items-center justify-center w-full max-w-6xl h-full">
@@ -213,29 +146,29 @@ const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ jumuahDhuhrTime,
 
         {displayPhase === "pre-adhan" && (
           <>
+            {currentPhase?.message && (
+              <p className="text-3xl md:text-4xl font-semibold text-blue-200 text-center mb-6">{currentPhase.message}</p>
+            )}
             {jumuahSchedule ? (
               <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
                 <h3 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-3 text-green-300">
                   Jadwal Sholat Jum'at
                 </h3>
-                <p className="text-3xl md:text-4xl lg:text-5xl text-blue-200">
-                  Imam: <span className="font-semibold">{jumuahSchedule.imam_name}</span>
-                </p>
-                {jumuahSchedule.khatib_name && (
-                  <p className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
-                    Khatib: <span className="font-medium">{jumuahSchedule.khatib_name}</span>
-                  </p>
-                )}
-                {jumuahSchedule.bilal_name && (
-                  <p className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
-                    Bilal: <span className="font-medium">{jumuahSchedule.bilal_name}</span>
-                  </p>
-                )}
-                {jumuahSchedule.muezzin_name && (
-                  <p className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
-                    Muadzin: <span className="font-medium">{jumuahSchedule.muezzin_name}</span>
+                {imam && (
+                  <p className="text-3xl md:text-4xl lg:text-5xl text-blue-200">
+                    <PersonnelPhoto person={imam} className="h-14 w-14 md:h-16 md:w-16" />
+                    Imam: <span className="font-semibold">{formatPersonnelName(imam)}</span>
                   </p>
                 )}
+                {SECONDARY_ROLES.map((role) => {
+                  const person = resolveSchedulePerson(jumuahSchedule, role, personnel);
+                  return person && (
+                    <p key={role} className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
+                      <PersonnelPhoto person={person} className="h-12 w-12 md:h-14 md:w-14" />
+                      {describePersonnelRoles([role])}: <span className="font-medium">{formatPersonnelName(person)}</span>
+                    </p>
+                  );
+                })}
               </div>
             ) : (
               <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
@@ -276,33 +209,55 @@ const JumuahInfoOverlay: React.FC<JumuahInfoOverlayProps> = ({ jumuahDhuhrTime,
               )}
             </div>
             <h5 className="text-4xl md:text-5xl lg:text-6xl font-bold text-red-400 text-outline-black">
-              Menuju Adzan: {countdownText}
+              Menuju {nextPhaseName}: {countdownText}
+            </h5>
+          </>
+        )}
+
+        {displayPhase === "announcement" && (
+          <>
+            <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
+              <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-green-400 text-outline-black uppercase">
+                {currentPhase?.name ?? "Pengumuman"}
+              </h3>
+              {currentPhase?.message && (
+                <p className="text-3xl md:text-4xl lg:text-5xl text-blue-200 mt-6">{currentPhase.message}</p>
+              )}
+            </div>
+            <h5 className="text-4xl md:text-5xl lg:text-6xl font-bold text-red-400 text-outline-black">
+              Menuju {nextPhaseName}: {countdownText}
             </h5>
           </>
         )}
 
         {displayPhase === "adhan" && (
           <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
-            <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-red-400 text-outline-black">
-              ADZAN JUMAT
+            <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-red-400 text-outline-black uppercase">
+              {currentPhase?.name ?? "Adzan Jumat"}
             </h3>
+            {currentPhase?.message && (
+              <p className="text-3xl md:text-4xl lg:text-5xl text-blue-200 mt-6">{currentPhase.message}</p>
+            )}
           </div>
         )}
 
         {displayPhase === "khutbah" && (
           <>
             <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
-              <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-green-400 text-outline-black">
-                KHUTBAH JUMAT
+              <h3 className="text-6xl md:text-7xl lg:text-8xl font-bold text-green-400 text-outline-black uppercase">
+                {currentPhase?.name ?? "Khutbah Jumat"}
               </h3>
-              {jumuahSchedule?.khatib_name && (
-                <p className="text-5xl md:text-6xl lg:text-7xl font-bold text-blue-400 mt-4 text-outline-black">
-                  {jumuahSchedule.khatib_name}
-                </p>
+              {khatib && (
+                <div className="flex items-center justify-center mt-4">
+                  <PersonnelPhoto person={khatib} className="h-24 w-24 md:h-32 md:w-32 mr-4" />
+                  <p className="text-5xl md:text-6xl lg:text-7xl font-bold text-blue-400 text-outline-black">
+                    {formatPersonnelName(khatib)}
+                  </p>
+                </div>
               )}
             </div>
             <p className="text-4xl md:text-5xl lg:text-6xl font-bold text-red-600 mt-8 text-outline-black uppercase text-center">
-              Matikan Smartphone dan Jangan Bicara
+              {currentPhase?.message || "Matikan Smartphone dan Jangan Bicara"}
             </p>
           </>
         )}
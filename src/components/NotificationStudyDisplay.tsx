@@ -11,6 +11,7 @@ import { RealtimeChannel } from "@supabase/supabase/dist/module/lib/SupabaseClie
 import "swiper/css";
 import "swiper/css/pagination";
 import "swiper/css/navigation";
+import { masjidDate, masjidNow } from "@/lib/clock";
 
 interface NotificationStudy {
   id: string;
@@ -47,13 +48,12 @@ const NotificationStudyDisplay: React.FC = React.memo(() => {
         toast.error("Gagal memuat notifikasi & kajian.");
       } else {
         // Filter out past events/studies if they have an event_date
-        const now = new Date();
+        const now = masjidNow();
         const filteredData = data?.filter(item => {
           if (item.type === "notification") return true; // Always show notifications
           if (item.event_date) {
-            const eventDateTimeString = item.event_date + (item.event_time ? `T${item.event_time}:00` : 'T00:00:00');
-            const eventDateTime = new Date(eventDateTimeString);
-            return eventDateTime >= now; // Only show future or current events/studies
+            const eventDateTime = masjidDate(`${item.event_date} ${item.event_time || "00:00"}`);
+            return !eventDateTime.isBefore(now); // Only show future or current events/studies
           }
           return true; // If no event_date, assume it's always relevant (e.g., general study info)
         }) || [];
@@ -0,0 +1,25 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { SchedulePerson } from "@/lib/personnel";
+
+interface PersonnelPhotoProps {
+  person: SchedulePerson;
+  className?: string; // Size of the photo
+}
+
+// A round photo shown before a scheduled person's name; nothing for people without a photo.
+const PersonnelPhoto: React.FC<PersonnelPhotoProps> = ({ person, className }) => {
+  if (!person.photo_url) {
+    return null;
+  }
+
+  return (
+    <img
+      src={person.photo_url}
+      alt={person.name}
+      className={cn("inline-block rounded-full object-cover align-middle mr-2 border border-gray-600", className)}
+    />
+  );
+};
+
+export default PersonnelPhoto;
\ No newline at end of file
@@ -1,226 +1,103 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import dayjs from "dayjs";
 import duration from "dayjs/plugin/duration";
-import isBetween from "dayjs/plugin/isBetween";
-import { supabase } from "@/lib/supabase";
-import * as Adhan from "adhan";
-import { toast } from "sonner";
-import { RealtimeChannel } from "@supabase/supabase-js";
+import "dayjs/locale/id";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import { findNextPrayer, getTomorrowScheduleSwitchTime, PrayerTimeEntry } from "@/lib/prayerTimes";
+import {
+  calculateSunnahTimes,
+  findActiveForbiddenInterval,
+  ForbiddenInterval,
+  getUpcomingLastThirdOfNight,
+  SunnahTimes,
+} from "@/lib/sunnahTimes";
+import { getClockTickMs, masjidNow } from "@/lib/clock";
 
 dayjs.extend(duration);
-dayjs.extend(isBetween);
-
-interface PrayerTime {
-  name: string;
-  time: string; // e.g., "04:30"
-}
 
 interface PrayerTimesDisplayProps {
   hideCountdown?: boolean; // New prop
 }
 
 const PrayerTimesDisplay: React.FC<PrayerTimesDisplayProps> = React.memo(({ hideCountdown = false }) => {
-  const [currentTime, setCurrentTime] = useState(dayjs());
-  const [prayerTimes, setPrayerTimes] = useState<PrayerTime[]>([]);
-  const [nextPrayer, setNextPrayer] = useState<PrayerTime | null>(null);
+  const { timeline, tomorrowTimeline, isLoading } = usePrayerTimeline();
+  const { settings } = useAppSettings();
+  const { formatHijri } = useHijriCalendar();
+  const [nextPrayer, setNextPrayer] = useState<PrayerTimeEntry | null>(null);
   const [countdown, setCountdown] = useState<string>("");
   const [currentPrayerName, setCurrentPrayerName] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isRamadanModeActive, setIsRamadanModeActive] = useState(false);
-  const channelRef = useRef<RealtimeChannel | null>(null);
-
-  const fetchAndCalculatePrayerTimes = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  const [activeForbiddenInterval, setActiveForbiddenInterval] = useState<ForbiddenInterval | null>(null);
+  const [lastThirdOfNight, setLastThirdOfNight] = useState<dayjs.Dayjs | null>(null);
+  const [isShowingTomorrow, setIsShowingTomorrow] = useState(false);
+
+  const error = !isLoading && !timeline ? "Waktu sholat belum dimuat. Silakan atur lokasi di panel admin." : null;
+  // After Isya (plus the configured minutes) the table shows tomorrow's schedule
+  const displayTimeline = isShowingTomorrow && tomorrowTimeline ? tomorrowTimeline : timeline;
+  const prayerTimes = displayTimeline?.entries ?? [];
+  const isRamadanModeActive = displayTimeline?.isRamadanModeActive ?? false;
+
+  const showDhuhaTimes = settings?.show_dhuha_times ?? false;
+  const showZawalTime = settings?.show_zawal_time ?? false;
+  const showForbiddenTimes = settings?.show_forbidden_times ?? false;
+  const showLastThirdOfNight = settings?.show_last_third_of_night ?? false;
+  const showIndicators = showDhuhaTimes || showZawalTime || showForbiddenTimes || showLastThirdOfNight;
+
+  const sunnahTimes = useMemo<SunnahTimes | null>(() => {
+    if (!displayTimeline || !settings || !showIndicators) return null;
+    return calculateSunnahTimes(settings, displayTimeline);
+  }, [displayTimeline, settings, showIndicators]);
+
+  const tomorrowLabel = useMemo(() => {
+    if (!isShowingTomorrow || !tomorrowTimeline) return null;
+    const gregorianDate = tomorrowTimeline.date.locale("id").format("dddd, DD MMMM YYYY").replace("Minggu", "Ahad");
     try {
-      console.log("Fetching app settings for prayer times...");
-      const { data, error: fetchError } = await supabase
-        .from("app_settings")
-        .select("latitude, longitude, calculation_method, is_ramadan_mode_active, fajr_offset, dhuhr_offset, asr_offset, maghrib_offset, isha_offset, imsak_offset")
-        .eq("id", 1)
-        .single();
-
-      if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 means no rows found
-        console.error("Error fetching prayer time settings from Supabase:", fetchError);
-        setError(`Gagal memuat pengaturan waktu sholat: ${fetchError.message || "Pastikan pengaturan sudah disimpan."}`);
-        toast.error("Gagal memuat pengaturan waktu sholat.");
-        setIsLoading(false);
-        return;
-      }
-
-      let latitude = data?.latitude || -6.2088;
-      let longitude = data?.longitude || 106.8456;
-      let calculationMethod = data?.calculation_method || "MuslimWorldLeague";
-      const ramadanModeStatus = data?.is_ramadan_mode_active || false;
-      setIsRamadanModeActive(ramadanModeStatus);
-
-      const fajrOffset = data?.fajr_offset ?? 0;
-      const dhuhrOffset = data?.dhuhr_offset ?? 0;
-      const asrOffset = data?.asr_offset ?? 0;
-      const maghribOffset = data?.maghrib_offset ?? 0;
-      const ishaOffset = data?.isha_offset ?? 0;
-      const imsakOffset = data?.imsak_offset ?? 0;
-
-      console.log("Settings fetched:", { latitude, longitude, calculationMethod, ramadanModeStatus, fajrOffset, dhuhrOffset, asrOffset, maghribOffset, ishaOffset, imsakOffset });
-
-      const coordinates = new Adhan.Coordinates(latitude, longitude);
-      const params = Adhan.CalculationMethod[calculationMethod as keyof typeof Adhan.CalculationMethod]();
-      
-      const today = dayjs(); // Use dayjs for current day check
-      const adhanTimes = new Adhan.PrayerTimes(coordinates, today.toDate(), params);
-
-      // Apply offsets to Adhan times
-      const adjustedFajr = dayjs(adhanTimes.fajr).add(fajrOffset, 'minute');
-      const adjustedDhuhr = dayjs(adhanTimes.dhuhr).add(dhuhrOffset, 'minute');
-      const adjustedAsr = dayjs(adhanTimes.asr).add(asrOffset, 'minute');
-      const adjustedMaghrib = dayjs(adhanTimes.maghrib).add(maghribOffset, 'minute');
-      const adjustedIsha = dayjs(adhanTimes.isha).add(ishaOffset, 'minute');
-      const adjustedSunrise = dayjs(adhanTimes.sunrise); // Sunrise typically doesn't have an offset
-
-      // Calculate Imsak manually as 10 minutes before Fajr, then apply its own offset
-      const calculatedImsakTime = dayjs(adhanTimes.fajr).subtract(10, 'minute').add(imsakOffset, 'minute');
-      const imsakTimeFormatted = calculatedImsakTime.format("HH:mm");
-      console.log("Manually calculated Imsak time (10 mins before Fajr + offset):", imsakTimeFormatted);
-
-      const isFriday = today.day() === 5; // 0 for Sunday, 5 for Friday
-
-      const basePrayerTimes: PrayerTime[] = [
-        { name: "Subuh", time: adjustedFajr.format("HH:mm") },
-        { name: "Syuruq", time: adjustedSunrise.format("HH:mm") },
-        { name: isFriday ? "Jum'at" : "Dzuhur", time: adjustedDhuhr.format("HH:mm") },
-        { name: "Ashar", time: adjustedAsr.format("HH:mm") },
-        { name: "Maghrib", time: adjustedMaghrib.format("HH:mm") },
-        { name: "Isya", time: adjustedIsha.format("HH:mm") },
-      ];
-
-      let finalPrayerTimes: PrayerTime[] = [];
-      if (ramadanModeStatus) {
-        // Jika mode Ramadan aktif, tambahkan Imsak di awal untuk perhitungan internal
-        finalPrayerTimes.push({ name: "Imsak", time: imsakTimeFormatted });
-      }
-      finalPrayerTimes = finalPrayerTimes.concat(basePrayerTimes);
-      
-      console.log("Calculated prayer times (with offsets):", finalPrayerTimes);
-      setPrayerTimes(finalPrayerTimes);
-      setIsLoading(false);
-    } catch (err: any) {
-      console.error("Error in fetchAndCalculatePrayerTimes:", err);
-      setError(`Terjadi kesalahan saat menghitung waktu sholat: ${err.message || "Kesalahan tidak diketahui"}.`);
-      toast.error("Terjadi kesalahan saat menghitung waktu sholat.");
-      setIsLoading(false);
+      return `${gregorianDate} / ${formatHijri(tomorrowTimeline.date)}`;
+    } catch (error) {
+      console.error("PrayerTimesDisplay: Error formatting tomorrow's Hijri date:", error);
+      return gregorianDate;
     }
-  }, []);
-
-  useEffect(() => {
-    fetchAndCalculatePrayerTimes();
-
-    if (!channelRef.current) {
-      channelRef.current = supabase
-        .channel('app_settings_changes_prayer_times') // Unique channel name
-        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'app_settings', filter: 'id=eq.1' }, (payload) => {
-          console.log('App settings change received for PrayerTimesDisplay!', payload);
-          fetchAndCalculatePrayerTimes();
-        })
-        .subscribe();
-      console.log("PrayerTimesDisplay: Subscribed to channel 'app_settings_changes_prayer_times'.");
-    }
-
-    return () => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-        console.log("PrayerTimesDisplay: Unsubscribed from channel 'app_settings_changes_prayer_times'.");
-        channelRef.current = null;
-      }
-    };
-  }, [fetchAndCalculatePrayerTimes]);
+  }, [isShowingTomorrow, tomorrowTimeline, formatHijri]);
 
   useEffect(() => {
-    if (prayerTimes.length === 0 && !isLoading && !error) {
-      setError("Waktu sholat belum dimuat. Silakan atur lokasi di panel admin.");
+    if (!timeline) {
+      setNextPrayer(null);
+      setCountdown("N/A");
+      setCurrentPrayerName(null);
+      setActiveForbiddenInterval(null);
+      setLastThirdOfNight(null);
+      setIsShowingTomorrow(false);
       return;
     }
 
     const updateDisplay = () => {
-      const now = dayjs();
-      setCurrentTime(now);
+      const now = masjidNow();
 
-      if (prayerTimes.length === 0) {
-        setNextPrayer(null);
-        setCountdown("N/A");
-        setCurrentPrayerName(null);
-        return;
-      }
-
-      let foundNextPrayer: PrayerTime | null = null;
-      let minDiff = Infinity;
-      let currentPrayer: PrayerTime | null = null;
+      // Find the next *actual* prayer (Syuruq and Imsak are excluded by the timeline)
+      const foundNextPrayer = findNextPrayer(timeline, now, tomorrowTimeline);
 
-      const sortedPrayerTimes = prayerTimes.map(prayer => {
-        const [hour, minute] = prayer.time.split(":").map(Number);
-        return {
-          ...prayer,
-          dateTimeToday: now.hour(hour).minute(minute).second(0).millisecond(0)
-        };
-      }).sort((a, b) => a.dateTimeToday.diff(b.dateTimeToday));
+      const switchTime = settings ? getTomorrowScheduleSwitchTime(timeline, settings) : null;
+      const showTomorrow = !!tomorrowTimeline && !!switchTime && !now.isBefore(switchTime);
 
-      // Find the next *actual* prayer (excluding Syuruq and Imsak for next prayer calculation)
-      const prayersForNextCalculation = sortedPrayerTimes.filter(p => p.name !== "Syuruq" && p.name !== "Imsak");
-
-      for (let i = 0; i < prayersForNextCalculation.length; i++) {
-        const prayer = prayersForNextCalculation[i];
-        
-        let prayerDateTime = prayer.dateTimeToday;
-
-        if (prayerDateTime.isBefore(now)) {
-          prayerDateTime = prayerDateTime.add(1, "day");
-        }
-
-        const diff = prayerDateTime.diff(now);
-        if (diff > 0 && diff < minDiff) {
-          minDiff = diff;
-          foundNextPrayer = prayer;
-        }
-      }
-
-      // Determine current prayer (including Syuruq and Imsak for display purposes)
-      for (let i = 0; i < sortedPrayerTimes.length; i++) {
-        const prayer = sortedPrayerTimes[i];
-        const nextIndex = (i + 1) % sortedPrayerTimes.length;
-        const nextPrayerInList = sortedPrayerTimes[nextIndex];
-
-        let startOfInterval = prayer.dateTimeToday;
-        let endOfInterval = nextPrayerInList.dateTimeToday;
-
-        if (endOfInterval.isBefore(startOfInterval)) {
-          endOfInterval = endOfInterval.add(1, 'day');
-        }
-
-        if (now.isBetween(startOfInterval, endOfInterval, null, '[)')) {
-          currentPrayer = prayer;
-          break;
-        }
-      }
-
-      if (!currentPrayer && sortedPrayerTimes.length > 0) {
-        const lastPrayerToday = sortedPrayerTimes[sortedPrayerTimes.length - 1].dateTimeToday;
-        const firstPrayerTomorrow = sortedPrayerTimes[0].dateTimeToday.add(1, 'day');
-        if (now.isBetween(lastPrayerToday, firstPrayerTomorrow, null, '[)')) {
-          currentPrayer = sortedPrayerTimes[sortedPrayerTimes.length - 1];
-        }
-      }
+      // Determine current prayer (including Syuruq and Imsak for display purposes).
+      // Before the first entry of the day we are still in the previous night's last entry.
+      // Nothing of tomorrow's schedule has passed yet.
+      const passedEntries = timeline.entries.filter((entry) => !entry.time.isAfter(now));
+      const currentPrayer = showTomorrow
+        ? null
+        : passedEntries.length > 0
+        ? passedEntries[passedEntries.length - 1]
+        : timeline.entries[timeline.entries.length - 1];
 
+      setIsShowingTomorrow(showTomorrow);
       setNextPrayer(foundNextPrayer);
       setCurrentPrayerName(currentPrayer ? currentPrayer.name : null);
+      setActiveForbiddenInterval(sunnahTimes ? findActiveForbiddenInterval(sunnahTimes, now) : null);
+      setLastThirdOfNight(sunnahTimes && displayTimeline ? getUpcomingLastThirdOfNight(sunnahTimes, displayTimeline, now) : null);
 
       if (foundNextPrayer) {
-        const [hour, minute] = foundNextPrayer.time.split(":").map(Number);
-        let nextPrayerDateTime = now.hour(hour).minute(minute).second(0);
-        if (nextPrayerDateTime.isBefore(now)) {
-          nextPrayerDateTime = nextPrayerDateTime.add(1, "day");
-        }
-
-        const durationRemaining = dayjs.duration(nextPrayerDateTime.diff(now));
+        const durationRemaining = dayjs.duration(foundNextPrayer.time.diff(now));
         const hours = String(durationRemaining.hours()).padStart(2, "0");
         const minutes = String(durationRemaining.minutes()).padStart(2, "0");
         const seconds = String(durationRemaining.seconds()).padStart(2, "0");
@@ -230,18 +107,26 @@ const PrayerTimesDisplay: React.FC<PrayerTimesDisplayProps> = React.memo(({ hide
       }
     };
 
-    const interval = setInterval(updateDisplay, 1000);
+    const interval = setInterval(updateDisplay, getClockTickMs());
     updateDisplay();
 
     return () => clearInterval(interval);
-  }, [prayerTimes, isLoading, error]);
+  }, [timeline, tomorrowTimeline, displayTimeline, settings, sunnahTimes]);
 
   // Filter out Imsak for display if Ramadan mode is active
   const prayersToDisplay = prayerTimes.filter(prayer => !(isRamadanModeActive && prayer.name === "Imsak"));
 
   return (
     <div className="bg-gray-800 bg-opacity-70 p-2 rounded-xl shadow-2xl text-center flex flex-col justify-between flex-grow">
-      <h2 className="text-xl md:text-2xl lg:text-3xl font-bold mb-1 text-blue-300">Jadwal Sholat</h2>
+      <h2 className="text-xl md:text-2xl lg:text-3xl font-bold mb-1 text-blue-300">
+        Jadwal Sholat
+        {tomorrowLabel && (
+          <span className="ml-2 px-2 py-0.5 rounded-md bg-yellow-500 text-gray-900 align-middle">Besok</span>
+        )}
+      </h2>
+      {tomorrowLabel && (
+        <p className="text-sm md:text-base lg:text-lg text-yellow-200 mb-1">{tomorrowLabel}</p>
+      )}
       {isLoading ? (
         <p className="text-sm text-white">Memuat waktu sholat...</p>
       ) : error ? (
@@ -255,7 +140,7 @@ const PrayerTimesDisplay: React.FC<PrayerTimesDisplayProps> = React.memo(({ hide
           <div className="grid grid-cols-2 md:grid-cols-3 gap-1 text-base md:text-lg lg:text-xl xl:text-2xl">
             {prayersToDisplay.map((prayer) => (
               <div
-                key={prayer.name}
+                key={prayer.key}
                 className={`p-0.5 rounded-md ${
                   nextPrayer?.name === prayer.name
                     ? "bg-blue-600 text-white font-bold scale-105 transition-all duration-300"
@@ -264,17 +149,49 @@ const PrayerTimesDisplay: React.FC<PrayerTimesDisplayProps> = React.memo(({ hide
                     : "bg-gray-700 text-gray-200"
                 }`}
               >
-                {prayer.name}: {prayer.time}
+                {prayer.name}: {prayer.time.format("HH:mm")}
               </div>
             ))}
           </div>
+          {sunnahTimes && (
+            <div className="flex flex-wrap justify-center gap-1 mt-1 text-sm md:text-base lg:text-lg">
+              {showDhuhaTimes && (
+                <span className="px-1.5 py-0.5 rounded-md bg-gray-700 text-gray-200">
+                  Dhuha: {sunnahTimes.dhuhaStart.format("HH:mm")} - {sunnahTimes.dhuhaEnd.format("HH:mm")}
+                </span>
+              )}
+              {showZawalTime && (
+                <span className="px-1.5 py-0.5 rounded-md bg-gray-700 text-gray-200">
+                  Zawal: {sunnahTimes.zawal.format("HH:mm")}
+                </span>
+              )}
+              {showForbiddenTimes && sunnahTimes.forbiddenIntervals.map((interval) => (
+                <span
+                  key={interval.key}
+                  className={`px-1.5 py-0.5 rounded-md ${
+                    activeForbiddenInterval?.key === interval.key
+                      ? "bg-red-700 text-white font-bold animate-pulse"
+                      : "bg-gray-700 text-gray-400"
+                  }`}
+                >
+                  {activeForbiddenInterval?.key === interval.key ? "Waktu Terlarang: " : "Terlarang: "}
+                  {interval.start.format("HH:mm")} - {interval.end.format("HH:mm")}
+                </span>
+              ))}
+              {showLastThirdOfNight && lastThirdOfNight && (
+                <span className="px-1.5 py-0.5 rounded-md bg-indigo-800 text-gray-200">
+                  Sepertiga Malam: {lastThirdOfNight.format("HH:mm")}
+                </span>
+              )}
+            </div>
+          )}
           {!hideCountdown && (
             <div className="mt-1.5 text-yellow-300 font-semibold text-lg md:text-xl lg:text-2xl xl:text-3xl">
               {nextPrayer ? (
                 nextPrayer.name === "Imsak" ? (
                   <>
                     Waktu Imsak:{" "}
-                    <span className="text-blue-400">{nextPrayer.time}</span>
+                    <span className="text-blue-400">{nextPrayer.time.format("HH:mm")}</span>
                     <br />
                     Menuju Subuh: <span className="text-red-400">{countdown}</span>
                   </>
@@ -2,10 +2,12 @@ import React, { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { RealtimeChannel } from "@supabase/supabase-js";
+import { useActiveSahurReminder } from "@/hooks/use-active-sahur-reminder";
 
 const RunningText: React.FC = React.memo(() => {
   const [text, setText] = useState<string>("Memuat teks berjalan...");
   const [error, setError] = useState<string | null>(null);
+  const sahurReminder = useActiveSahurReminder(); // Its message replaces the text until Imsak
 
   const fetchRunningText = useCallback(async () => {
     setError(null);
@@ -64,7 +66,7 @@ const RunningText: React.FC = React.memo(() => {
   return (
     <div className="w-full bg-gray-800 bg-opacity-70 p-1.5 rounded-lg shadow-xl mt-auto overflow-hidden">
       <p className="text-xl md:text-2xl lg:text-3xl xl:text-4xl font-bold text-gray-200 whitespace-nowrap animate-marquee">
-        {text}
+        {sahurReminder ? sahurReminder.message : text}
       </p>
     </div>
   );
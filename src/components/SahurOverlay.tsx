@@ -0,0 +1,33 @@
+import React from "react";
+import dayjs from "dayjs";
+import { cn } from "@/lib/utils";
+import { useCountdown } from "@/hooks/use-countdown";
+
+interface SahurOverlayProps {
+  imsakTime: dayjs.Dayjs;
+  message: string;
+}
+
+// Shown while the overlay state machine is in the sahur phase (see useOverlayState).
+const SahurOverlay: React.FC<SahurOverlayProps> = ({ imsakTime, message }) => {
+  const countdownText = useCountdown(imsakTime);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 text-white p-4 md:p-8">
+      <h2 className={cn("text-6xl md:text-8xl lg:text-9xl font-bold mb-8 text-outline-black text-yellow-300")}>
+        WAKTU SAHUR
+      </h2>
+      <p className="text-3xl md:text-4xl lg:text-5xl font-semibold text-blue-200 text-outline-black text-center max-w-5xl">
+        {message}
+      </p>
+      <p className="text-4xl md:text-5xl lg:text-6xl font-bold mt-10 text-gray-300 text-outline-black">
+        Imsak pukul {imsakTime.format("HH:mm")}
+      </p>
+      <p className={cn("text-8xl md:text-9xl lg:text-[10rem] font-extrabold text-outline-black text-green-400 mt-4")}>
+        {countdownText}
+      </p>
+    </div>
+  );
+};
+
+export default SahurOverlay;
\ No newline at end of file
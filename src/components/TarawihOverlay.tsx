@@ -0,0 +1,50 @@
+import React from "react";
+import { TarawihWindow } from "@/lib/tarawih";
+import { useCountdown } from "@/hooks/use-countdown";
+import { useTarawihSchedule } from "@/hooks/use-tarawih-schedule";
+
+interface TarawihOverlayProps {
+  tarawihWindow: TarawihWindow;
+}
+
+// Countdown to Tarawih, shown during the tarawih-countdown phase (see useOverlayState).
+const TarawihOverlay: React.FC<TarawihOverlayProps> = ({ tarawihWindow }) => {
+  const { schedule } = useTarawihSchedule('tarawih_overlay_schedules_changes');
+  const countdownText = useCountdown(tarawihWindow.start);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 text-white p-4 md:p-8">
+      <div className="flex flex-col items-center justify-center w-full max-w-6xl h-full">
+        <h2 className="text-5xl md:text-7xl lg:text-8xl font-extrabold text-yellow-300 mb-6 text-outline-black">
+          SHOLAT TARAWIH
+        </h2>
+
+        <div className="bg-gray-800 bg-opacity-70 p-6 rounded-xl shadow-2xl w-full max-w-4xl text-center mb-8">
+          <h3 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-3 text-green-300">
+            {tarawihWindow.rakaat} Rakaat
+          </h3>
+          {schedule ? (
+            <>
+              <p className="text-3xl md:text-4xl lg:text-5xl text-blue-200">
+                Imam: <span className="font-semibold">{schedule.imam_name}</span>
+              </p>
+              {schedule.kultum_name && (
+                <p className="text-2xl md:text-3xl lg:text-4xl text-gray-300 mt-1">
+                  Kultum: <span className="font-medium">{schedule.kultum_name}</span>
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-2xl text-gray-400">Jadwal Tarawih tidak ditemukan.</p>
+          )}
+        </div>
+
+        <h5 className="text-4xl md:text-5xl lg:text-6xl font-bold text-red-400 text-outline-black">
+          Menuju Tarawih: {countdownText}
+        </h5>
+      </div>
+    </div>
+  );
+};
+
+export default TarawihOverlay;
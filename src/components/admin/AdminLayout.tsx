@@ -11,13 +11,19 @@ import PrayerTimeSettings from "@/components/admin/PrayerTimeSettings";
 import RunningTextSettings from "@/components/admin/RunningTextSettings";
 import InfoSlideSettings from "@/components/admin/InfoSlideSettings";
 import ImamMuezzinScheduleSettings from "@/components/admin/ImamMuezzinScheduleSettings";
+import PersonnelSettings from "@/components/admin/PersonnelSettings";
 import NotificationStudySettings from "@/components/admin/NotificationStudySettings";
 import FinancialSettings from "@/components/admin/FinancialSettings";
 import RamadanModeSettings from "@/components/admin/RamadanModeSettings";
+import EidPrayerSettings from "@/components/admin/EidPrayerSettings";
 import DisplaySettings from "@/components/admin/DisplaySettings";
 import AudioSettings from "@/components/admin/AudioSettings";
+import PrayerDurationSettings from "@/components/admin/PrayerDurationSettings";
+import JumuahTimelineSettings from "@/components/admin/JumuahTimelineSettings";
 import IslamicHolidaySettings from "@/components/admin/IslamicHolidaySettings";
+import HijriCalendarSettings from "@/components/admin/HijriCalendarSettings";
 import MediaPlayerSettings from "@/components/admin/MediaPlayerSettings";
+import ClockSimulationSettings from "@/components/admin/ClockSimulationSettings";
 
 interface AdminSection {
   id: string;
@@ -29,15 +35,21 @@ const adminSections: AdminSection[] = [
   { id: "masjid-info", title: "Informasi Masjid", component: MasjidInfoSettings },
   { id: "prayer-time", title: "Waktu Sholat", component: PrayerTimeSettings },
   { id: "audio", title: "Audio & Iqomah", component: AudioSettings },
+  { id: "prayer-durations", title: "Durasi per Waktu Sholat", component: PrayerDurationSettings },
+  { id: "jumuah-timeline", title: "Rangkaian Jum'at", component: JumuahTimelineSettings },
   { id: "ramadan-mode", title: "Mode Ramadan", component: RamadanModeSettings },
+  { id: "eid-prayer", title: "Sholat Ied", component: EidPrayerSettings },
   { id: "display", title: "Tampilan", component: DisplaySettings },
   { id: "info-slides", title: "Slide Informasi", component: InfoSlideSettings },
   { id: "media-player", title: "Media Player", component: MediaPlayerSettings },
   { id: "running-text", title: "Teks Berjalan", component: RunningTextSettings },
+  { id: "personnel", title: "Data Petugas", component: PersonnelSettings },
   { id: "imam-muezzin", title: "Jadwal Imam & Muadzin", component: ImamMuezzinScheduleSettings },
   { id: "notifications-studies", title: "Notifikasi & Kajian", component: NotificationStudySettings },
   { id: "financial", title: "Keuangan", component: FinancialSettings },
+  { id: "hijri-calendar", title: "Kalender Hijriah", component: HijriCalendarSettings },
   { id: "islamic-holidays", title: "Hari Besar Islam", component: IslamicHolidaySettings },
+  { id: "clock-simulation", title: "Simulasi Waktu", component: ClockSimulationSettings },
 ];
 
 const AdminLayout: React.FC = () => {
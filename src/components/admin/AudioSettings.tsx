@@ -41,6 +41,7 @@ const formSchema = z.object({
   adhanBeepAudioUrl: z.string().nullable().optional(),
   iqomahBeepAudioUrl: z.string().nullable().optional(),
   imsakBeepAudioUrl: z.string().nullable().optional(),
+  iftarChimeAudioUrl: z.string().nullable().optional(),
 });
 
 type AudioSettingsFormValues = z.infer<typeof formSchema>;
@@ -79,6 +80,7 @@ const fieldNameToDbColumnMap: Record<keyof AudioSettingsFormValues, string> = {
   adhanBeepAudioUrl: "adhan_beep_audio_url",
   iqomahBeepAudioUrl: "iqomah_beep_audio_url",
   imsakBeepAudioUrl: "imsak_beep_audio_url",
+  iftarChimeAudioUrl: "iftar_chime_audio_url",
 };
 const AudioSettings: React.FC = () => {
   const { settings, isLoadingSettings, refetchSettings } = useAppSettings();
@@ -105,6 +107,7 @@ const AudioSettings: React.FC = () => {
       adhanBeepAudioUrl: null,
       iqomahBeepAudioUrl: null,
       imsakBeepAudioUrl: null,
+      iftarChimeAudioUrl: null,
     },
   });
 
@@ -161,6 +164,7 @@ const AudioSettings: React.FC = () => {
       setValue("adhanBeepAudioUrl", settings.adhan_beep_audio_url);
       setValue("iqomahBeepAudioUrl", settings.iqomah_beep_audio_url);
       setValue("imsakBeepAudioUrl", settings.imsak_beep_audio_url);
+      setValue("iftarChimeAudioUrl", settings.iftar_chime_audio_url);
     }
   }, [settings, isLoadingSettings, setValue, fetchAvailableAudioFiles]);
 
@@ -280,6 +284,7 @@ const AudioSettings: React.FC = () => {
           adhan_beep_audio_url: values.adhanBeepAudioUrl,
           iqomah_beep_audio_url: values.iqomahBeepAudioUrl,
           imsak_beep_audio_url: values.imsakBeepAudioUrl,
+          iftar_chime_audio_url: values.iftarChimeAudioUrl,
         },
         { onConflict: "id" }
       );
@@ -335,7 +340,7 @@ const AudioSettings: React.FC = () => {
             />
           </div>
           <div>
-            <Label htmlFor="iqomahCountdownDuration" className="text-gray-300">Durasi Hitung Mundur Iqomah (detik)</Label>
+            <Label htmlFor="iqomahCountdownDuration" className="text-gray-300">Durasi Hitung Mundur Iqomah Bawaan (detik)</Label>
             <Input
               id="iqomahCountdownDuration"
               type="number"
@@ -514,6 +519,43 @@ const AudioSettings: React.FC = () => {
               )}
               {errors.imsakBeepAudioUrl && <p className="text-red-400 text-sm mt-1">{errors.imsakBeepAudioUrl.message}</p>}
             </div>
+            <div className="mt-4">
+              <Label htmlFor="iftarChimeAudioUrl" className="text-gray-300">Audio Penanda Berbuka (Opsional, Mode Ramadan)</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Select
+                  onValueChange={(value) => setValue("iftarChimeAudioUrl", value === "null" ? null : value)}
+                  value={form.watch("iftarChimeAudioUrl") || "null"}
+                >
+                  <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white">
+                    <SelectValue placeholder="Pilih Audio Penanda Berbuka" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    <SelectItem value="null">Tidak Ada</SelectItem>
+                    {availableAudioFiles.map((audio) => (
+                      <SelectItem key={audio.id} value={supabase.storage.from('audio').getPublicUrl(audio.file_path).data?.publicUrl || ""}>
+                        {audio.title || audio.file_path.split('/').pop()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.watch("iftarChimeAudioUrl") && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleRemoveAudioLink("iftarChimeAudioUrl")}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    Hapus
+                  </Button>
+                )}
+              </div>
+              {form.watch("iftarChimeAudioUrl") && (
+                <div className="mt-2">
+                  <audio controls src={form.watch("iftarChimeAudioUrl") as string} className="w-full max-w-xs" />
+                </div>
+              )}
+              {errors.iftarChimeAudioUrl && <p className="text-red-400 text-sm mt-1">{errors.iftarChimeAudioUrl.message}</p>}
+            </div>
             <div className="mt-4">
               <Label htmlFor="adhanBeepAudioUrl" className="text-gray-300">Audio Beep Adzan (Opsional)</Label>
               <div className="flex items-center space-x-2 mt-1">
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExternalLink } from "lucide-react";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { calculatePrayerTimeline, JUMUAH_DISPLAY_NAME, PRAYER_DISPLAY_NAMES } from "@/lib/prayerTimes";
+import { masjidDate, masjidNow, MAX_SIMULATION_SPEED } from "@/lib/clock";
+
+const SIMULATION_FORMAT = "YYYY-MM-DDTHH:mm";
+const SPEED_OPTIONS = [1, 2, 5, 10, MAX_SIMULATION_SPEED];
+// Presets start a little before the countdown so the whole sequence can be watched.
+const PRESET_LEAD_MINUTES = 1;
+
+const ClockSimulationSettings: React.FC = () => {
+  const { settings } = useAppSettings();
+  const { timeline, currentDay, jumuahPhases } = usePrayerTimeline();
+  const [start, setStart] = useState(() => masjidNow().format(SIMULATION_FORMAT));
+  const [speed, setSpeed] = useState("10");
+
+  const presets = useMemo(() => {
+    if (!timeline || !settings) return [];
+    const today = masjidDate(currentDay);
+    // Jumuah needs a Friday: this week's if it has not passed yet, otherwise next week's
+    const friday = today.day() <= 5 ? today.day(5) : today.day(12);
+    const jumuahWindow = calculatePrayerTimeline(settings, friday, null, jumuahPhases).windows.find((prayerWindow) => prayerWindow.isJumuah);
+
+    const windows = timeline.windows.filter((prayerWindow) => !prayerWindow.isJumuah);
+    return [
+      { label: PRAYER_DISPLAY_NAMES.imsak, time: timeline.times.imsak },
+      ...windows.map((prayerWindow) => ({ label: prayerWindow.name, time: prayerWindow.preAdhanStart })),
+      ...(jumuahWindow ? [{ label: `${JUMUAH_DISPLAY_NAME} (${friday.format("DD/MM")})`, time: jumuahWindow.preAdhanStart }] : []),
+    ].map((preset) => ({ ...preset, start: preset.time.subtract(PRESET_LEAD_MINUTES, "minute").format(SIMULATION_FORMAT) }));
+  }, [timeline, settings, currentDay, jumuahPhases]);
+
+  const handleOpen = () => {
+    const url = `${import.meta.env.BASE_URL}?simulate=${encodeURIComponent(start)}&speed=${speed}`;
+    console.log(`ClockSimulationSettings: Opening simulation ${url}`);
+    window.open(url, "_blank");
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Simulasi Waktu</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Buka layar utama di tab baru dengan jam virtual untuk menguji hitung mundur adzan, iqomah, overlay Jumat, Imsak dan audio tanpa menunggu waktu sebenarnya. Data tidak berubah; tutup tab untuk mengakhiri simulasi.
+        </p>
+        <div className="space-y-4">
+          {presets.length > 0 && (
+            <div>
+              <Label className="text-gray-300">Mulai Menjelang</Label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {presets.map((preset) => (
+                  <Button
+                    key={preset.label}
+                    type="button"
+                    variant="outline"
+                    onClick={() => setStart(preset.start)}
+                    className="text-gray-300 border-gray-600 hover:bg-gray-700"
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="simulationStart" className="text-gray-300">Waktu Mulai</Label>
+              <Input
+                id="simulationStart"
+                type="datetime-local"
+                value={start}
+                onChange={(event) => setStart(event.target.value)}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="simulationSpeed" className="text-gray-300">Kecepatan</Label>
+              <Select value={speed} onValueChange={setSpeed}>
+                <SelectTrigger id="simulationSpeed" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                  <SelectValue placeholder="Pilih Kecepatan" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 text-white border-gray-600">
+                  {SPEED_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option}x
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button onClick={handleOpen} disabled={!start} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+            <ExternalLink className="mr-2 h-4 w-4" /> Buka Simulasi
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClockSimulationSettings;
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -10,16 +11,33 @@ import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { v4 as uuidv4 } from 'uuid'; // Import uuid for unique file names
 import { useAppSettings } from "@/contexts/AppSettingsContext"; // Import useAppSettings
+import { DEFAULT_TOMORROW_SCHEDULE_AFTER_ISHA_MINUTES } from "@/lib/prayerTimes";
+import { DHUHA_START_AFTER_SUNRISE_MINUTES, SUNSET_FORBIDDEN_MINUTES, ZAWAL_BEFORE_DHUHR_MINUTES } from "@/lib/sunnahTimes";
 
 const formSchema = z.object({
   backgroundImageUrl: z.string().nullable().optional(), // No longer strictly a URL for input, but will store URL
   backgroundColor: z.string().min(1, "Warna latar belakang tidak boleh kosong.").default("#0A0A0A"),
+  showDhuhaTimes: z.boolean().default(false),
+  showZawalTime: z.boolean().default(false),
+  showForbiddenTimes: z.boolean().default(false),
+  showLastThirdOfNight: z.boolean().default(false),
+  tomorrowScheduleActive: z.boolean().default(false),
+  tomorrowScheduleAfterIshaMinutes: z.coerce.number().int().min(0, "Menit tidak boleh negatif.").max(240, "Maksimal 240 menit setelah Isya.").default(DEFAULT_TOMORROW_SCHEDULE_AFTER_ISHA_MINUTES),
   // screensaverIdleMinutes: z.coerce.number().int().min(1, "Durasi screensaver harus minimal 1 menit.").default(5), // Dihapus
   // screensaverSlideDuration: z.coerce.number().int().min(1, "Durasi slide harus minimal 1 detik.").default(10), // Dihapus
 });
 
 type DisplaySettingsFormValues = z.infer<typeof formSchema>;
 
+type IndicatorField = "showDhuhaTimes" | "showZawalTime" | "showForbiddenTimes" | "showLastThirdOfNight";
+
+const INDICATOR_OPTIONS: { field: IndicatorField; label: string; description: string }[] = [
+  { field: "showDhuhaTimes", label: "Waktu Dhuha", description: `Awal Dhuha (${DHUHA_START_AFTER_SUNRISE_MINUTES} menit setelah terbit) sampai zawal.` },
+  { field: "showZawalTime", label: "Waktu Zawal", description: `Matahari tepat di atas, ${ZAWAL_BEFORE_DHUHR_MINUTES} menit sebelum Dzuhur.` },
+  { field: "showForbiddenTimes", label: "Waktu Terlarang Sholat", description: `Saat terbit, zawal dan ${SUNSET_FORBIDDEN_MINUTES} menit sebelum Maghrib. Disorot saat sedang berlangsung.` },
+  { field: "showLastThirdOfNight", label: "Sepertiga Malam Terakhir", description: "Awal sepertiga terakhir malam (Maghrib sampai Subuh) untuk tahajjud." },
+];
+
 const DisplaySettings: React.FC = () => {
   const { settings, isLoadingSettings, refetchSettings } = useAppSettings(); // Use the new hook
 
@@ -28,19 +46,32 @@ const DisplaySettings: React.FC = () => {
     defaultValues: {
       backgroundImageUrl: null,
       backgroundColor: "#0A0A0A",
+      showDhuhaTimes: false,
+      showZawalTime: false,
+      showForbiddenTimes: false,
+      showLastThirdOfNight: false,
+      tomorrowScheduleActive: false,
+      tomorrowScheduleAfterIshaMinutes: DEFAULT_TOMORROW_SCHEDULE_AFTER_ISHA_MINUTES,
       // screensaverIdleMinutes: 5, // Dihapus
       // screensaverSlideDuration: 10, // Dihapus
     },
   });
 
-  const { handleSubmit, register, setValue, formState: { isSubmitting, errors } } = form;
+  const { handleSubmit, register, setValue, watch, formState: { isSubmitting, errors } } = form;
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
+  const tomorrowScheduleActive = watch("tomorrowScheduleActive");
 
   useEffect(() => {
     if (!isLoadingSettings && settings) {
       setValue("backgroundImageUrl", settings.background_image_url);
       setCurrentImageUrl(settings.background_image_url);
       setValue("backgroundColor", settings.background_color || "#0A0A0A");
+      setValue("showDhuhaTimes", settings.show_dhuha_times ?? false);
+      setValue("showZawalTime", settings.show_zawal_time ?? false);
+      setValue("showForbiddenTimes", settings.show_forbidden_times ?? false);
+      setValue("showLastThirdOfNight", settings.show_last_third_of_night ?? false);
+      setValue("tomorrowScheduleActive", settings.tomorrow_schedule_active ?? false);
+      setValue("tomorrowScheduleAfterIshaMinutes", settings.tomorrow_schedule_after_isha_minutes ?? DEFAULT_TOMORROW_SCHEDULE_AFTER_ISHA_MINUTES);
       // setValue("screensaverIdleMinutes", settings.screensaver_idle_minutes || 5); // Dihapus
       // setValue("screensaverSlideDuration", (settings.screensaver_slide_duration || 10000) / 1000); // Dihapus
     }
@@ -125,6 +156,12 @@ const DisplaySettings: React.FC = () => {
           id: 1,
           background_image_url: values.backgroundImageUrl || null,
           background_color: values.backgroundColor,
+          show_dhuha_times: values.showDhuhaTimes,
+          show_zawal_time: values.showZawalTime,
+          show_forbidden_times: values.showForbiddenTimes,
+          show_last_third_of_night: values.showLastThirdOfNight,
+          tomorrow_schedule_active: values.tomorrowScheduleActive,
+          tomorrow_schedule_after_isha_minutes: values.tomorrowScheduleAfterIshaMinutes,
           // screensaver_idle_minutes: values.screensaverIdleMinutes, // Dihapus
           // screensaver_slide_duration: values.screensaverSlideDuration * 1000, // Dihapus
         },
@@ -147,7 +184,7 @@ const DisplaySettings: React.FC = () => {
         <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Tampilan</CardTitle>
       </CardHeader>
       <CardContent>
-        <p className="text-gray-400 mb-4">Atur gambar atau warna latar belakang untuk tampilan utama.</p>
+        <p className="text-gray-400 mb-4">Atur gambar atau warna latar belakang dan indikator waktu yang ditampilkan di layar utama.</p>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div>
             <Label htmlFor="backgroundImageUpload" className="text-gray-300">Unggah Gambar Latar Belakang (Opsional)</Label>
@@ -177,6 +214,48 @@ const DisplaySettings: React.FC = () => {
             />
             {errors.backgroundColor && <p className="text-red-400 text-sm mt-1">{errors.backgroundColor.message}</p>}
           </div>
+          <div className="border-t border-gray-700 pt-6 mt-6 space-y-4">
+            <h3 className="text-xl font-semibold text-blue-300">Indikator Jadwal Sholat</h3>
+            <p className="text-gray-400 text-sm">Ditampilkan di bawah jadwal sholat, dihitung dari waktu sholat yang sudah disesuaikan.</p>
+            {INDICATOR_OPTIONS.map((option) => (
+              <div key={option.field}>
+                <div className="flex items-center justify-between space-x-2">
+                  <Label htmlFor={option.field} className="text-gray-300 text-lg">{option.label}</Label>
+                  <Switch
+                    id={option.field}
+                    checked={watch(option.field)}
+                    onCheckedChange={(checked) => setValue(option.field, checked)}
+                    className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
+                  />
+                </div>
+                <p className="text-gray-400 text-sm">{option.description}</p>
+              </div>
+            ))}
+          </div>
+          <div className="border-t border-gray-700 pt-6 mt-6 space-y-4">
+            <div className="flex items-center justify-between space-x-2">
+              <Label htmlFor="tomorrowScheduleActive" className="text-gray-300 text-lg">Tampilkan Jadwal Besok Setelah Isya</Label>
+              <Switch
+                id="tomorrowScheduleActive"
+                checked={tomorrowScheduleActive}
+                onCheckedChange={(checked) => setValue("tomorrowScheduleActive", checked)}
+                className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
+              />
+            </div>
+            <p className="text-gray-400 text-sm">Jadwal sholat berganti ke jadwal besok dengan label "Besok" dan tanggal Hijriah besok.</p>
+            {tomorrowScheduleActive && (
+              <div>
+                <Label htmlFor="tomorrowScheduleAfterIshaMinutes" className="text-gray-300">Menit Setelah Isya</Label>
+                <Input
+                  id="tomorrowScheduleAfterIshaMinutes"
+                  type="number"
+                  {...register("tomorrowScheduleAfterIshaMinutes")}
+                  className="bg-gray-700 border-gray-600 text-white mt-1"
+                />
+                {errors.tomorrowScheduleAfterIshaMinutes && <p className="text-red-400 text-sm mt-1">{errors.tomorrowScheduleAfterIshaMinutes.message}</p>}
+              </div>
+            )}
+          </div>
           {/* Dihapus: Screensaver Idle Minutes */}
           {/* Dihapus: Screensaver Slide Duration */}
           <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
@@ -0,0 +1,520 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Trash2, Edit, PlusCircle, Calendar as CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { masjidNow } from "@/lib/clock";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import { getUpcomingHolidays, IslamicHoliday } from "@/lib/islamicHolidays";
+import {
+  DEFAULT_EID_COUNTDOWN_MINUTES,
+  DEFAULT_EID_KHUTBAH_DURATION_MINUTES,
+  DEFAULT_TAKBIR_DURATION_MINUTES,
+  describeEidLocation,
+  EID_LOCATION_NAMES,
+  EID_TYPE_NAMES,
+  EidLocation,
+  EidPrayer,
+  EidType,
+  getEidName,
+  guessEidType,
+} from "@/lib/eidPrayer";
+
+interface MediaFile {
+  id: string;
+  title: string;
+  file_path: string;
+}
+
+const NO_HOLIDAY = "none";
+const NO_AUDIO = "null";
+
+const eidPrayerFormSchema = z.object({
+  eid_type: z.enum(["fitri", "adha"]),
+  holiday_id: z.string().nullable(),
+  prayer_date: z.string().min(1, "Tanggal tidak boleh kosong."),
+  prayer_time: z.string().regex(/^\d{2}:\d{2}$/, "Format waktu harus HH:mm."),
+  imam_name: z.string().max(100, "Nama terlalu panjang.").optional(),
+  khatib_name: z.string().max(100, "Nama terlalu panjang.").optional(),
+  location: z.enum(["masjid", "lapangan"]),
+  location_name: z.string().max(100, "Nama lokasi terlalu panjang.").optional(),
+  takbir_audio_url: z.string().nullable(),
+  takbir_duration_minutes: z.coerce.number().int().min(0, "Durasi tidak boleh negatif.").max(240, "Durasi maksimal 240 menit."),
+  khutbah_duration_minutes: z.coerce.number().int().min(0, "Durasi tidak boleh negatif.").max(120, "Durasi maksimal 120 menit."),
+  countdown_minutes: z.coerce.number().int().min(0, "Durasi tidak boleh negatif.").max(180, "Durasi maksimal 180 menit."),
+});
+
+type EidPrayerFormValues = z.infer<typeof eidPrayerFormSchema>;
+
+const DEFAULT_FORM_VALUES: EidPrayerFormValues = {
+  eid_type: "fitri",
+  holiday_id: null,
+  prayer_date: "",
+  prayer_time: "06:30",
+  imam_name: "",
+  khatib_name: "",
+  location: "masjid",
+  location_name: "",
+  takbir_audio_url: null,
+  takbir_duration_minutes: DEFAULT_TAKBIR_DURATION_MINUTES,
+  khutbah_duration_minutes: DEFAULT_EID_KHUTBAH_DURATION_MINUTES,
+  countdown_minutes: DEFAULT_EID_COUNTDOWN_MINUTES,
+};
+
+const EidPrayerSettings: React.FC = () => {
+  const { config, formatHijri } = useHijriCalendar();
+  const [eidPrayers, setEidPrayers] = useState<EidPrayer[]>([]);
+  const [holidays, setHolidays] = useState<IslamicHoliday[]>([]);
+  const [availableAudioFiles, setAvailableAudioFiles] = useState<MediaFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingEidPrayer, setEditingEidPrayer] = useState<EidPrayer | null>(null);
+
+  const form = useForm<EidPrayerFormValues>({
+    resolver: zodResolver(eidPrayerFormSchema),
+    defaultValues: DEFAULT_FORM_VALUES,
+  });
+
+  const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
+  const prayerDate = watch("prayer_date");
+  const holidayId = watch("holiday_id");
+
+  const fetchEidPrayers = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("eid_prayers")
+      .select("*")
+      .gte("prayer_date", masjidNow().subtract(1, "year").format("YYYY-MM-DD"))
+      .order("prayer_date", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching Eid prayers:", error);
+      toast.error("Gagal memuat jadwal sholat Ied.");
+    } else {
+      setEidPrayers(data || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  const fetchHolidaysAndAudio = useCallback(async () => {
+    const { data: holidayData, error: holidayError } = await supabase
+      .from("islamic_holidays")
+      .select("*");
+
+    if (holidayError) {
+      console.error("Error fetching Islamic holidays for Eid prayers:", holidayError);
+    } else {
+      setHolidays(holidayData || []);
+    }
+
+    const { data: audioData, error: audioError } = await supabase
+      .from("media_files")
+      .select("id, title, file_path")
+      .eq("file_type", "audio")
+      .eq("source_type", "upload")
+      .order("title", { ascending: true });
+
+    if (audioError) {
+      console.error("Error fetching available audio files:", audioError);
+      toast.error("Gagal memuat daftar audio.");
+    } else {
+      setAvailableAudioFiles(audioData || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEidPrayers();
+    fetchHolidaysAndAudio();
+
+    const channel = supabase
+      .channel('eid_prayers_admin_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'eid_prayers' }, (payload) => {
+        console.log('Eid prayer change received!', payload);
+        fetchEidPrayers();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchEidPrayers, fetchHolidaysAndAudio]);
+
+  // Upcoming Idul Fitri and Idul Adha from the holiday list, with the date the display uses for them.
+  const eidHolidays = useMemo(
+    () => getUpcomingHolidays(holidays, masjidNow().format("YYYY-MM-DD"), config)
+      .filter((holiday) => guessEidType(holiday.name) !== null),
+    [holidays, config],
+  );
+
+  const handleSelectHoliday = (value: string) => {
+    if (value === NO_HOLIDAY) {
+      setValue("holiday_id", null);
+      return;
+    }
+    const holiday = eidHolidays.find((entry) => entry.id === value);
+    if (!holiday) return;
+    setValue("holiday_id", holiday.id);
+    setValue("prayer_date", holiday.date);
+    setValue("eid_type", guessEidType(holiday.name) ?? "fitri");
+  };
+
+  const handleAddEidPrayer = () => {
+    setEditingEidPrayer(null);
+    reset(DEFAULT_FORM_VALUES);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditEidPrayer = (eid: EidPrayer) => {
+    setEditingEidPrayer(eid);
+    reset({
+      eid_type: eid.eid_type,
+      holiday_id: eid.holiday_id,
+      prayer_date: eid.prayer_date,
+      prayer_time: eid.prayer_time.slice(0, 5),
+      imam_name: eid.imam_name || "",
+      khatib_name: eid.khatib_name || "",
+      location: eid.location,
+      location_name: eid.location_name || "",
+      takbir_audio_url: eid.takbir_audio_url,
+      takbir_duration_minutes: eid.takbir_duration_minutes,
+      khutbah_duration_minutes: eid.khutbah_duration_minutes,
+      countdown_minutes: eid.countdown_minutes,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteEidPrayer = async (eidPrayerId: string) => {
+    if (!window.confirm("Apakah Anda yakin ingin menghapus jadwal sholat Ied ini?")) {
+      return;
+    }
+    const { error } = await supabase
+      .from("eid_prayers")
+      .delete()
+      .eq("id", eidPrayerId);
+
+    if (error) {
+      console.error("Error deleting Eid prayer:", error);
+      toast.error("Gagal menghapus jadwal sholat Ied.");
+    } else {
+      toast.success("Jadwal sholat Ied berhasil dihapus!");
+      fetchEidPrayers();
+    }
+  };
+
+  const onSubmit = async (values: EidPrayerFormValues) => {
+    const payload = {
+      eid_type: values.eid_type,
+      holiday_id: values.holiday_id,
+      prayer_date: values.prayer_date,
+      prayer_time: values.prayer_time,
+      imam_name: values.imam_name || null,
+      khatib_name: values.khatib_name || null,
+      location: values.location,
+      location_name: values.location_name || null,
+      takbir_audio_url: values.takbir_audio_url,
+      takbir_duration_minutes: values.takbir_duration_minutes,
+      khutbah_duration_minutes: values.khutbah_duration_minutes,
+      countdown_minutes: values.countdown_minutes,
+    };
+
+    const { error } = editingEidPrayer
+      ? await supabase.from("eid_prayers").update(payload).eq("id", editingEidPrayer.id)
+      : await supabase.from("eid_prayers").insert(payload);
+
+    if (error) {
+      console.error("Error saving Eid prayer:", error);
+      if (error.code === "23505") {
+        toast.error("Tanggal ini sudah memiliki jadwal sholat Ied. Silakan edit yang sudah ada.");
+      } else {
+        toast.error("Gagal menyimpan jadwal sholat Ied.");
+      }
+    } else {
+      toast.success(editingEidPrayer ? "Jadwal sholat Ied berhasil diperbarui!" : "Jadwal sholat Ied berhasil ditambahkan!");
+      setIsDialogOpen(false);
+      fetchEidPrayers();
+    }
+  };
+
+  // The holiday's date can move after saving, e.g. when an isbat override is entered.
+  const getHolidayDateMismatch = (eid: EidPrayer) => {
+    const holiday = eidHolidays.find((entry) => entry.id === eid.holiday_id);
+    return holiday && holiday.date !== eid.prayer_date ? holiday.date : null;
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Sholat Ied</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Jadwal sholat Idul Fitri dan Idul Adha. Layar menampilkan hitung mundur sebelum sholat, lalu informasi sholat dan khutbah. Audio takbir diputar pada malam sebelumnya setelah sholat Maghrib selesai, paling lambat sampai hitung mundur Isya.
+        </p>
+        <Button onClick={handleAddEidPrayer} className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white">
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Sholat Ied
+        </Button>
+
+        {isLoading ? (
+          <p className="text-gray-300 text-center">Memuat jadwal sholat Ied...</p>
+        ) : (
+          <div className="space-y-3">
+            {eidPrayers.length === 0 ? (
+              <p className="text-gray-400 text-center">Belum ada jadwal sholat Ied.</p>
+            ) : (
+              eidPrayers.map((eid) => {
+                const holidayDate = getHolidayDateMismatch(eid);
+                return (
+                  <div key={eid.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+                    <div>
+                      <p className="font-medium text-lg text-blue-200">
+                        {getEidName(eid)} - {eid.prayer_time.slice(0, 5)}
+                      </p>
+                      <p className="text-sm text-gray-300">
+                        {format(new Date(eid.prayer_date), "EEEE, dd MMMM yyyy", { locale: id })} / {formatHijri(eid.prayer_date)}
+                      </p>
+                      <p className="text-sm text-gray-400">
+                        {describeEidLocation(eid)}
+                        {eid.imam_name && ` | Imam: ${eid.imam_name}`}
+                        {eid.khatib_name && ` | Khatib: ${eid.khatib_name}`}
+                      </p>
+                      {eid.takbir_audio_url && (
+                        <p className="text-xs text-gray-400">Takbir malam sebelumnya: {eid.takbir_duration_minutes} menit</p>
+                      )}
+                      {holidayDate && (
+                        <p className="text-xs text-yellow-400">
+                          Tanggal hari besar kini {format(new Date(holidayDate), "dd MMMM yyyy", { locale: id })}. Periksa kembali tanggal sholat.
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="icon" onClick={() => handleEditEidPrayer(eid)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="icon" onClick={() => handleDeleteEidPrayer(eid.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="bg-gray-800 text-white border-gray-700 max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-blue-300">{editingEidPrayer ? "Edit Sholat Ied" : "Tambah Sholat Ied"}</DialogTitle>
+              <DialogDescription>
+                Pilih hari raya dari daftar Hari Besar Islam atau isi tanggalnya sendiri.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <Label htmlFor="eid_holiday" className="text-gray-300">Hari Besar</Label>
+                <Select value={holidayId ?? NO_HOLIDAY} onValueChange={handleSelectHoliday}>
+                  <SelectTrigger id="eid_holiday" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Hari Besar" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    <SelectItem value={NO_HOLIDAY}>Tidak Ditautkan</SelectItem>
+                    {eidHolidays.map((holiday) => (
+                      <SelectItem key={holiday.id} value={holiday.id}>
+                        {holiday.name} ({format(new Date(holiday.date), "dd MMM yyyy", { locale: id })})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="eid_type" className="text-gray-300">Hari Raya</Label>
+                  <Select value={watch("eid_type")} onValueChange={(value) => setValue("eid_type", value as EidType)}>
+                    <SelectTrigger id="eid_type" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Hari Raya" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      {Object.entries(EID_TYPE_NAMES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="eid_prayer_time" className="text-gray-300">Waktu Sholat</Label>
+                  <Input
+                    id="eid_prayer_time"
+                    type="time"
+                    {...register("prayer_time")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.prayer_time && <p className="text-red-400 text-sm mt-1">{errors.prayer_time.message}</p>}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="eid_prayer_date" className="text-gray-300 block mb-1">Tanggal</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      id="eid_prayer_date"
+                      variant={"outline"}
+                      className={cn(
+                        "w-full justify-start text-left font-normal bg-gray-700 border-gray-600 text-white",
+                        !prayerDate && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {prayerDate ? format(new Date(prayerDate), "PPP", { locale: id }) : <span>Pilih tanggal</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0 bg-gray-700 border-gray-600 text-white">
+                    <Calendar
+                      mode="single"
+                      selected={prayerDate ? new Date(prayerDate) : undefined}
+                      onSelect={(date) => setValue("prayer_date", date ? format(date, "yyyy-MM-dd") : "")}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                {prayerDate && <p className="text-xs text-gray-400 mt-1">{formatHijri(prayerDate)}</p>}
+                {errors.prayer_date && <p className="text-red-400 text-sm mt-1">{errors.prayer_date.message}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="eid_location" className="text-gray-300">Lokasi</Label>
+                  <Select value={watch("location")} onValueChange={(value) => setValue("location", value as EidLocation)}>
+                    <SelectTrigger id="eid_location" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Lokasi" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      {Object.entries(EID_LOCATION_NAMES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="eid_location_name" className="text-gray-300">Nama Lokasi (opsional)</Label>
+                  <Input
+                    id="eid_location_name"
+                    {...register("location_name")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                    placeholder="Contoh: Lapangan Kelurahan"
+                  />
+                  {errors.location_name && <p className="text-red-400 text-sm mt-1">{errors.location_name.message}</p>}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="eid_imam_name" className="text-gray-300">Imam</Label>
+                  <Input
+                    id="eid_imam_name"
+                    {...register("imam_name")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.imam_name && <p className="text-red-400 text-sm mt-1">{errors.imam_name.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="eid_khatib_name" className="text-gray-300">Khatib</Label>
+                  <Input
+                    id="eid_khatib_name"
+                    {...register("khatib_name")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.khatib_name && <p className="text-red-400 text-sm mt-1">{errors.khatib_name.message}</p>}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="eid_countdown_minutes" className="text-gray-300">Hitung Mundur (menit)</Label>
+                  <Input
+                    id="eid_countdown_minutes"
+                    type="number"
+                    {...register("countdown_minutes")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.countdown_minutes && <p className="text-red-400 text-sm mt-1">{errors.countdown_minutes.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="eid_khutbah_duration_minutes" className="text-gray-300">Durasi Khutbah (menit)</Label>
+                  <Input
+                    id="eid_khutbah_duration_minutes"
+                    type="number"
+                    {...register("khutbah_duration_minutes")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.khutbah_duration_minutes && <p className="text-red-400 text-sm mt-1">{errors.khutbah_duration_minutes.message}</p>}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="eid_takbir_audio_url" className="text-gray-300">Audio Takbir</Label>
+                  <Select
+                    value={watch("takbir_audio_url") || NO_AUDIO}
+                    onValueChange={(value) => setValue("takbir_audio_url", value === NO_AUDIO ? null : value)}
+                  >
+                    <SelectTrigger id="eid_takbir_audio_url" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Audio Takbir" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      <SelectItem value={NO_AUDIO}>Tidak Ada</SelectItem>
+                      {availableAudioFiles.map((audio) => (
+                        <SelectItem key={audio.id} value={supabase.storage.from('audio').getPublicUrl(audio.file_path).data?.publicUrl || ""}>
+                          {audio.title || audio.file_path.split('/').pop()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="eid_takbir_duration_minutes" className="text-gray-300">Durasi Takbir (menit)</Label>
+                  <Input
+                    id="eid_takbir_duration_minutes"
+                    type="number"
+                    {...register("takbir_duration_minutes")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.takbir_duration_minutes && <p className="text-red-400 text-sm mt-1">{errors.takbir_duration_minutes.message}</p>}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {isSubmitting ? "Menyimpan..." : (editingEidPrayer ? "Simpan Perubahan" : "Tambah Sholat Ied")}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EidPrayerSettings;
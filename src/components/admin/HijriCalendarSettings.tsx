@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Trash2, Edit, PlusCircle, Calendar as CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { masjidNow } from "@/lib/clock";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import {
+  clampHijriDayAdjustment,
+  formatHijriDate,
+  HIJRI_CALENDAR_VARIANTS,
+  HIJRI_MONTH_NAMES,
+  HijriMonthOverride,
+  MAX_HIJRI_DAY_ADJUSTMENT,
+  MIN_HIJRI_DAY_ADJUSTMENT,
+  resolveHijriCalendarVariant,
+} from "@/lib/hijri";
+
+const DAY_ADJUSTMENT_OPTIONS = Array.from(
+  { length: MAX_HIJRI_DAY_ADJUSTMENT - MIN_HIJRI_DAY_ADJUSTMENT + 1 },
+  (_, index) => MIN_HIJRI_DAY_ADJUSTMENT + index,
+);
+
+const overrideFormSchema = z.object({
+  hijri_year: z.coerce.number().int().min(1300, "Tahun Hijriah tidak valid.").max(1600, "Tahun Hijriah tidak valid."),
+  hijri_month: z.coerce.number().int().min(1).max(12),
+  start_date: z.string().min(1, "Tanggal tidak boleh kosong."),
+  note: z.string().max(200, "Catatan terlalu panjang.").optional(),
+});
+
+type OverrideFormValues = z.infer<typeof overrideFormSchema>;
+
+const formatAdjustment = (adjustment: number) =>
+  adjustment === 0 ? "Tanpa penyesuaian" : `${adjustment > 0 ? "+" : ""}${adjustment} hari`;
+
+const HijriCalendarSettings: React.FC = () => {
+  const { settings, refetchSettings } = useAppSettings();
+  const { config, toHijri, monthOverrides, refetchMonthOverrides } = useHijriCalendar();
+  const [variant, setVariant] = useState<string>(HIJRI_CALENDAR_VARIANTS[0].value);
+  const [dayAdjustment, setDayAdjustment] = useState("0");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingOverride, setEditingOverride] = useState<HijriMonthOverride | null>(null);
+
+  useEffect(() => {
+    if (settings) {
+      setVariant(resolveHijriCalendarVariant(settings.hijri_calendar_variant));
+      setDayAdjustment(String(clampHijriDayAdjustment(settings.hijri_day_adjustment)));
+    }
+  }, [settings]);
+
+  const form = useForm<OverrideFormValues>({
+    resolver: zodResolver(overrideFormSchema),
+    defaultValues: { hijri_year: 0, hijri_month: 1, start_date: "", note: "" },
+  });
+
+  const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
+  const startDate = watch("start_date");
+
+  // Today's date with the unsaved choices, so the effect can be checked before saving.
+  const preview = useMemo(
+    () => formatHijriDate(masjidNow(), {
+      variant: resolveHijriCalendarVariant(variant),
+      dayAdjustment: Number(dayAdjustment),
+      monthOverrides,
+    }),
+    [variant, dayAdjustment, monthOverrides],
+  );
+
+  const handleSaveCalendar = async () => {
+    setIsSaving(true);
+    const { error } = await supabase
+      .from("app_settings")
+      .upsert(
+        { id: 1, hijri_calendar_variant: variant, hijri_day_adjustment: Number(dayAdjustment) },
+        { onConflict: "id" }
+      );
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error saving Hijri calendar settings:", error);
+      toast.error("Gagal menyimpan pengaturan kalender Hijriah.");
+    } else {
+      toast.success("Pengaturan kalender Hijriah berhasil disimpan!");
+      refetchSettings();
+    }
+  };
+
+  const handleAddOverride = () => {
+    const today = toHijri(masjidNow());
+    // Usually entered for the coming month
+    const nextMonth = today.month === 12 ? { year: today.year + 1, month: 1 } : { year: today.year, month: today.month + 1 };
+    setEditingOverride(null);
+    reset({ hijri_year: nextMonth.year, hijri_month: nextMonth.month, start_date: "", note: "" });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditOverride = (override: HijriMonthOverride) => {
+    setEditingOverride(override);
+    reset({
+      hijri_year: override.hijri_year,
+      hijri_month: override.hijri_month,
+      start_date: override.start_date,
+      note: override.note || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteOverride = async (overrideId: string) => {
+    if (!window.confirm("Apakah Anda yakin ingin menghapus awal bulan ini? Tanggal Hijriah akan kembali mengikuti perhitungan.")) {
+      return;
+    }
+    const { error } = await supabase
+      .from("hijri_month_overrides")
+      .delete()
+      .eq("id", overrideId);
+
+    if (error) {
+      console.error("Error deleting Hijri month override:", error);
+      toast.error("Gagal menghapus awal bulan.");
+    } else {
+      toast.success("Awal bulan berhasil dihapus!");
+      refetchMonthOverrides();
+    }
+  };
+
+  const onSubmit = async (values: OverrideFormValues) => {
+    const payload = {
+      hijri_year: values.hijri_year,
+      hijri_month: values.hijri_month,
+      start_date: values.start_date,
+      note: values.note || null,
+    };
+
+    const { error } = editingOverride
+      ? await supabase.from("hijri_month_overrides").update(payload).eq("id", editingOverride.id)
+      : await supabase.from("hijri_month_overrides").insert(payload);
+
+    if (error) {
+      console.error("Error saving Hijri month override:", error);
+      if (error.code === "23505") {
+        toast.error("Bulan atau tanggal ini sudah memiliki awal bulan. Silakan edit yang sudah ada.");
+      } else {
+        toast.error("Gagal menyimpan awal bulan.");
+      }
+    } else {
+      toast.success(editingOverride ? "Awal bulan berhasil diperbarui!" : "Awal bulan berhasil ditambahkan!");
+      setIsDialogOpen(false);
+      refetchMonthOverrides();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gray-800 text-white border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold text-blue-300">Kalender Hijriah</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-400 mb-4">
+            Pilih metode kalender dan sesuaikan tanggal bila berbeda dengan keputusan pemerintah. Berlaku untuk semua tanggal Hijriah di layar utama dan panel admin.
+          </p>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="hijriCalendarVariant" className="text-gray-300">Metode Kalender</Label>
+                <Select value={variant} onValueChange={setVariant}>
+                  <SelectTrigger id="hijriCalendarVariant" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Metode" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    {HIJRI_CALENDAR_VARIANTS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="hijriDayAdjustment" className="text-gray-300">Penyesuaian Hari</Label>
+                <Select value={dayAdjustment} onValueChange={setDayAdjustment}>
+                  <SelectTrigger id="hijriDayAdjustment" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Penyesuaian" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    {DAY_ADJUSTMENT_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {formatAdjustment(option)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-gray-300">
+              Hari ini: <span className="font-semibold text-green-300">{preview}</span>
+            </p>
+            <Button onClick={handleSaveCalendar} disabled={isSaving} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+              {isSaving ? "Menyimpan..." : "Simpan Pengaturan Kalender"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-800 text-white border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold text-blue-300">Awal Bulan Hasil Sidang Isbat</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-400 mb-4">
+            Masukkan tanggal 1 bulan Hijriah sesuai keputusan sidang isbat. Mulai tanggal tersebut kalender mengikuti awal bulan ini dan menggantikan penyesuaian hari, sampai awal bulan berikutnya dimasukkan.
+          </p>
+          <Button onClick={handleAddOverride} className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white">
+            <PlusCircle className="mr-2 h-4 w-4" /> Tambah Awal Bulan
+          </Button>
+
+          <div className="space-y-3">
+            {monthOverrides.length === 0 ? (
+              <p className="text-gray-400 text-center">Belum ada awal bulan yang dimasukkan.</p>
+            ) : (
+              [...monthOverrides].reverse().map((override) => (
+                <div key={override.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+                  <div>
+                    <p className="font-medium text-lg text-blue-200">
+                      1 {HIJRI_MONTH_NAMES[override.hijri_month - 1]} {override.hijri_year} H
+                    </p>
+                    <p className="text-sm text-gray-300">
+                      {format(new Date(override.start_date), "EEEE, dd MMMM yyyy", { locale: id })}
+                    </p>
+                    {override.note && <p className="text-xs text-gray-400">{override.note}</p>}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="icon" onClick={() => handleEditOverride(override)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => handleDeleteOverride(override.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogContent className="bg-gray-800 text-white border-gray-700">
+              <DialogHeader>
+                <DialogTitle className="text-blue-300">{editingOverride ? "Edit Awal Bulan" : "Tambah Awal Bulan"}</DialogTitle>
+                <DialogDescription>
+                  Tanggal Masehi saat tanggal 1 bulan tersebut dimulai (setelah Maghrib malam sebelumnya).
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="hijri_month" className="text-gray-300">Bulan</Label>
+                    <Select value={String(watch("hijri_month"))} onValueChange={(value) => setValue("hijri_month", Number(value))}>
+                      <SelectTrigger id="hijri_month" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                        <SelectValue placeholder="Pilih Bulan" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-700 text-white border-gray-600">
+                        {HIJRI_MONTH_NAMES.map((name, index) => (
+                          <SelectItem key={name} value={String(index + 1)}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.hijri_month && <p className="text-red-400 text-sm mt-1">{errors.hijri_month.message}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor="hijri_year" className="text-gray-300">Tahun (H)</Label>
+                    <Input
+                      id="hijri_year"
+                      type="number"
+                      {...register("hijri_year")}
+                      className="bg-gray-700 border-gray-600 text-white mt-1"
+                    />
+                    {errors.hijri_year && <p className="text-red-400 text-sm mt-1">{errors.hijri_year.message}</p>}
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="start_date" className="text-gray-300 block mb-1">Tanggal 1 Jatuh Pada</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant={"outline"}
+                        className={cn(
+                          "w-full justify-start text-left font-normal bg-gray-700 border-gray-600 text-white",
+                          !startDate && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {startDate ? format(new Date(startDate), "PPP", { locale: id }) : <span>Pilih tanggal</span>}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-gray-700 border-gray-600 text-white">
+                      <Calendar
+                        mode="single"
+                        selected={startDate ? new Date(startDate) : undefined}
+                        onSelect={(date) => setValue("start_date", date ? format(date, "yyyy-MM-dd") : "")}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {startDate && (
+                    <p className="text-xs text-gray-400 mt-1">Menurut perhitungan: {formatHijriDate(startDate, { ...config, monthOverrides: [] })}</p>
+                  )}
+                  {errors.start_date && <p className="text-red-400 text-sm mt-1">{errors.start_date.message}</p>}
+                </div>
+
+                <div>
+                  <Label htmlFor="hijri_override_note" className="text-gray-300">Catatan (opsional)</Label>
+                  <Input
+                    id="hijri_override_note"
+                    {...register("note")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                    placeholder="Contoh: Sidang isbat Kemenag RI"
+                  />
+                  {errors.note && <p className="text-red-400 text-sm mt-1">{errors.note.message}</p>}
+                </div>
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                    Batal
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+                    {isSubmitting ? "Menyimpan..." : (editingOverride ? "Simpan Perubahan" : "Tambah Awal Bulan")}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default HijriCalendarSettings;
@@ -1,38 +1,50 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog"; // Import DialogDescription
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
-import { Trash2, Edit, PlusCircle } from "lucide-react";
-
-interface Schedule {
-  id: string;
-  day_of_week: string;
-  prayer_name: string;
-  imam_name: string;
-  muezzin_name?: string | null;
-  khatib_name?: string | null; // New field
-  bilal_name?: string | null;  // New field
-  display_order: number;
-}
+import { Trash2, Edit, PlusCircle, Calendar as CalendarIcon, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { id } from "date-fns/locale";
+import { masjidDate, masjidNow } from "@/lib/clock";
+import { cn } from "@/lib/utils";
+import { getIndonesianDayOfWeek, ImamSchedule } from "@/lib/imamSchedule";
+import { formatPersonnelName, PersonnelRole, resolveSchedulePerson, SCHEDULE_PERSONNEL_FIELDS } from "@/lib/personnel";
+import { usePersonnel } from "@/hooks/use-personnel";
 
 const scheduleFormSchema = z.object({
   id: z.string().optional(),
-  day_of_week: z.string().min(1, "Hari tidak boleh kosong."),
+  day_of_week: z.string(),
+  schedule_date: z.string().optional(), // YYYY-MM-DD for a one-date assignment, empty for the weekly pattern
   prayer_name: z.string().min(1, "Nama sholat tidak boleh kosong."),
-  imam_name: z.string().min(1, "Nama imam tidak boleh kosong."),
+  // Each role is picked from the personnel directory; the name fields only carry the free text of older rows
+  imam_id: z.string().optional(),
+  muezzin_id: z.string().optional(),
+  khatib_id: z.string().optional(),
+  bilal_id: z.string().optional(),
+  kultum_id: z.string().optional(),
+  imam_name: z.string().optional(),
   muezzin_name: z.string().nullable().optional(),
-  khatib_name: z.string().nullable().optional(), // New field
-  bilal_name: z.string().nullable().optional(),  // New field
+  khatib_name: z.string().nullable().optional(),
+  bilal_name: z.string().nullable().optional(),
+  kultum_name: z.string().nullable().optional(),
   display_order: z.coerce.number().int().min(0, "Urutan tampilan harus non-negatif.").default(0),
-});
+}).refine(
+  (values) => values.schedule_date || values.day_of_week,
+  { message: "Pilih hari atau tanggal.", path: ["day_of_week"] },
+).refine(
+  (values) => values.imam_id || values.imam_name,
+  { message: "Pilih imam.", path: ["imam_id"] },
+);
 
 type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
 
@@ -58,31 +70,56 @@ const PRAYER_NAMES = [
   { value: "Idul Adha", label: "Idul Adha" },
 ];
 
+const EMPTY_FORM_VALUES: ScheduleFormValues = {
+  day_of_week: "",
+  schedule_date: "",
+  prayer_name: "",
+  imam_id: "",
+  muezzin_id: "",
+  khatib_id: "",
+  bilal_id: "",
+  kultum_id: "",
+  imam_name: "",
+  muezzin_name: "",
+  khatib_name: "",
+  bilal_name: "",
+  kultum_name: "",
+  display_order: 0,
+};
+
+const NO_PERSON = "none";
+
 const ImamMuezzinScheduleSettings: React.FC = () => {
-  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [schedules, setSchedules] = useState<ImamSchedule[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<ImamSchedule | null>(null);
+  const [selectedDate, setSelectedDate] = useState(() => masjidNow().format("YYYY-MM-DD"));
+  const personnel = usePersonnel('imam_muezzin_schedules_personnel_changes');
 
   const form = useForm<ScheduleFormValues>({
     resolver: zodResolver(scheduleFormSchema),
-    defaultValues: {
-      day_of_week: "",
-      prayer_name: "",
-      imam_name: "",
-      muezzin_name: "",
-      khatib_name: "", // Initialize new fields
-      bilal_name: "",  // Initialize new fields
-      display_order: 0,
-    },
+    defaultValues: EMPTY_FORM_VALUES,
   });
 
   const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
   const selectedPrayerName = watch("prayer_name"); // Watch for prayer_name changes
+  const scheduleDate = watch("schedule_date");
+
+  const weeklySchedules = useMemo(() => schedules.filter((schedule) => !schedule.schedule_date), [schedules]);
+  const datedSchedules = useMemo(() => schedules.filter((schedule) => schedule.schedule_date), [schedules]);
+
+  // The selected date's own assignments, and the weekly rows that apply where it has none
+  const selectedDay = masjidDate(selectedDate);
+  const selectedDateSchedules = datedSchedules.filter((schedule) => schedule.schedule_date === selectedDate);
+  const selectedWeekdaySchedules = weeklySchedules.filter((schedule) =>
+    schedule.day_of_week === getIndonesianDayOfWeek(selectedDay)
+    && !selectedDateSchedules.some((dated) => dated.prayer_name === schedule.prayer_name));
 
   const fetchSchedules = useCallback(async () => {
     const { data, error } = await supabase
       .from("imam_muezzin_schedules")
       .select("*")
+      .order("schedule_date", { ascending: true, nullsFirst: true })
       .order("display_order", { ascending: true })
       .order("day_of_week", { ascending: true })
       .order("prayer_name", { ascending: true });
@@ -117,20 +154,34 @@ const ImamMuezzinScheduleSettings: React.FC = () => {
 
   const handleAddSchedule = () => {
     setEditingSchedule(null);
-    reset({ day_of_week: "", prayer_name: "", imam_name: "", muezzin_name: "", khatib_name: "", bilal_name: "", display_order: 0 });
+    reset(EMPTY_FORM_VALUES);
+    setIsDialogOpen(true);
+  };
+
+  // A one-date assignment for the date picked in the calendar, Jum'at by default on Fridays
+  const handleAddDateSchedule = () => {
+    setEditingSchedule(null);
+    reset({ ...EMPTY_FORM_VALUES, schedule_date: selectedDate, prayer_name: selectedDay.day() === 5 ? "Jumat" : "" });
     setIsDialogOpen(true);
   };
 
-  const handleEditSchedule = (schedule: Schedule) => {
+  const handleEditSchedule = (schedule: ImamSchedule) => {
     setEditingSchedule(schedule);
     reset({
       id: schedule.id,
       day_of_week: schedule.day_of_week,
+      schedule_date: schedule.schedule_date || "",
       prayer_name: schedule.prayer_name,
+      imam_id: schedule.imam_id || "",
+      muezzin_id: schedule.muezzin_id || "",
+      khatib_id: schedule.khatib_id || "",
+      bilal_id: schedule.bilal_id || "",
+      kultum_id: schedule.kultum_id || "",
       imam_name: schedule.imam_name,
       muezzin_name: schedule.muezzin_name || "",
-      khatib_name: schedule.khatib_name || "", // Set new fields for editing
-      bilal_name: schedule.bilal_name || "",    // Set new fields for editing
+      khatib_name: schedule.khatib_name || "",
+      bilal_name: schedule.bilal_name || "",
+      kultum_name: schedule.kultum_name || "",
       display_order: schedule.display_order,
     });
     setIsDialogOpen(true);
@@ -155,13 +206,34 @@ const ImamMuezzinScheduleSettings: React.FC = () => {
   };
 
   const onSubmit = async (values: ScheduleFormValues) => {
+    // The picked person's id, with their name as it is now; older rows keep their free-text name until a person is picked
+    const personFields = (role: PersonnelRole) => {
+      const { idField, nameField } = SCHEDULE_PERSONNEL_FIELDS[role];
+      const person = personnel.find((candidate) => candidate.id === values[idField]);
+      return { id: person?.id ?? null, name: person ? formatPersonnelName(person) : (values[nameField] || null) };
+    };
+    const imam = personFields("imam");
+    const muezzin = personFields("muezzin");
+    const khatib = personFields("khatib");
+    const bilal = personFields("bilal");
+    const kultum = personFields("kultum");
+    const isJumuah = values.prayer_name === "Jumat";
+    const isTarawih = values.prayer_name === "Tarawih";
+
     const payload = {
-      day_of_week: values.day_of_week,
+      day_of_week: values.schedule_date ? getIndonesianDayOfWeek(masjidDate(values.schedule_date)) : values.day_of_week,
+      schedule_date: values.schedule_date || null,
       prayer_name: values.prayer_name,
-      imam_name: values.imam_name,
-      muezzin_name: values.muezzin_name || null,
-      khatib_name: values.prayer_name === "Jumat" ? (values.khatib_name || null) : null, // Only save if Jumat
-      bilal_name: values.prayer_name === "Jumat" ? (values.bilal_name || null) : null,   // Only save if Jumat
+      imam_id: imam.id,
+      imam_name: imam.name,
+      muezzin_id: muezzin.id,
+      muezzin_name: muezzin.name,
+      khatib_id: isJumuah ? khatib.id : null, // Only save if Jumat
+      khatib_name: isJumuah ? khatib.name : null,
+      bilal_id: isJumuah ? bilal.id : null,
+      bilal_name: isJumuah ? bilal.name : null,
+      kultum_id: isTarawih ? kultum.id : null, // Only save if Tarawih
+      kultum_name: isTarawih ? kultum.name : null,
       display_order: values.display_order,
     };
 
@@ -197,54 +269,136 @@ const ImamMuezzinScheduleSettings: React.FC = () => {
     }
   };
 
+  const describeSchedulePerson = (schedule: ImamSchedule, role: PersonnelRole) => {
+    const person = resolveSchedulePerson(schedule, role, personnel);
+    return person ? formatPersonnelName(person) : null;
+  };
+
+  // A picker over the people with the role; a free-text name of an older row is shown until someone is picked
+  const renderPersonnelSelect = (role: PersonnelRole, label: string) => {
+    const { idField, nameField } = SCHEDULE_PERSONNEL_FIELDS[role];
+    const selectedId = watch(idField);
+    const legacyName = watch(nameField);
+    const candidates = personnel.filter((person) => person.roles.includes(role) || person.id === selectedId);
+
+    return (
+      <div>
+        <Label htmlFor={idField} className="text-gray-300">{label}</Label>
+        <Select
+          value={selectedId || NO_PERSON}
+          onValueChange={(value) => {
+            setValue(idField, value === NO_PERSON ? "" : value, { shouldValidate: true });
+            setValue(nameField, "");
+          }}
+        >
+          <SelectTrigger id={idField} className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+            <SelectValue placeholder={`Pilih ${label}`} />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-700 text-white border-gray-600">
+            <SelectItem value={NO_PERSON}>Tidak Ada</SelectItem>
+            {candidates.map((person) => (
+              <SelectItem key={person.id} value={person.id}>
+                {formatPersonnelName(person)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!selectedId && legacyName && (
+          <p className="text-xs text-yellow-400 mt-1">Tercatat "{legacyName}", belum terhubung ke Data Petugas. Pilih petugas untuk menghubungkannya.</p>
+        )}
+        {errors[idField] && <p className="text-red-400 text-sm mt-1">{errors[idField]?.message}</p>}
+      </div>
+    );
+  };
+
+  const renderScheduleRow = (schedule: ImamSchedule) => (
+    <div key={schedule.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+      <div>
+        <p className="font-medium text-lg text-blue-200">
+          {schedule.schedule_date ? format(parseISO(schedule.schedule_date), "dd/MM/yyyy") : schedule.day_of_week} - {schedule.prayer_name}
+        </p>
+        <p className="text-sm text-gray-300">Imam: {describeSchedulePerson(schedule, "imam")}</p>
+        {describeSchedulePerson(schedule, "muezzin") && (
+          <p className="text-xs text-gray-400">Muadzin: {describeSchedulePerson(schedule, "muezzin")}</p>
+        )}
+        {describeSchedulePerson(schedule, "khatib") && (
+          <p className="text-xs text-gray-400">Khatib: {describeSchedulePerson(schedule, "khatib")}</p>
+        )}
+        {describeSchedulePerson(schedule, "bilal") && (
+          <p className="text-xs text-gray-400">Bilal: {describeSchedulePerson(schedule, "bilal")}</p>
+        )}
+        {describeSchedulePerson(schedule, "kultum") && (
+          <p className="text-xs text-gray-400">Kultum: {describeSchedulePerson(schedule, "kultum")}</p>
+        )}
+        <p className="text-xs text-gray-400">Urutan: {schedule.display_order}</p>
+      </div>
+      <div className="flex space-x-2">
+        <Button variant="outline" size="icon" onClick={() => handleEditSchedule(schedule)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+          <Edit className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => handleDeleteSchedule(schedule.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
   return (
     <Card className="bg-gray-800 text-white border-gray-700 col-span-full lg:col-span-2">
       <CardHeader>
         <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Jadwal Imam & Muadzin</CardTitle>
       </CardHeader>
       <CardContent>
-        <p className="text-gray-400 mb-4">Kelola jadwal imam dan muadzin untuk sholat fardhu, Jumat, dan Tarawih.</p>
+        <p className="text-gray-400 mb-4">Kelola jadwal imam dan muadzin untuk sholat fardhu, Jumat, dan Tarawih, per pekan atau per tanggal.</p>
         <Button onClick={handleAddSchedule} className="w-full bg-green-600 hover:bg-green-700 text-white mb-4">
           <PlusCircle className="mr-2 h-4 w-4" /> Tambah Jadwal Baru
         </Button>
 
+        <h3 className="text-xl font-semibold text-blue-200 mb-2">Jadwal Mingguan</h3>
         <div className="space-y-3">
-          {schedules.length === 0 ? (
+          {weeklySchedules.length === 0 ? (
             <p className="text-gray-400 text-center">Belum ada jadwal. Tambahkan yang pertama!</p>
           ) : (
-            schedules.map((schedule) => (
-              <div key={schedule.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
-                <div>
-                  <p className="font-medium text-lg text-blue-200">
-                    {schedule.day_of_week} - {schedule.prayer_name}
-                  </p>
-                  <p className="text-sm text-gray-300">Imam: {schedule.imam_name}</p>
-                  {schedule.muezzin_name && (
-                    <p className="text-xs text-gray-400">Muadzin: {schedule.muezzin_name}</p>
-                  )}
-                  {schedule.khatib_name && (
-                    <p className="text-xs text-gray-400">Khatib: {schedule.khatib_name}</p>
-                  )}
-                  {schedule.bilal_name && (
-                    <p className="text-xs text-gray-400">Bilal: {schedule.bilal_name}</p>
-                  )}
-                  <p className="text-xs text-gray-400">Urutan: {schedule.display_order}</p>
-                </div>
-                <div className="flex space-x-2">
-                  <Button variant="outline" size="icon" onClick={() => handleEditSchedule(schedule)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button variant="outline" size="icon" onClick={() => handleDeleteSchedule(schedule.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            ))
+            weeklySchedules.map(renderScheduleRow)
           )}
         </div>
 
+        <h3 className="text-xl font-semibold text-blue-200 mt-6 mb-2">Jadwal per Tanggal</h3>
+        <p className="text-gray-400 mb-4">
+          Penugasan untuk tanggal tertentu, misalnya khatib Jum'at yang bergiliran atau imam hari raya, menggantikan jadwal mingguan pada tanggal itu. Tanggal yang sudah berisi penugasan ditandai biru.
+        </p>
+        <div className="flex flex-col lg:flex-row gap-4">
+          <Calendar
+            mode="single"
+            numberOfMonths={2}
+            selected={parseISO(selectedDate)}
+            onSelect={(date) => date && setSelectedDate(format(date, "yyyy-MM-dd"))}
+            modifiers={{ assigned: datedSchedules.map((schedule) => parseISO(schedule.schedule_date as string)) }}
+            modifiersClassNames={{ assigned: "bg-blue-700 text-white" }}
+            className="bg-gray-700 rounded-md self-start"
+          />
+          <div className="flex-1 space-y-3">
+            <p className="font-medium text-lg text-blue-200">
+              {format(parseISO(selectedDate), "EEEE, PPP", { locale: id })}
+            </p>
+            <Button onClick={handleAddDateSchedule} className="w-full bg-green-600 hover:bg-green-700 text-white">
+              <PlusCircle className="mr-2 h-4 w-4" /> Tambah Penugasan Tanggal Ini
+            </Button>
+            {selectedDateSchedules.map(renderScheduleRow)}
+            {selectedWeekdaySchedules.length > 0 && (
+              <>
+                <p className="text-sm text-gray-400">Dari jadwal mingguan {getIndonesianDayOfWeek(selectedDay)}:</p>
+                {selectedWeekdaySchedules.map(renderScheduleRow)}
+              </>
+            )}
+            {selectedDateSchedules.length === 0 && selectedWeekdaySchedules.length === 0 && (
+              <p className="text-gray-400 text-center">Tidak ada jadwal untuk tanggal ini.</p>
+            )}
+          </div>
+        </div>
+
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogContent className="bg-gray-800 text-white border-gray-700">
+          <DialogContent className="bg-gray-800 text-white border-gray-700 max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="text-blue-300">{editingSchedule ? "Edit Jadwal" : "Tambah Jadwal Baru"}</DialogTitle>
               <DialogDescription>
@@ -253,25 +407,62 @@ const ImamMuezzinScheduleSettings: React.FC = () => {
             </DialogHeader>
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
               <div>
-                <Label htmlFor="day_of_week" className="text-gray-300">Hari</Label>
-                <Select
-                  onValueChange={(value) => setValue("day_of_week", value)}
-                  defaultValue={form.getValues("day_of_week")}
-                >
-                  <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white mt-1">
-                    <SelectValue placeholder="Pilih Hari" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-gray-700 text-white border-gray-600">
-                    {DAYS_OF_WEEK.map((day) => (
-                      <SelectItem key={day.value} value={day.value}>
-                        {day.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {errors.day_of_week && <p className="text-red-400 text-sm mt-1">{errors.day_of_week.message}</p>}
+                <Label htmlFor="schedule_date" className="text-gray-300 block mb-1">Tanggal Khusus (Opsional)</Label>
+                <div className="flex space-x-2">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        id="schedule_date"
+                        variant={"outline"}
+                        className={cn(
+                          "w-full justify-start text-left font-normal bg-gray-700 border-gray-600 text-white",
+                          !scheduleDate && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {scheduleDate ? format(parseISO(scheduleDate), "PPP", { locale: id }) : <span>Setiap pekan (jadwal mingguan)</span>}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-gray-700 border-gray-600 text-white">
+                      <Calendar
+                        mode="single"
+                        selected={scheduleDate ? parseISO(scheduleDate) : undefined}
+                        onSelect={(date) => setValue("schedule_date", date ? format(date, "yyyy-MM-dd") : "")}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {scheduleDate && (
+                    <Button type="button" variant="outline" size="icon" onClick={() => setValue("schedule_date", "")} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">Jika diisi, jadwal ini hanya berlaku pada tanggal tersebut dan menggantikan jadwal mingguan.</p>
               </div>
 
+              {!scheduleDate && ( // The day of the week follows from the date for one-date assignments
+                <div>
+                  <Label htmlFor="day_of_week" className="text-gray-300">Hari</Label>
+                  <Select
+                    onValueChange={(value) => setValue("day_of_week", value)}
+                    defaultValue={form.getValues("day_of_week")}
+                  >
+                    <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Hari" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      {DAYS_OF_WEEK.map((day) => (
+                        <SelectItem key={day.value} value={day.value}>
+                          {day.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {errors.day_of_week && <p className="text-red-400 text-sm mt-1">{errors.day_of_week.message}</p>}
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="prayer_name" className="text-gray-300">Nama Sholat</Label>
                 <Select
@@ -292,57 +483,18 @@ const ImamMuezzinScheduleSettings: React.FC = () => {
                 {errors.prayer_name && <p className="text-red-400 text-sm mt-1">{errors.prayer_name.message}</p>}
               </div>
 
-              <div>
-                <Label htmlFor="imam_name" className="text-gray-300">Nama Imam</Label>
-                <Input
-                  id="imam_name"
-                  {...register("imam_name")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                  placeholder="Nama Imam"
-                />
-                {errors.imam_name && <p className="text-red-400 text-sm mt-1">{errors.imam_name.message}</p>}
-              </div>
-
-              <div>
-                <Label htmlFor="muezzin_name" className="text-gray-300">Nama Muadzin (Opsional)</Label>
-                <Input
-                  id="muezzin_name"
-                  {...register("muezzin_name")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                  placeholder="Nama Muadzin"
-                />
-                {errors.muezzin_name && <p className="text-red-400 text-sm mt-1">{errors.muezzin_name.message}</p>}
-              </div>
-
-              {selectedPrayerName === "Jumat" && ( // Conditional fields for Jumat
-                <>
-                  <div>
-                    <Label htmlFor="khatib_name" className="text-gray-300">Nama Khatib (Opsional)</Label>
-                    <Input
-                      id="khatib_name"
-                      {...register("khatib_name")}
-                      className="bg-gray-700 border-gray-600 text-white mt-1"
-                      placeholder="Nama Khatib"
-                    />
-                    {errors.khatib_name && <p className="text-red-400 text-sm mt-1">{errors.khatib_name.message}</p>}
-                  </div>
-                  <div>
-                    <Label htmlFor="bilal_name" className="text-gray-300">Nama Bilal (Opsional)</Label>
-                    <Input
-                      id="bilal_name"
-                      {...register("bilal_name")}
-                      className="bg-gray-700 border-gray-600 text-white mt-1"
-                      placeholder="Nama Bilal"
-                    />
-                    {errors.bilal_name && <p className="text-red-400 text-sm mt-1">{errors.bilal_name.message}</p>}
-                  </div>
-                </>
+              {personnel.length === 0 && (
+                <p className="text-sm text-yellow-400">Belum ada petugas. Tambahkan imam, muadzin dan khatib di menu Data Petugas terlebih dahulu.</p>
               )}
-              {selectedPrayerName === "Tarawih" && ( // Keep Tarawih specific fields if any
+              {renderPersonnelSelect("imam", "Imam")}
+              {renderPersonnelSelect("muezzin", "Muadzin (Opsional)")}
+              {selectedPrayerName === "Jumat" && ( // Conditional fields for Jumat
                 <>
-                  {/* Add Tarawih specific fields here if needed, e.g., for a different Khatib/Bilal for Tarawih */}
+                  {renderPersonnelSelect("khatib", "Khatib (Opsional)")}
+                  {renderPersonnelSelect("bilal", "Bilal (Opsional)")}
                 </>
               )}
+              {selectedPrayerName === "Tarawih" && renderPersonnelSelect("kultum", "Penceramah Kultum (Opsional)")}
 
               <div>
                 <Label htmlFor="display_order" className="text-gray-300">Urutan Tampilan</Label>
@@ -3,6 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog"; // Import DialogDescription
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
@@ -11,23 +14,44 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
-import { Trash2, Edit, PlusCircle, Calendar as CalendarIcon, CloudDownload } from "lucide-react"; // Added CloudDownload icon
+import { Trash2, Edit, PlusCircle, Calendar as CalendarIcon, CloudDownload, ListPlus } from "lucide-react"; // Added CloudDownload icon
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
 import { cn } from "@/lib/utils";
-
-interface IslamicHoliday {
-  id: string;
-  name: string;
-  holiday_date: string; // YYYY-MM-DD format
-  display_order: number;
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import { useCurrentDay } from "@/hooks/use-current-day";
+import { masjidNow } from "@/lib/clock";
+import { HIJRI_MONTH_NAMES } from "@/lib/hijri";
+import { findNextHijriOccurrence, IslamicHoliday, isHijriRecurring, STANDARD_HIJRI_HOLIDAYS } from "@/lib/islamicHolidays";
+
+const HIJRI_DAYS = Array.from({ length: 30 }, (_, index) => index + 1);
+
+// Holiday sources of the fetch-holidays function
+const SYNC_PROVIDERS = [
+  { value: "local", label: "Perhitungan Hijriah (tanpa API key)" },
+  { value: "calendarific", label: "Calendarific (perlu API key)" },
+  { value: "json", label: "Berkas holidays.json" },
+];
+
+// The dry-run result of fetch-holidays
+interface HolidaySyncPlan {
+  inserts: { name: string; holiday_date: string }[];
+  updates: { id: string; name: string; holiday_date: string; previous_date: string }[];
+  unchanged: { name: string; holiday_date: string }[];
+  skipped: { name: string; holiday_date: string; reason: string }[];
 }
 
 const holidayFormSchema = z.object({
   id: z.string().optional(),
   name: z.string().min(1, "Nama hari besar tidak boleh kosong.").max(100, "Nama terlalu panjang."),
-  holiday_date: z.string().min(1, "Tanggal hari besar tidak boleh kosong."),
+  date_type: z.enum(["hijri", "gregorian"]),
+  holiday_date: z.string().optional(),
+  hijri_month: z.coerce.number().int().min(1).max(12),
+  hijri_day: z.coerce.number().int().min(1).max(30),
   display_order: z.coerce.number().int().min(0, "Urutan tampilan harus non-negatif.").default(0),
+}).refine((data) => data.date_type === "hijri" || !!data.holiday_date, {
+  message: "Tanggal hari besar tidak boleh kosong.",
+  path: ["holiday_date"],
 });
 
 type HolidayFormValues = z.infer<typeof holidayFormSchema>;
@@ -37,23 +61,39 @@ const IslamicHolidaySettings: React.FC = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingHoliday, setEditingHoliday] = useState<IslamicHoliday | null>(null);
   const [isSyncing, setIsSyncing] = useState(false); // New state for sync loading
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
+  const [syncYear, setSyncYear] = useState("");
+  const [syncProvider, setSyncProvider] = useState(SYNC_PROVIDERS[0].value);
+  const [islamicOnly, setIslamicOnly] = useState(true);
+  const [syncPlan, setSyncPlan] = useState<HolidaySyncPlan | null>(null);
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set());
+  const { config, formatHijri } = useHijriCalendar();
+  const currentDay = useCurrentDay();
 
   const form = useForm<HolidayFormValues>({
     resolver: zodResolver(holidayFormSchema),
     defaultValues: {
       name: "",
+      date_type: "hijri",
       holiday_date: "",
+      hijri_month: 1,
+      hijri_day: 1,
       display_order: 0,
     },
   });
 
   const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
   const holidayDate = watch("holiday_date");
+  const dateType = watch("date_type");
+  const hijriMonth = watch("hijri_month");
+  const hijriDay = watch("hijri_day");
 
   const fetchHolidays = useCallback(async () => {
     const { data, error } = await supabase
       .from("islamic_holidays")
       .select("*")
+      .order("hijri_month", { ascending: true })
+      .order("hijri_day", { ascending: true })
       .order("holiday_date", { ascending: true })
       .order("display_order", { ascending: true });
 
@@ -85,7 +125,7 @@ const IslamicHolidaySettings: React.FC = () => {
 
   const handleAddHoliday = () => {
     setEditingHoliday(null);
-    reset({ name: "", holiday_date: "", display_order: 0 });
+    reset({ name: "", date_type: "hijri", holiday_date: "", hijri_month: 1, hijri_day: 1, display_order: 0 });
     setIsDialogOpen(true);
   };
 
@@ -94,7 +134,10 @@ const IslamicHolidaySettings: React.FC = () => {
     reset({
       id: holiday.id,
       name: holiday.name,
-      holiday_date: holiday.holiday_date,
+      date_type: isHijriRecurring(holiday) ? "hijri" : "gregorian",
+      holiday_date: holiday.holiday_date || "",
+      hijri_month: holiday.hijri_month ?? 1,
+      hijri_day: holiday.hijri_day ?? 1,
       display_order: holiday.display_order,
     });
     setIsDialogOpen(true);
@@ -119,9 +162,12 @@ const IslamicHolidaySettings: React.FC = () => {
   };
 
   const onSubmit = async (values: HolidayFormValues) => {
+    const isHijri = values.date_type === "hijri";
     const payload = {
       name: values.name,
-      holiday_date: values.holiday_date,
+      holiday_date: isHijri ? null : values.holiday_date,
+      hijri_month: isHijri ? values.hijri_month : null,
+      hijri_day: isHijri ? values.hijri_day : null,
       display_order: values.display_order,
     };
 
@@ -157,28 +203,131 @@ const IslamicHolidaySettings: React.FC = () => {
     }
   };
 
-  const handleSyncHolidays = async () => {
-    const currentYear = new Date().getFullYear();
-    const yearToSync = prompt(`Masukkan tahun untuk sinkronisasi hari besar (misal: ${currentYear}):`, currentYear.toString());
+  const handleAddStandardHolidays = async () => {
+    const missingHolidays = STANDARD_HIJRI_HOLIDAYS.filter((standard) =>
+      !holidays.some((holiday) => holiday.hijri_month === standard.hijri_month && holiday.hijri_day === standard.hijri_day)
+    );
+
+    if (missingHolidays.length === 0) {
+      toast.info("Semua hari besar standar sudah ada di daftar.");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("islamic_holidays")
+      .insert(missingHolidays.map((holiday) => ({ ...holiday, holiday_date: null, display_order: 0 })));
+
+    if (error) {
+      console.error("Error adding standard holidays:", error);
+      toast.error("Gagal menambahkan hari besar standar.");
+    } else {
+      toast.success(`Berhasil menambahkan ${missingHolidays.length} hari besar standar!`);
+      fetchHolidays(); // Re-fetch to update list
+    }
+  };
+
+  const describeHolidayDate = (holiday: IslamicHoliday) => {
+    if (!isHijriRecurring(holiday)) {
+      return `Tanggal: ${format(new Date(holiday.holiday_date!), "dd MMMM yyyy", { locale: id })} / ${formatHijri(holiday.holiday_date!)}`;
+    }
+    const nextDate = findNextHijriOccurrence(holiday.hijri_month!, holiday.hijri_day!, currentDay, config);
+    const recurrence = `Setiap ${holiday.hijri_day} ${HIJRI_MONTH_NAMES[holiday.hijri_month! - 1]}`;
+    return nextDate
+      ? `${recurrence} (berikutnya: ${format(new Date(nextDate), "dd MMMM yyyy", { locale: id })})`
+      : recurrence;
+  };
+
+  const handleOpenSync = () => {
+    setSyncPlan(null);
+    setSyncYear(String(masjidNow().year()));
+    setIsSyncDialogOpen(true);
+  };
 
-    if (!yearToSync || isNaN(Number(yearToSync))) {
-      toast.info("Sinkronisasi dibatalkan atau tahun tidak valid.");
+  // Dry run: the function only returns what it would insert and update, saved after review
+  const handlePreviewSync = async () => {
+    if (!syncYear || isNaN(Number(syncYear))) {
+      toast.error("Tahun tidak valid.");
       return;
     }
 
     setIsSyncing(true);
-    const syncToastId = toast.loading(`Menyinkronkan hari besar untuk tahun ${yearToYear}...`);
+    setSyncPlan(null);
 
     try {
       const { data, error } = await supabase.functions.invoke('fetch-holidays', {
-        body: { year: Number(yearToSync), country: "ID" }, // 'ID' for Indonesia
+        body: {
+          year: Number(syncYear),
+          country: "ID", // 'ID' for Indonesia
+          provider: syncProvider,
+          islamic_only: islamicOnly,
+          dry_run: true,
+          hijri_variant: config.variant,
+          hijri_day_adjustment: config.dayAdjustment,
+        },
       });
 
       if (error) {
         throw error;
       }
 
-      toast.success(`Berhasil menyinkronkan ${data.count} hari besar untuk tahun ${yearToSync}!`, { id: syncToastId });
+      const plan = data as HolidaySyncPlan;
+      setSyncPlan(plan);
+      setSelectedChanges(new Set([
+        ...plan.inserts.map((_, index) => `insert:${index}`),
+        ...plan.updates.map((update) => `update:${update.id}`),
+      ]));
+    } catch (error) {
+      console.error("Error previewing holiday sync:", error);
+      toast.error(`Gagal mengambil hari besar: ${(error as Error).message || "Terjadi kesalahan."}`);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const toggleSelectedChange = (key: string, checked: boolean) => {
+    setSelectedChanges((previous) => {
+      const next = new Set(previous);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSaveSync = async () => {
+    if (!syncPlan) return;
+
+    const inserts = syncPlan.inserts.filter((_, index) => selectedChanges.has(`insert:${index}`));
+    const updates = syncPlan.updates.filter((update) => selectedChanges.has(`update:${update.id}`));
+    if (inserts.length === 0 && updates.length === 0) {
+      toast.info("Tidak ada perubahan yang dipilih.");
+      return;
+    }
+
+    setIsSyncing(true);
+    const syncToastId = toast.loading(`Menyimpan hari besar untuk tahun ${syncYear}...`);
+
+    try {
+      if (inserts.length > 0) {
+        const { error } = await supabase
+          .from("islamic_holidays")
+          .insert(inserts.map((holiday) => ({ ...holiday, display_order: 0 })));
+        if (error) throw error;
+      }
+
+      // Only the date is updated; names and display order set here are kept
+      for (const update of updates) {
+        const { error } = await supabase
+          .from("islamic_holidays")
+          .update({ holiday_date: update.holiday_date })
+          .eq("id", update.id);
+        if (error) throw error;
+      }
+
+      toast.success(`Berhasil menyinkronkan ${inserts.length + updates.length} hari besar untuk tahun ${syncYear}!`, { id: syncToastId });
+      setIsSyncDialogOpen(false);
       fetchHolidays(); // Re-fetch to update the displayed list
     } catch (error: any) {
       console.error("Error syncing holidays:", error);
@@ -194,13 +343,18 @@ const IslamicHolidaySettings: React.FC = () => {
         <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Hari Besar Islam</CardTitle>
       </CardHeader>
       <CardContent>
-        <p className="text-gray-400 mb-4">Kelola daftar hari besar Islam yang akan ditampilkan dengan hitung mundur.</p>
+        <p className="text-gray-400 mb-4">
+          Kelola daftar hari besar Islam yang akan ditampilkan dengan hitung mundur. Hari besar dengan tanggal Hijriah berulang setiap tahun dan dihitung langsung di perangkat, mengikuti penyesuaian dan hasil sidang isbat di pengaturan Kalender Hijriah.
+        </p>
         <div className="flex flex-col sm:flex-row gap-2 mb-4">
           <Button onClick={handleAddHoliday} className="flex-1 bg-green-600 hover:bg-green-700 text-white">
             <PlusCircle className="mr-2 h-4 w-4" /> Tambah Hari Besar Manual
           </Button>
-          <Button onClick={handleSyncHolidays} disabled={isSyncing} className="flex-1 bg-purple-600 hover:bg-purple-700 text-white">
-            <CloudDownload className="mr-2 h-4 w-4" /> {isSyncing ? "Menyinkronkan..." : "Sinkronkan dari Online"}
+          <Button onClick={handleAddStandardHolidays} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white">
+            <ListPlus className="mr-2 h-4 w-4" /> Tambah Hari Besar Standar
+          </Button>
+          <Button onClick={handleOpenSync} disabled={isSyncing} className="flex-1 bg-purple-600 hover:bg-purple-700 text-white">
+            <CloudDownload className="mr-2 h-4 w-4" /> {isSyncing ? "Menyinkronkan..." : "Sinkronkan Hari Besar"}
           </Button>
         </div>
 
@@ -212,9 +366,7 @@ const IslamicHolidaySettings: React.FC = () => {
               <div key={holiday.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
                 <div>
                   <p className="font-medium text-lg text-blue-200">{holiday.name}</p>
-                  <p className="text-sm text-gray-300">
-                    Tanggal: {format(new Date(holiday.holiday_date), "dd MMMM yyyy", { locale: id })}
-                  </p>
+                  <p className="text-sm text-gray-300">{describeHolidayDate(holiday)}</p>
                   <p className="text-xs text-gray-400">Urutan: {holiday.display_order}</p>
                 </div>
                 <div className="flex space-x-2">
@@ -245,38 +397,82 @@ const IslamicHolidaySettings: React.FC = () => {
                   id="name"
                   {...register("name")}
                   className="bg-gray-700 border-gray-600 text-white mt-1"
-                  placeholder="Contoh: Idul Fitri 1445 H"
+                  placeholder="Contoh: Idul Fitri"
                 />
                 {errors.name && <p className="text-red-400 text-sm mt-1">{errors.name.message}</p>}
               </div>
 
               <div>
-                <Label htmlFor="holiday_date" className="text-gray-300 block mb-1">Tanggal Hari Besar</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant={"outline"}
-                      className={cn(
-                        "w-full justify-start text-left font-normal bg-gray-700 border-gray-600 text-white",
-                        !holidayDate && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {holidayDate ? format(new Date(holidayDate), "PPP", { locale: id }) : <span>Pilih tanggal</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0 bg-gray-700 border-gray-600 text-white">
-                    <Calendar
-                      mode="single"
-                      selected={holidayDate ? new Date(holidayDate) : undefined}
-                      onSelect={(date) => setValue("holiday_date", date ? format(date, "yyyy-MM-dd") : "")}
-                      initialFocus
-                    />
-                  </PopoverContent>
-                </Popover>
-                {errors.holiday_date && <p className="text-red-400 text-sm mt-1">{errors.holiday_date.message}</p>}
+                <Label htmlFor="date_type" className="text-gray-300">Jenis Tanggal</Label>
+                <Select value={dateType} onValueChange={(value) => setValue("date_type", value as HolidayFormValues["date_type"])}>
+                  <SelectTrigger id="date_type" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Jenis Tanggal" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    <SelectItem value="hijri">Tanggal Hijriah (berulang setiap tahun)</SelectItem>
+                    <SelectItem value="gregorian">Tanggal Masehi (sekali)</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
 
+              {dateType === "hijri" ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="hijri_day" className="text-gray-300">Tanggal</Label>
+                    <Select value={String(hijriDay)} onValueChange={(value) => setValue("hijri_day", Number(value))}>
+                      <SelectTrigger id="hijri_day" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                        <SelectValue placeholder="Pilih Tanggal" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-700 text-white border-gray-600">
+                        {HIJRI_DAYS.map((day) => (
+                          <SelectItem key={day} value={String(day)}>{day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="hijri_month" className="text-gray-300">Bulan Hijriah</Label>
+                    <Select value={String(hijriMonth)} onValueChange={(value) => setValue("hijri_month", Number(value))}>
+                      <SelectTrigger id="hijri_month" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                        <SelectValue placeholder="Pilih Bulan" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-700 text-white border-gray-600">
+                        {HIJRI_MONTH_NAMES.map((monthName, index) => (
+                          <SelectItem key={monthName} value={String(index + 1)}>{monthName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="holiday_date" className="text-gray-300 block mb-1">Tanggal Hari Besar</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant={"outline"}
+                        className={cn(
+                          "w-full justify-start text-left font-normal bg-gray-700 border-gray-600 text-white",
+                          !holidayDate && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {holidayDate ? format(new Date(holidayDate), "PPP", { locale: id }) : <span>Pilih tanggal</span>}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-gray-700 border-gray-600 text-white">
+                      <Calendar
+                        mode="single"
+                        selected={holidayDate ? new Date(holidayDate) : undefined}
+                        onSelect={(date) => setValue("holiday_date", date ? format(date, "yyyy-MM-dd") : "")}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {errors.holiday_date && <p className="text-red-400 text-sm mt-1">{errors.holiday_date.message}</p>}
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="display_order" className="text-gray-300">Urutan Tampilan</Label>
                 <Input
@@ -299,6 +495,103 @@ const IslamicHolidaySettings: React.FC = () => {
             </form>
           </DialogContent>
         </Dialog>
+
+        <Dialog open={isSyncDialogOpen} onOpenChange={setIsSyncDialogOpen}>
+          <DialogContent className="bg-gray-800 text-white border-gray-700 max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-blue-300">Sinkronkan Hari Besar</DialogTitle>
+              <DialogDescription>
+                Ambil daftar hari besar untuk satu tahun, periksa perubahannya, lalu simpan yang dipilih.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="syncProvider" className="text-gray-300">Sumber</Label>
+                  <Select value={syncProvider} onValueChange={(value) => { setSyncProvider(value); setSyncPlan(null); }}>
+                    <SelectTrigger id="syncProvider" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Sumber" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      {SYNC_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider.value} value={provider.value}>{provider.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="syncYear" className="text-gray-300">Tahun</Label>
+                  <Input
+                    id="syncYear"
+                    type="number"
+                    value={syncYear}
+                    onChange={(e) => { setSyncYear(e.target.value); setSyncPlan(null); }}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between space-x-2">
+                <Label htmlFor="islamicOnly" className="text-gray-300 text-lg">Hanya Hari Besar Islam</Label>
+                <Switch
+                  id="islamicOnly"
+                  checked={islamicOnly}
+                  onCheckedChange={(checked) => { setIslamicOnly(checked); setSyncPlan(null); }}
+                  className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
+                />
+              </div>
+              <Button onClick={handlePreviewSync} disabled={isSyncing} className="w-full bg-purple-600 hover:bg-purple-700 text-white">
+                {isSyncing && !syncPlan ? "Mengambil..." : "Tampilkan Pratinjau"}
+              </Button>
+
+              {syncPlan && (
+                <div className="space-y-3">
+                  {syncPlan.inserts.length === 0 && syncPlan.updates.length === 0 && (
+                    <p className="text-gray-400 text-center">Tidak ada hari besar baru atau perubahan tanggal.</p>
+                  )}
+                  {syncPlan.inserts.map((holiday, index) => (
+                    <div key={`insert-${index}`} className="flex items-center space-x-3 bg-gray-700 p-2 rounded-md">
+                      <Checkbox
+                        checked={selectedChanges.has(`insert:${index}`)}
+                        onCheckedChange={(checked) => toggleSelectedChange(`insert:${index}`, checked === true)}
+                      />
+                      <div>
+                        <p className="text-blue-200">{holiday.name} <span className="text-xs text-green-400">Baru</span></p>
+                        <p className="text-sm text-gray-300">{format(new Date(holiday.holiday_date), "dd MMMM yyyy", { locale: id })} / {formatHijri(holiday.holiday_date)}</p>
+                      </div>
+                    </div>
+                  ))}
+                  {syncPlan.updates.map((update) => (
+                    <div key={`update-${update.id}`} className="flex items-center space-x-3 bg-gray-700 p-2 rounded-md">
+                      <Checkbox
+                        checked={selectedChanges.has(`update:${update.id}`)}
+                        onCheckedChange={(checked) => toggleSelectedChange(`update:${update.id}`, checked === true)}
+                      />
+                      <div>
+                        <p className="text-blue-200">{update.name} <span className="text-xs text-yellow-400">Ubah Tanggal</span></p>
+                        <p className="text-sm text-gray-300">
+                          {format(new Date(update.previous_date), "dd MMMM yyyy", { locale: id })} &rarr; {format(new Date(update.holiday_date), "dd MMMM yyyy", { locale: id })}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  {(syncPlan.unchanged.length > 0 || syncPlan.skipped.length > 0) && (
+                    <p className="text-xs text-gray-400">
+                      {syncPlan.unchanged.length} sudah tercatat, {syncPlan.skipped.length} dilewati karena sudah ada sebagai tanggal Hijriah berulang.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSyncDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                Batal
+              </Button>
+              <Button onClick={handleSaveSync} disabled={isSyncing || !syncPlan || selectedChanges.size === 0} className="bg-blue-600 hover:bg-blue-700 text-white">
+                {isSyncing && syncPlan ? "Menyimpan..." : `Simpan ${selectedChanges.size} Perubahan`}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   );
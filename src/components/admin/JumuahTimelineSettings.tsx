@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Trash2, Edit, PlusCircle, Copy } from "lucide-react";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { masjidDate } from "@/lib/clock";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { describeJumuahPhaseType, JUMUAH_PHASE_TYPES, JumuahPhase, JumuahPhaseType } from "@/lib/jumuah";
+
+interface MediaFile {
+  id: string;
+  title: string;
+  file_path: string;
+}
+
+const NO_AUDIO = "null";
+
+const jumuahPhaseFormSchema = z.object({
+  name: z.string().min(1, "Nama tahap tidak boleh kosong.").max(60, "Nama tahap terlalu panjang."),
+  phase_type: z.enum(["countdown", "announcement", "adhan", "khutbah", "prayer"]),
+  duration_minutes: z.coerce.number().int().min(0, "Durasi tidak boleh negatif.").max(120, "Durasi maksimal 120 menit."),
+  message: z.string().max(300, "Pesan terlalu panjang.").optional(),
+  audio_url: z.string().nullable(),
+  display_order: z.coerce.number().int().min(0, "Urutan tidak boleh negatif."),
+});
+
+type JumuahPhaseFormValues = z.infer<typeof jumuahPhaseFormSchema>;
+
+const DEFAULT_FORM_VALUES: JumuahPhaseFormValues = {
+  name: "",
+  phase_type: "announcement",
+  duration_minutes: 5,
+  message: "",
+  audio_url: null,
+  display_order: 0,
+};
+
+const JumuahTimelineSettings: React.FC = () => {
+  const { settings } = useAppSettings();
+  const { currentDay } = usePrayerTimeline();
+  const [phases, setPhases] = useState<JumuahPhase[]>([]);
+  const [availableAudioFiles, setAvailableAudioFiles] = useState<MediaFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPhase, setEditingPhase] = useState<JumuahPhase | null>(null);
+
+  const form = useForm<JumuahPhaseFormValues>({
+    resolver: zodResolver(jumuahPhaseFormSchema),
+    defaultValues: DEFAULT_FORM_VALUES,
+  });
+
+  const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
+
+  const fetchPhases = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("jumuah_phases")
+      .select("*")
+      .order("display_order", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching Jum'at phases:", error);
+      toast.error("Gagal memuat rangkaian Jum'at.");
+    } else {
+      setPhases(data || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  const fetchAudioFiles = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("media_files")
+      .select("id, title, file_path")
+      .eq("file_type", "audio")
+      .eq("source_type", "upload")
+      .order("title", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching available audio files:", error);
+      toast.error("Gagal memuat daftar audio.");
+    } else {
+      setAvailableAudioFiles(data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPhases();
+    fetchAudioFiles();
+
+    const channel = supabase
+      .channel('jumuah_phases_admin_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'jumuah_phases' }, (payload) => {
+        console.log("Jum'at phase change received!", payload);
+        fetchPhases();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchPhases, fetchAudioFiles]);
+
+  // The coming Friday's timeline, with the default phases while none are configured.
+  const fridayWindow = useMemo(() => {
+    if (!settings) return null;
+    const today = masjidDate(currentDay);
+    const friday = today.day() <= 5 ? today.day(5) : today.day(12);
+    return calculatePrayerTimeline(settings, friday, null, phases).windows.find((prayerWindow) => prayerWindow.isJumuah) ?? null;
+  }, [settings, currentDay, phases]);
+
+  const handleAddPhase = () => {
+    setEditingPhase(null);
+    reset({ ...DEFAULT_FORM_VALUES, display_order: phases.length });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditPhase = (phase: JumuahPhase) => {
+    setEditingPhase(phase);
+    reset({
+      name: phase.name,
+      phase_type: phase.phase_type,
+      duration_minutes: phase.duration_minutes,
+      message: phase.message || "",
+      audio_url: phase.audio_url,
+      display_order: phase.display_order,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeletePhase = async (phaseId: string) => {
+    if (!window.confirm("Apakah Anda yakin ingin menghapus tahap ini?")) {
+      return;
+    }
+    const { error } = await supabase
+      .from("jumuah_phases")
+      .delete()
+      .eq("id", phaseId);
+
+    if (error) {
+      console.error("Error deleting Jum'at phase:", error);
+      toast.error("Gagal menghapus tahap Jum'at.");
+    } else {
+      toast.success("Tahap Jum'at berhasil dihapus!");
+      fetchPhases();
+    }
+  };
+
+  // Saves the default timeline as rows, as a starting point for editing.
+  const handleCopyDefaultPhases = async () => {
+    if (!fridayWindow) return;
+    const rows = fridayWindow.jumuahPhases.map(({ phase }) => ({
+      name: phase.name,
+      phase_type: phase.phase_type,
+      duration_minutes: phase.duration_minutes,
+      message: phase.message,
+      audio_url: phase.audio_url,
+      display_order: phase.display_order,
+    }));
+    const { error } = await supabase.from("jumuah_phases").insert(rows);
+
+    if (error) {
+      console.error("Error copying the default Jum'at phases:", error);
+      toast.error("Gagal menyalin rangkaian bawaan.");
+    } else {
+      toast.success("Rangkaian bawaan berhasil disalin!");
+      fetchPhases();
+    }
+  };
+
+  const onSubmit = async (values: JumuahPhaseFormValues) => {
+    const payload = {
+      name: values.name.trim(),
+      phase_type: values.phase_type,
+      duration_minutes: values.duration_minutes,
+      message: values.message?.trim() || null,
+      audio_url: values.audio_url,
+      display_order: values.display_order,
+    };
+
+    const { error } = editingPhase
+      ? await supabase.from("jumuah_phases").update(payload).eq("id", editingPhase.id)
+      : await supabase.from("jumuah_phases").insert(payload);
+
+    if (error) {
+      console.error("Error saving Jum'at phase:", error);
+      toast.error("Gagal menyimpan tahap Jum'at.");
+    } else {
+      toast.success(editingPhase ? "Tahap Jum'at berhasil diperbarui!" : "Tahap Jum'at berhasil ditambahkan!");
+      setIsDialogOpen(false);
+      fetchPhases();
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Rangkaian Jum'at</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Tahap-tahap layar pada hari Jum'at, berurutan. Adzan pertama dimulai tepat pada waktu Dzuhur; tahap sebelumnya dihitung mundur dari adzan. Tahap Sholat menggelapkan layar. Audio setiap tahap diputar sekali saat tahap dimulai, jika Master Switch audio aktif.
+        </p>
+        <Button onClick={handleAddPhase} className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white">
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Tahap
+        </Button>
+
+        {isLoading ? (
+          <p className="text-gray-300 text-center">Memuat rangkaian Jum'at...</p>
+        ) : (
+          <div className="space-y-3">
+            {phases.length === 0 && (
+              <div className="bg-gray-700 p-3 rounded-md text-center">
+                <p className="text-gray-300 mb-2">Belum ada rangkaian. Layar memakai rangkaian bawaan di bawah ini.</p>
+                <Button variant="outline" onClick={handleCopyDefaultPhases} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                  <Copy className="mr-2 h-4 w-4" /> Salin Rangkaian Bawaan untuk Diubah
+                </Button>
+              </div>
+            )}
+            {fridayWindow?.jumuahPhases.map(({ phase, start, end }) => (
+              <div key={phase.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+                <div>
+                  <p className="font-medium text-lg text-blue-200">
+                    {start.format("HH:mm")} - {end.format("HH:mm")} | {phase.name}
+                  </p>
+                  <p className="text-sm text-gray-300">
+                    {describeJumuahPhaseType(phase.phase_type)} | {phase.duration_minutes} menit
+                    {phase.audio_url && ` | Audio: ${phase.audio_url.split('/').pop()}`}
+                  </p>
+                  {phase.message && <p className="text-xs text-gray-400">{phase.message}</p>}
+                </div>
+                {phases.length > 0 && (
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="icon" onClick={() => handleEditPhase(phase)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => handleDeletePhase(phase.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {fridayWindow && (
+              <p className="text-xs text-gray-400 text-center">
+                Waktu untuk Jum'at {fridayWindow.adhanTime.format("DD/MM/YYYY")}.
+              </p>
+            )}
+          </div>
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="bg-gray-800 text-white border-gray-700 max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-blue-300">{editingPhase ? "Edit Tahap Jum'at" : "Tambah Tahap Jum'at"}</DialogTitle>
+              <DialogDescription>
+                Contoh: Tarhim, Adzan Pertama, Khatib Naik Mimbar, Adzan Kedua, Khutbah, Sholat Jum'at.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="jumuah_phase_name" className="text-gray-300">Nama Tahap</Label>
+                  <Input
+                    id="jumuah_phase_name"
+                    {...register("name")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.name && <p className="text-red-400 text-sm mt-1">{errors.name.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="jumuah_phase_type" className="text-gray-300">Jenis Tampilan</Label>
+                  <Select value={watch("phase_type")} onValueChange={(value) => setValue("phase_type", value as JumuahPhaseType)}>
+                    <SelectTrigger id="jumuah_phase_type" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Jenis Tampilan" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      {JUMUAH_PHASE_TYPES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="jumuah_phase_duration_minutes" className="text-gray-300">Durasi (menit)</Label>
+                  <Input
+                    id="jumuah_phase_duration_minutes"
+                    type="number"
+                    {...register("duration_minutes")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.duration_minutes && <p className="text-red-400 text-sm mt-1">{errors.duration_minutes.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="jumuah_phase_display_order" className="text-gray-300">Urutan</Label>
+                  <Input
+                    id="jumuah_phase_display_order"
+                    type="number"
+                    {...register("display_order")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.display_order && <p className="text-red-400 text-sm mt-1">{errors.display_order.message}</p>}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="jumuah_phase_message" className="text-gray-300">Pesan di Layar (opsional)</Label>
+                <Textarea
+                  id="jumuah_phase_message"
+                  {...register("message")}
+                  className="bg-gray-700 border-gray-600 text-white mt-1"
+                />
+                {errors.message && <p className="text-red-400 text-sm mt-1">{errors.message.message}</p>}
+              </div>
+
+              <div>
+                <Label htmlFor="jumuah_phase_audio_url" className="text-gray-300">Audio Saat Tahap Dimulai</Label>
+                <Select
+                  value={watch("audio_url") || NO_AUDIO}
+                  onValueChange={(value) => setValue("audio_url", value === NO_AUDIO ? null : value)}
+                >
+                  <SelectTrigger id="jumuah_phase_audio_url" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Audio" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    <SelectItem value={NO_AUDIO}>Tidak Ada</SelectItem>
+                    {availableAudioFiles.map((audio) => (
+                      <SelectItem key={audio.id} value={supabase.storage.from('audio').getPublicUrl(audio.file_path).data?.publicUrl || ""}>
+                        {audio.title || audio.file_path.split('/').pop()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {isSubmitting ? "Menyimpan..." : (editingPhase ? "Simpan Perubahan" : "Tambah Tahap")}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JumuahTimelineSettings;
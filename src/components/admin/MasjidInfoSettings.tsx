@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -11,6 +12,24 @@ import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { v4 as uuidv4 } from 'uuid'; // Import uuid for unique file names
 import { useAppSettings } from "@/contexts/AppSettingsContext"; // Import useAppSettings
+import { resolveTimeZone } from "@/lib/clock";
+import dayjs from "dayjs";
+
+// Radix Select does not allow an empty value, so "use the device's zone" gets its own key (stored as null).
+const DEVICE_TIME_ZONE = "device";
+
+const TIME_ZONE_OPTIONS = [
+  { value: DEVICE_TIME_ZONE, label: "Ikuti zona waktu perangkat" },
+  { value: "Asia/Jakarta", label: "WIB - Asia/Jakarta (Sumatra, Jawa)" },
+  { value: "Asia/Pontianak", label: "WIB - Asia/Pontianak (Kalimantan Barat & Tengah)" },
+  { value: "Asia/Makassar", label: "WITA - Asia/Makassar (Bali, NTB, NTT, Sulawesi, Kalimantan Timur & Selatan)" },
+  { value: "Asia/Jayapura", label: "WIT - Asia/Jayapura (Maluku, Papua)" },
+  { value: "Asia/Kuala_Lumpur", label: "Malaysia - Asia/Kuala_Lumpur" },
+  { value: "Asia/Singapore", label: "Singapura - Asia/Singapore" },
+  { value: "Asia/Brunei", label: "Brunei - Asia/Brunei" },
+  { value: "Asia/Dili", label: "Timor Leste - Asia/Dili" },
+  { value: "UTC", label: "UTC" },
+];
 
 // Define schema for form validation
 const formSchema = z.object({
@@ -18,6 +37,7 @@ const formSchema = z.object({
   masjidLogoUrl: z.string().nullable().optional(), // No longer strictly a URL for input, but will store URL
   masjidAddress: z.string().min(1, "Alamat masjid tidak boleh kosong.").max(255, "Alamat terlalu panjang.").optional().nullable(),
   masjidNameColor: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, "Format warna heksadesimal tidak valid (contoh: #RRGGBB atau #RGB).").nullable().optional(),
+  timeZone: z.string(),
 });
 
 type MasjidInfoSettingsFormValues = z.infer<typeof formSchema>;
@@ -32,10 +52,12 @@ const MasjidInfoSettings: React.FC = () => {
       masjidLogoUrl: "",
       masjidAddress: "",
       masjidNameColor: "#34D399", // Default to green-400
+      timeZone: DEVICE_TIME_ZONE,
     },
   });
 
-  const { handleSubmit, register, setValue, formState: { isSubmitting, errors } } = form;
+  const { handleSubmit, register, setValue, watch, formState: { isSubmitting, errors } } = form;
+  const timeZone = watch("timeZone");
   const [currentLogoUrl, setCurrentLogoUrl] = useState<string | null>(null);
 
   useEffect(() => {
@@ -45,6 +67,7 @@ const MasjidInfoSettings: React.FC = () => {
       setCurrentLogoUrl(settings.masjid_logo_url);
       setValue("masjidAddress", settings.masjid_address || "");
       setValue("masjidNameColor", settings.masjid_name_color || "#34D399");
+      setValue("timeZone", settings.time_zone || DEVICE_TIME_ZONE);
     }
   }, [settings, isLoadingSettings, setValue]);
 
@@ -129,6 +152,7 @@ const MasjidInfoSettings: React.FC = () => {
           masjid_logo_url: values.masjidLogoUrl || null,
           masjid_address: values.masjidAddress || null,
           masjid_name_color: values.masjidNameColor || null,
+          time_zone: values.timeZone === DEVICE_TIME_ZONE ? null : values.timeZone,
         },
         { onConflict: "id" } // Upsert based on 'id'
       );
@@ -207,6 +231,25 @@ const MasjidInfoSettings: React.FC = () => {
               </div>
             )}
           </div>
+          <div>
+            <Label htmlFor="timeZone" className="text-gray-300">Zona Waktu Masjid</Label>
+            <Select value={timeZone} onValueChange={(value) => setValue("timeZone", value)}>
+              <SelectTrigger id="timeZone" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                <SelectValue placeholder="Pilih Zona Waktu" />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-700 text-white border-gray-600">
+                {TIME_ZONE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-gray-400 text-sm mt-1">
+              Semua jam, jadwal sholat dan hitung mundur di layar mengikuti zona waktu ini, apa pun pengaturan jam perangkat TV.
+              Waktu sekarang di zona ini: {dayjs().tz(resolveTimeZone(timeZone === DEVICE_TIME_ZONE ? null : timeZone)).format("HH:mm")}.
+            </p>
+          </div>
           <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
             {isSubmitting ? "Menyimpan..." : "Simpan Informasi Masjid"}
           </Button>
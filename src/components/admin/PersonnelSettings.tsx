@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from 'uuid';
+import { Trash2, Edit, PlusCircle, UserRound } from "lucide-react";
+import { describePersonnelRoles, formatPersonnelName, Personnel, PERSONNEL_ROLES, PersonnelRole } from "@/lib/personnel";
+
+const personnelFormSchema = z.object({
+  name: z.string().min(1, "Nama tidak boleh kosong.").max(100, "Nama terlalu panjang."),
+  title: z.string().max(30, "Gelar terlalu panjang.").optional(),
+  phone: z.string().regex(/^$|^\+?[0-9 -]{6,20}$/, "Nomor telepon tidak valid.").optional(),
+  photo_url: z.string().nullable(),
+  roles: z.array(z.enum(["imam", "muezzin", "khatib", "bilal", "kultum"])).min(1, "Pilih minimal satu peran."),
+});
+
+type PersonnelFormValues = z.infer<typeof personnelFormSchema>;
+
+const DEFAULT_FORM_VALUES: PersonnelFormValues = {
+  name: "",
+  title: "",
+  phone: "",
+  photo_url: null,
+  roles: [],
+};
+
+const PersonnelSettings: React.FC = () => {
+  const [personnel, setPersonnel] = useState<Personnel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPerson, setEditingPerson] = useState<Personnel | null>(null);
+
+  const form = useForm<PersonnelFormValues>({
+    resolver: zodResolver(personnelFormSchema),
+    defaultValues: DEFAULT_FORM_VALUES,
+  });
+
+  const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
+  const photoUrl = watch("photo_url");
+  const roles = watch("roles");
+
+  const fetchPersonnel = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("personnel")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching personnel:", error);
+      toast.error("Gagal memuat data petugas.");
+    } else {
+      setPersonnel(data || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPersonnel();
+
+    const channel = supabase
+      .channel('personnel_admin_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'personnel' }, (payload) => {
+        console.log('Personnel change received!', payload);
+        fetchPersonnel();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchPersonnel]);
+
+  const handleAddPerson = () => {
+    setEditingPerson(null);
+    reset(DEFAULT_FORM_VALUES);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditPerson = (person: Personnel) => {
+    setEditingPerson(person);
+    reset({
+      name: person.name,
+      title: person.title || "",
+      phone: person.phone || "",
+      photo_url: person.photo_url,
+      roles: person.roles,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeletePerson = async (personId: string) => {
+    if (!window.confirm("Apakah Anda yakin ingin menghapus petugas ini? Jadwal yang memakainya akan tetap menampilkan nama yang tersimpan.")) {
+      return;
+    }
+    const { error } = await supabase
+      .from("personnel")
+      .delete()
+      .eq("id", personId);
+
+    if (error) {
+      console.error("Error deleting personnel:", error);
+      toast.error("Gagal menghapus petugas.");
+    } else {
+      toast.success("Petugas berhasil dihapus!");
+      fetchPersonnel();
+    }
+  };
+
+  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const fileExtension = file.name.split('.').pop();
+    const filePath = `personnel/${uuidv4()}.${fileExtension}`; // Path inside the bucket
+    const uploadToastId = toast.loading("Mengunggah foto petugas...");
+
+    try {
+      const { error } = await supabase.storage
+        .from('images')
+        .upload(filePath, file, { cacheControl: '3600', upsert: false });
+
+      if (error) {
+        throw error;
+      }
+
+      const { data: publicUrlData } = supabase.storage
+        .from('images')
+        .getPublicUrl(filePath);
+
+      if (publicUrlData?.publicUrl) {
+        setValue("photo_url", publicUrlData.publicUrl);
+        toast.success("Foto petugas berhasil diunggah!", { id: uploadToastId });
+      } else {
+        throw new Error("Gagal mendapatkan URL publik foto.");
+      }
+    } catch (error) {
+      console.error("Error uploading personnel photo:", error);
+      toast.error(`Gagal mengunggah foto: ${error instanceof Error ? error.message : String(error)}`, { id: uploadToastId });
+    }
+  };
+
+  const toggleRole = (role: PersonnelRole, checked: boolean) => {
+    setValue("roles", checked ? [...roles, role] : roles.filter((current) => current !== role), { shouldValidate: true });
+  };
+
+  const onSubmit = async (values: PersonnelFormValues) => {
+    const payload = {
+      name: values.name.trim(),
+      title: values.title?.trim() || null,
+      phone: values.phone?.trim() || null,
+      photo_url: values.photo_url,
+      roles: values.roles,
+    };
+
+    const { error } = editingPerson
+      ? await supabase.from("personnel").update(payload).eq("id", editingPerson.id)
+      : await supabase.from("personnel").insert(payload);
+
+    if (error) {
+      console.error("Error saving personnel:", error);
+      toast.error("Gagal menyimpan data petugas.");
+    } else {
+      toast.success(editingPerson ? "Data petugas berhasil diperbarui!" : "Petugas berhasil ditambahkan!");
+      setIsDialogOpen(false);
+      fetchPersonnel();
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Data Petugas</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Daftar imam, muadzin, khatib, bilal dan penceramah kultum. Jadwal imam & muadzin memilih petugas dari daftar ini, sehingga nama, gelar dan foto yang tampil di layar selalu sama.
+        </p>
+        <Button onClick={handleAddPerson} className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white">
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Petugas
+        </Button>
+
+        {isLoading ? (
+          <p className="text-gray-300 text-center">Memuat data petugas...</p>
+        ) : personnel.length === 0 ? (
+          <p className="text-gray-400 text-center">Belum ada petugas. Tambahkan yang pertama!</p>
+        ) : (
+          <div className="space-y-3">
+            {personnel.map((person) => (
+              <div key={person.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+                <div className="flex items-center space-x-3">
+                  {person.photo_url ? (
+                    <img src={person.photo_url} alt={person.name} className="h-12 w-12 rounded-full object-cover border border-gray-600" />
+                  ) : (
+                    <div className="h-12 w-12 rounded-full bg-gray-600 flex items-center justify-center">
+                      <UserRound className="h-6 w-6 text-gray-400" />
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-medium text-lg text-blue-200">{formatPersonnelName(person)}</p>
+                    <p className="text-sm text-gray-300">{describePersonnelRoles(person.roles)}</p>
+                    {person.phone && <p className="text-xs text-gray-400">Telepon: {person.phone}</p>}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="icon" onClick={() => handleEditPerson(person)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleDeletePerson(person.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="bg-gray-800 text-white border-gray-700 max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-blue-300">{editingPerson ? "Edit Petugas" : "Tambah Petugas"}</DialogTitle>
+              <DialogDescription>
+                Gelar ditampilkan di depan nama, misalnya "Ustadz" atau "KH".
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="personnel_title" className="text-gray-300">Gelar</Label>
+                  <Input
+                    id="personnel_title"
+                    {...register("title")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                    placeholder="Ustadz"
+                  />
+                  {errors.title && <p className="text-red-400 text-sm mt-1">{errors.title.message}</p>}
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="personnel_name" className="text-gray-300">Nama</Label>
+                  <Input
+                    id="personnel_name"
+                    {...register("name")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.name && <p className="text-red-400 text-sm mt-1">{errors.name.message}</p>}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="personnel_phone" className="text-gray-300">Nomor Telepon (Opsional)</Label>
+                <Input
+                  id="personnel_phone"
+                  type="tel"
+                  {...register("phone")}
+                  className="bg-gray-700 border-gray-600 text-white mt-1"
+                  placeholder="08xx xxxx xxxx"
+                />
+                {errors.phone && <p className="text-red-400 text-sm mt-1">{errors.phone.message}</p>}
+              </div>
+
+              <div>
+                <Label className="text-gray-300">Peran</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {PERSONNEL_ROLES.map((option) => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`personnel_role_${option.value}`}
+                        checked={roles.includes(option.value)}
+                        onCheckedChange={(checked) => toggleRole(option.value, checked === true)}
+                      />
+                      <Label htmlFor={`personnel_role_${option.value}`} className="text-gray-300">{option.label}</Label>
+                    </div>
+                  ))}
+                </div>
+                {errors.roles && <p className="text-red-400 text-sm mt-1">{errors.roles.message}</p>}
+              </div>
+
+              <div>
+                <Label htmlFor="personnel_photo" className="text-gray-300">Foto (Opsional)</Label>
+                <Input
+                  id="personnel_photo"
+                  type="file"
+                  accept="image/*"
+                  onChange={handlePhotoUpload}
+                  className="bg-gray-700 border-gray-600 text-white mt-1 file:text-white file:bg-blue-600 file:hover:bg-blue-700 file:border-none file:rounded-md file:px-3 file:py-1"
+                />
+                {photoUrl && (
+                  <div className="mt-2 flex items-center space-x-3">
+                    <img src={photoUrl} alt="Foto petugas" className="h-20 w-20 rounded-full object-cover border border-gray-600" />
+                    <Button type="button" variant="outline" onClick={() => setValue("photo_url", null)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                      Hapus Foto
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {isSubmitting ? "Menyimpan..." : (editingPerson ? "Simpan Perubahan" : "Tambah Petugas")}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PersonnelSettings;
@@ -0,0 +1,138 @@
+import React, { useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import {
+  ADHAN_DURATION_SECONDS,
+  DEFAULT_DARK_SCREEN_DURATION_MINUTES,
+  DEFAULT_IQOMAH_COUNTDOWN_SECONDS,
+  getPrayerDurationSettingKey,
+  OBLIGATORY_PRAYER_KEYS,
+  PRAYER_DISPLAY_NAMES,
+  PRE_ADHAN_COUNTDOWN_SECONDS,
+  PrayerDurationField,
+  PrayerDurationSettingKey,
+} from "@/lib/prayerTimes";
+
+const DURATION_COLUMNS: { field: PrayerDurationField; label: string }[] = [
+  { field: "pre_adhan_countdown_seconds", label: "Hitung Mundur Adzan (detik)" },
+  { field: "adhan_duration_seconds", label: "Durasi Adzan (detik)" },
+  { field: "iqomah_countdown_duration", label: "Hitung Mundur Iqomah (detik)" },
+  { field: "dark_screen_duration_minutes", label: "Layar Gelap (menit)" },
+];
+
+const DURATION_SETTING_KEYS = OBLIGATORY_PRAYER_KEYS.flatMap((key) =>
+  DURATION_COLUMNS.map(({ field }) => getPrayerDurationSettingKey(field, key))
+);
+
+// Every field is optional text: an empty field stores null so the prayer uses the default.
+const formSchema = z.object(
+  Object.fromEntries(
+    DURATION_SETTING_KEYS.map((key) => [key, z.string().regex(/^\d*$/, "Harus angka bulat, tidak boleh negatif.")])
+  ) as Record<PrayerDurationSettingKey, z.ZodString>
+);
+
+type PrayerDurationFormValues = z.infer<typeof formSchema>;
+
+const emptyFormValues = Object.fromEntries(DURATION_SETTING_KEYS.map((key) => [key, ""])) as PrayerDurationFormValues;
+
+const PrayerDurationSettings: React.FC = () => {
+  const { settings, isLoadingSettings, refetchSettings } = useAppSettings();
+
+  const form = useForm<PrayerDurationFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyFormValues,
+  });
+
+  const { handleSubmit, register, setValue, formState: { isSubmitting, errors } } = form;
+
+  useEffect(() => {
+    if (!isLoadingSettings && settings) {
+      DURATION_SETTING_KEYS.forEach((key) => {
+        setValue(key, settings[key] === null || settings[key] === undefined ? "" : String(settings[key]));
+      });
+    }
+  }, [settings, isLoadingSettings, setValue]);
+
+  const defaultFor = (field: PrayerDurationField) => {
+    switch (field) {
+      case "pre_adhan_countdown_seconds":
+        return PRE_ADHAN_COUNTDOWN_SECONDS;
+      case "adhan_duration_seconds":
+        return ADHAN_DURATION_SECONDS;
+      case "iqomah_countdown_duration":
+        return settings?.iqomah_countdown_duration || DEFAULT_IQOMAH_COUNTDOWN_SECONDS;
+      case "dark_screen_duration_minutes":
+        return DEFAULT_DARK_SCREEN_DURATION_MINUTES;
+    }
+  };
+
+  const onSubmit = async (values: PrayerDurationFormValues) => {
+    const payload = Object.fromEntries(
+      DURATION_SETTING_KEYS.map((key) => [key, values[key] === "" ? null : Number(values[key])])
+    );
+
+    const { error } = await supabase
+      .from("app_settings")
+      .upsert({ id: 1, ...payload }, { onConflict: "id" });
+
+    if (error) {
+      console.error("Error saving prayer durations:", error);
+      toast.error("Gagal menyimpan durasi per waktu sholat.");
+    } else {
+      toast.success("Durasi per waktu sholat berhasil disimpan!");
+      refetchSettings();
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Durasi per Waktu Sholat</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Atur lama hitung mundur sebelum adzan, adzan, hitung mundur iqomah, dan layar gelap selama sholat untuk setiap waktu sholat. Kosongkan untuk memakai nilai bawaan yang tertera. Pada hari Jumat, layar gelap mengikuti pengaturan Dzuhur.
+        </p>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {OBLIGATORY_PRAYER_KEYS.map((prayerKey) => (
+            <div key={prayerKey} className="border-b border-gray-700 pb-4">
+              <h3 className="text-xl font-semibold text-blue-300 mb-3">{PRAYER_DISPLAY_NAMES[prayerKey]}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                {DURATION_COLUMNS.map(({ field, label }) => {
+                  const settingKey = getPrayerDurationSettingKey(field, prayerKey);
+                  return (
+                    <div key={settingKey}>
+                      <Label htmlFor={settingKey} className="text-gray-300">{label}</Label>
+                      <Input
+                        id={settingKey}
+                        type="number"
+                        min={0}
+                        {...register(settingKey)}
+                        placeholder={`Bawaan: ${defaultFor(field)}`}
+                        className="bg-gray-700 border-gray-600 text-white mt-1"
+                      />
+                      {errors[settingKey] && <p className="text-red-400 text-sm mt-1">{errors[settingKey]?.message}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+            {isSubmitting ? "Menyimpan..." : "Simpan Durasi"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrayerDurationSettings;
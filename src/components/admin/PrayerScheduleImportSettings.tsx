@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Upload, X } from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import { PRAYER_DISPLAY_NAMES } from "@/lib/prayerTimes";
+import { ImportedSchedule, parsePrayerScheduleRows, readPrayerScheduleFile } from "@/lib/prayerScheduleImport";
+
+// Differences this large usually mean the table belongs to another city or year.
+const LARGE_DIFF_MINUTES = 10;
+
+const formatDiff = (diff: number) => (diff > 0 ? `+${diff}` : `${diff}`);
+
+const PrayerScheduleImportSettings: React.FC = () => {
+  const { settings } = useAppSettings();
+  const { config: hijriConfig } = useHijriCalendar();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<ImportedSchedule | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const validRows = schedule ? schedule.rows.filter((row) => row.errors.length === 0) : [];
+  const invalidRowCount = schedule ? schedule.rows.length - validRows.length : 0;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow choosing the same file again after fixing it
+    if (!file || !settings) return;
+
+    setIsReading(true);
+    try {
+      const sheetRows = await readPrayerScheduleFile(file);
+      const parsed = parsePrayerScheduleRows(sheetRows, settings, hijriConfig);
+      setFileName(file.name);
+      setSchedule(parsed);
+      console.log(`PrayerScheduleImportSettings: Parsed ${parsed.rows.length} rows from ${file.name}.`, parsed);
+    } catch (error) {
+      console.error("Error reading prayer schedule file:", error);
+      toast.error("Gagal membaca file. Pastikan formatnya CSV atau XLSX.");
+      setFileName(null);
+      setSchedule(null);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleClear = () => {
+    setFileName(null);
+    setSchedule(null);
+  };
+
+  const handleImport = async () => {
+    if (!schedule || validRows.length === 0) return;
+    const confirmation = invalidRowCount > 0
+      ? `Impor ${validRows.length} baris? ${invalidRowCount} baris yang bermasalah akan dilewati. Jadwal manual yang sudah ada pada tanggal yang sama akan ditimpa.`
+      : `Impor ${validRows.length} baris? Jadwal manual yang sudah ada pada tanggal yang sama akan ditimpa.`;
+    if (!window.confirm(confirmation)) {
+      return;
+    }
+
+    // Only the columns present in the file are written, so existing values for other times are kept.
+    const payload = validRows.map((row) => {
+      const record: Record<string, string | null> = { override_date: row.date, note: `Impor dari ${fileName}` };
+      schedule.columns.forEach((key) => {
+        record[key] = row.times[key] ?? null;
+      });
+      return record;
+    });
+
+    setIsImporting(true);
+    const { error } = await supabase
+      .from("prayer_time_overrides")
+      .upsert(payload, { onConflict: "override_date" });
+    setIsImporting(false);
+
+    if (error) {
+      console.error("Error importing prayer schedule:", error);
+      toast.error("Gagal mengimpor jadwal sholat.");
+    } else {
+      toast.success(`${validRows.length} jadwal sholat berhasil diimpor!`);
+      handleClear();
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Impor Jadwal Sholat dari File</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Unggah jadwal resmi bulanan atau tahunan dalam format CSV atau XLSX dengan kolom Tanggal, Imsak, Subuh, Terbit, Dzuhur, Ashar, Maghrib dan Isya. Tanggal boleh ditulis 01/03/2026 atau 2026-03-01. Periksa pratinjau dan selisihnya terhadap hasil perhitungan sebelum mengimpor.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <div className="flex-1">
+            <Label htmlFor="prayerScheduleFile" className="sr-only">File Jadwal</Label>
+            <Input
+              id="prayerScheduleFile"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+              disabled={isReading || isImporting}
+              className="bg-gray-700 border-gray-600 text-white file:text-white"
+            />
+          </div>
+          {schedule && (
+            <Button variant="outline" onClick={handleClear} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+              <X className="mr-2 h-4 w-4" /> Batal
+            </Button>
+          )}
+        </div>
+
+        {isReading && <p className="text-gray-400 text-center">Membaca file...</p>}
+
+        {schedule && (
+          <div className="space-y-4">
+            {schedule.fileErrors.map((message) => (
+              <p key={message} className="text-red-400">{message}</p>
+            ))}
+
+            {schedule.rows.length > 0 && (
+              <>
+                <p className="text-sm text-gray-300">
+                  {fileName}: {validRows.length} baris valid
+                  {invalidRowCount > 0 && <span className="text-red-400">, {invalidRowCount} baris bermasalah</span>}.
+                  Angka dalam kurung adalah selisih menit terhadap hasil perhitungan.
+                </p>
+                <ScrollArea className="h-96 rounded-md border border-gray-700">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-gray-700">
+                        <TableHead className="text-gray-300">Baris</TableHead>
+                        <TableHead className="text-gray-300">Tanggal</TableHead>
+                        {schedule.columns.map((key) => (
+                          <TableHead key={key} className="text-gray-300">{PRAYER_DISPLAY_NAMES[key]}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {schedule.rows.map((row) => (
+                        <React.Fragment key={row.rowNumber}>
+                          <TableRow className={cn("border-gray-700", row.errors.length > 0 && "bg-red-900/30")}>
+                            <TableCell className="text-gray-400">{row.rowNumber}</TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {row.date ? format(new Date(row.date), "dd MMM yyyy", { locale: id }) : "-"}
+                            </TableCell>
+                            {schedule.columns.map((key) => {
+                              const diff = row.diffMinutes[key];
+                              return (
+                                <TableCell key={key} className="whitespace-nowrap">
+                                  {row.times[key] ?? "-"}
+                                  {diff !== undefined && diff !== 0 && (
+                                    <span className={cn("ml-1 text-xs", Math.abs(diff) >= LARGE_DIFF_MINUTES ? "text-red-400" : "text-yellow-400")}>
+                                      ({formatDiff(diff)})
+                                    </span>
+                                  )}
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                          {row.errors.length > 0 && (
+                            <TableRow className="border-gray-700 bg-red-900/30">
+                              <TableCell colSpan={schedule.columns.length + 2} className="text-sm text-red-300">
+                                {row.errors.join(" ")}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </React.Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                <Button
+                  onClick={handleImport}
+                  disabled={isImporting || validRows.length === 0}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  {isImporting ? "Mengimpor..." : `Impor ${validRows.length} Baris ke Jadwal Manual`}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrayerScheduleImportSettings;
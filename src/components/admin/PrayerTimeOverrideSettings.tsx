@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Trash2, Edit, PlusCircle, Calendar as CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { masjidDate, masjidNow, resolveTimeZone } from "@/lib/clock";
+import { cn } from "@/lib/utils";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import {
+  calculatePrayerTimeline,
+  OVERRIDABLE_PRAYER_KEYS,
+  PRAYER_DISPLAY_NAMES,
+  PrayerKey,
+  PrayerTimeOverride,
+} from "@/lib/prayerTimes";
+
+const optionalTime = z
+  .string()
+  .regex(/^$|^([01]\d|2[0-3]):[0-5]\d$/, "Format waktu harus HH:mm.")
+  .optional();
+
+const overrideFormSchema = z.object({
+  id: z.string().optional(),
+  override_date: z.string().min(1, "Tanggal tidak boleh kosong."),
+  imsak: optionalTime,
+  fajr: optionalTime,
+  sunrise: optionalTime,
+  dhuhr: optionalTime,
+  asr: optionalTime,
+  maghrib: optionalTime,
+  isha: optionalTime,
+  note: z.string().max(200, "Catatan terlalu panjang.").optional(),
+}).refine(
+  (values) => OVERRIDABLE_PRAYER_KEYS.some((key) => values[key]),
+  { message: "Isi minimal satu waktu sholat.", path: ["fajr"] },
+);
+
+type OverrideFormValues = z.infer<typeof overrideFormSchema>;
+
+const EMPTY_FORM_VALUES: OverrideFormValues = {
+  override_date: "",
+  imsak: "",
+  fajr: "",
+  sunrise: "",
+  dhuhr: "",
+  asr: "",
+  maghrib: "",
+  isha: "",
+  note: "",
+};
+
+// Database times come back as HH:mm:ss, the time inputs work with HH:mm.
+const toInputTime = (value: string | null) => (value ? value.slice(0, 5) : "");
+
+const PrayerTimeOverrideSettings: React.FC = () => {
+  const { settings } = useAppSettings();
+  const [overrides, setOverrides] = useState<PrayerTimeOverride[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingOverride, setEditingOverride] = useState<PrayerTimeOverride | null>(null);
+
+  const form = useForm<OverrideFormValues>({
+    resolver: zodResolver(overrideFormSchema),
+    defaultValues: EMPTY_FORM_VALUES,
+  });
+
+  const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
+  const overrideDate = watch("override_date");
+
+  // Calculated times for the selected date, shown next to each field as a reference.
+  const calculatedTimes = useMemo(() => {
+    if (!settings || !overrideDate) return null;
+    return calculatePrayerTimeline(settings, masjidDate(overrideDate, resolveTimeZone(settings.time_zone))).times;
+  }, [settings, overrideDate]);
+
+  const fetchOverrides = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("prayer_time_overrides")
+      .select("*")
+      .gte("override_date", masjidNow().format("YYYY-MM-DD"))
+      .order("override_date", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching prayer time overrides:", error);
+      toast.error("Gagal memuat jadwal sholat manual.");
+    } else {
+      setOverrides(data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverrides();
+
+    const channel = supabase
+      .channel('prayer_time_overrides_admin_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'prayer_time_overrides' }, (payload) => {
+        console.log('Prayer time override change received!', payload);
+        fetchOverrides();
+      })
+      .subscribe();
+    console.log("PrayerTimeOverrideSettings: Subscribed to channel 'prayer_time_overrides_admin_changes'.");
+
+    return () => {
+      supabase.removeChannel(channel);
+      console.log("PrayerTimeOverrideSettings: Unsubscribed from channel 'prayer_time_overrides_admin_changes'.");
+    };
+  }, [fetchOverrides]);
+
+  const handleAddOverride = () => {
+    setEditingOverride(null);
+    reset(EMPTY_FORM_VALUES);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditOverride = (override: PrayerTimeOverride) => {
+    setEditingOverride(override);
+    reset({
+      id: override.id,
+      override_date: override.override_date,
+      imsak: toInputTime(override.imsak),
+      fajr: toInputTime(override.fajr),
+      sunrise: toInputTime(override.sunrise),
+      dhuhr: toInputTime(override.dhuhr),
+      asr: toInputTime(override.asr),
+      maghrib: toInputTime(override.maghrib),
+      isha: toInputTime(override.isha),
+      note: override.note || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteOverride = async (id: string) => {
+    if (!window.confirm("Apakah Anda yakin ingin menghapus jadwal manual ini? Waktu sholat akan kembali mengikuti perhitungan.")) {
+      return;
+    }
+    const { error } = await supabase
+      .from("prayer_time_overrides")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting prayer time override:", error);
+      toast.error("Gagal menghapus jadwal manual.");
+    } else {
+      toast.success("Jadwal manual berhasil dihapus!");
+      fetchOverrides();
+    }
+  };
+
+  const onSubmit = async (values: OverrideFormValues) => {
+    const payload = {
+      override_date: values.override_date,
+      imsak: values.imsak || null,
+      fajr: values.fajr || null,
+      sunrise: values.sunrise || null,
+      dhuhr: values.dhuhr || null,
+      asr: values.asr || null,
+      maghrib: values.maghrib || null,
+      isha: values.isha || null,
+      note: values.note || null,
+    };
+
+    const { error } = editingOverride
+      ? await supabase.from("prayer_time_overrides").update(payload).eq("id", editingOverride.id)
+      : await supabase.from("prayer_time_overrides").insert(payload);
+
+    if (error) {
+      console.error("Error saving prayer time override:", error);
+      if (error.code === "23505") {
+        toast.error("Sudah ada jadwal manual untuk tanggal ini. Silakan edit yang sudah ada.");
+      } else {
+        toast.error("Gagal menyimpan jadwal manual.");
+      }
+    } else {
+      toast.success(editingOverride ? "Jadwal manual berhasil diperbarui!" : "Jadwal manual berhasil ditambahkan!");
+      setIsDialogOpen(false);
+      fetchOverrides();
+    }
+  };
+
+  const renderOverriddenTimes = (override: PrayerTimeOverride) =>
+    OVERRIDABLE_PRAYER_KEYS
+      .filter((key) => override[key])
+      .map((key) => `${PRAYER_DISPLAY_NAMES[key]} ${toInputTime(override[key])}`)
+      .join(" · ");
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Jadwal Sholat Manual per Tanggal</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Masukkan waktu resmi (misalnya jadwal Kemenag/Bimas Islam) untuk tanggal tertentu. Waktu yang diisi akan menggantikan hasil perhitungan, termasuk koreksi menit di atas. Waktu yang dikosongkan tetap mengikuti perhitungan.
+        </p>
+        <Button onClick={handleAddOverride} className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white">
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Jadwal Manual
+        </Button>
+
+        <div className="space-y-3">
+          {overrides.length === 0 ? (
+            <p className="text-gray-400 text-center">Belum ada jadwal manual untuk hari ini dan seterusnya.</p>
+          ) : (
+            overrides.map((override) => (
+              <div key={override.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+                <div>
+                  <p className="font-medium text-lg text-blue-200">
+                    {format(new Date(override.override_date), "EEEE, dd MMMM yyyy", { locale: id })}
+                  </p>
+                  <p className="text-sm text-gray-300">{renderOverriddenTimes(override)}</p>
+                  {override.note && <p className="text-xs text-gray-400">{override.note}</p>}
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="icon" onClick={() => handleEditOverride(override)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleDeleteOverride(override.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="bg-gray-800 text-white border-gray-700">
+            <DialogHeader>
+              <DialogTitle className="text-blue-300">{editingOverride ? "Edit Jadwal Manual" : "Tambah Jadwal Manual"}</DialogTitle>
+              <DialogDescription>
+                Kosongkan waktu yang tidak perlu diganti. Waktu hasil perhitungan ditampilkan sebagai acuan.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <Label htmlFor="override_date" className="text-gray-300 block mb-1">Tanggal</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant={"outline"}
+                      className={cn(
+                        "w-full justify-start text-left font-normal bg-gray-700 border-gray-600 text-white",
+                        !overrideDate && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {overrideDate ? format(new Date(overrideDate), "PPP", { locale: id }) : <span>Pilih tanggal</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0 bg-gray-700 border-gray-600 text-white">
+                    <Calendar
+                      mode="single"
+                      selected={overrideDate ? new Date(overrideDate) : undefined}
+                      onSelect={(date) => setValue("override_date", date ? format(date, "yyyy-MM-dd") : "")}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                {errors.override_date && <p className="text-red-400 text-sm mt-1">{errors.override_date.message}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {OVERRIDABLE_PRAYER_KEYS.map((key: PrayerKey) => (
+                  <div key={key}>
+                    <Label htmlFor={`override_${key}`} className="text-gray-300">{PRAYER_DISPLAY_NAMES[key]}</Label>
+                    <Input
+                      id={`override_${key}`}
+                      type="time"
+                      {...register(key)}
+                      className="bg-gray-700 border-gray-600 text-white mt-1"
+                    />
+                    {calculatedTimes && (
+                      <p className="text-xs text-gray-400 mt-1">Perhitungan: {calculatedTimes[key].format("HH:mm")}</p>
+                    )}
+                    {errors[key] && <p className="text-red-400 text-sm mt-1">{errors[key]?.message}</p>}
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <Label htmlFor="override_note" className="text-gray-300">Catatan (opsional)</Label>
+                <Input
+                  id="override_note"
+                  {...register("note")}
+                  className="bg-gray-700 border-gray-600 text-white mt-1"
+                  placeholder="Contoh: Jadwal Kemenag Kota Bogor"
+                />
+                {errors.note && <p className="text-red-400 text-sm mt-1">{errors.note.message}</p>}
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {isSubmitting ? "Menyimpan..." : (editingOverride ? "Simpan Perubahan" : "Tambah Jadwal")}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrayerTimeOverrideSettings;
@@ -4,18 +4,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { useAppSettings } from "@/contexts/AppSettingsContext"; // Import useAppSettings
+import PrayerTimeOverrideSettings from "@/components/admin/PrayerTimeOverrideSettings";
+import PrayerScheduleImportSettings from "@/components/admin/PrayerScheduleImportSettings";
+import {
+  CUSTOM_CALCULATION_METHOD,
+  DEFAULT_ASR_MADHAB,
+  DEFAULT_CUSTOM_FAJR_ANGLE,
+  DEFAULT_CUSTOM_ISHA_ANGLE,
+  DEFAULT_HIGH_LATITUDE_RULE,
+  DEFAULT_IHTIYAT_MINUTES,
+} from "@/lib/prayerTimes";
 
 // Define schema for form validation
 const formSchema = z.object({
   latitude: z.coerce.number().min(-90).max(90).default(-6.2088), // Default to Jakarta's approximate latitude
   longitude: z.coerce.number().min(-180).max(180).default(106.8456), // Default to Jakarta's approximate longitude
   calculationMethod: z.string().default("MuslimWorldLeague"),
+  asrMadhab: z.string().default(DEFAULT_ASR_MADHAB),
+  highLatitudeRule: z.string().default(DEFAULT_HIGH_LATITUDE_RULE),
+  customFajrAngle: z.coerce.number().min(0).max(30).default(DEFAULT_CUSTOM_FAJR_ANGLE),
+  customIshaAngle: z.coerce.number().min(0).max(30).default(DEFAULT_CUSTOM_ISHA_ANGLE),
+  ihtiyatActive: z.boolean().default(false),
+  ihtiyatMinutes: z.coerce.number().int().min(0, "Ihtiyat tidak boleh negatif.").max(10, "Ihtiyat maksimal 10 menit.").default(DEFAULT_IHTIYAT_MINUTES),
   fajrOffset: z.coerce.number().int().default(0),
   dhuhrOffset: z.coerce.number().int().default(0),
   asrOffset: z.coerce.number().int().default(0),
@@ -39,6 +56,19 @@ const PRAYER_CALCULATION_METHODS = [
   { value: "Singapore", label: "Singapore" },
   { value: "Tehran", label: "Institute of Geophysics, University of Tehran" },
   { value: "Turkey", label: "Diyanet İşleri Başkanlığı, Turkey" },
+  { value: CUSTOM_CALCULATION_METHOD, label: "Kustom (sudut Subuh & Isya sendiri)" },
+];
+
+const ASR_MADHABS = [
+  { value: "Shafi", label: "Syafi'i (Jumhur)" },
+  { value: "Hanafi", label: "Hanafi" },
+];
+
+const HIGH_LATITUDE_RULES = [
+  { value: "MiddleOfTheNight", label: "Tengah Malam (Middle of the Night)" },
+  { value: "SeventhOfTheNight", label: "Sepertujuh Malam (Seventh of the Night)" },
+  { value: "TwilightAngle", label: "Sudut Senja (Twilight Angle)" },
+  { value: "Recommended", label: "Otomatis sesuai lokasi" },
 ];
 
 const PrayerTimeSettings: React.FC = () => {
@@ -50,6 +80,12 @@ const PrayerTimeSettings: React.FC = () => {
       latitude: -6.2088,
       longitude: 106.8456,
       calculationMethod: "MuslimWorldLeague",
+      asrMadhab: DEFAULT_ASR_MADHAB,
+      highLatitudeRule: DEFAULT_HIGH_LATITUDE_RULE,
+      customFajrAngle: DEFAULT_CUSTOM_FAJR_ANGLE,
+      customIshaAngle: DEFAULT_CUSTOM_ISHA_ANGLE,
+      ihtiyatActive: false,
+      ihtiyatMinutes: DEFAULT_IHTIYAT_MINUTES,
       fajrOffset: 0,
       dhuhrOffset: 0,
       asrOffset: 0,
@@ -59,13 +95,21 @@ const PrayerTimeSettings: React.FC = () => {
     },
   });
 
-  const { handleSubmit, register, setValue, formState: { isSubmitting, errors } } = form;
+  const { handleSubmit, register, setValue, watch, formState: { isSubmitting, errors } } = form;
+  const calculationMethod = watch("calculationMethod");
+  const ihtiyatActive = watch("ihtiyatActive");
 
   useEffect(() => {
     if (!isLoadingSettings && settings) {
       setValue("latitude", settings.latitude);
       setValue("longitude", settings.longitude);
       setValue("calculationMethod", settings.calculation_method);
+      setValue("asrMadhab", settings.asr_madhab || DEFAULT_ASR_MADHAB);
+      setValue("highLatitudeRule", settings.high_latitude_rule || DEFAULT_HIGH_LATITUDE_RULE);
+      setValue("customFajrAngle", settings.custom_fajr_angle ?? DEFAULT_CUSTOM_FAJR_ANGLE);
+      setValue("customIshaAngle", settings.custom_isha_angle ?? DEFAULT_CUSTOM_ISHA_ANGLE);
+      setValue("ihtiyatActive", settings.ihtiyat_active ?? false);
+      setValue("ihtiyatMinutes", settings.ihtiyat_minutes ?? DEFAULT_IHTIYAT_MINUTES);
       setValue("fajrOffset", settings.fajr_offset ?? 0);
       setValue("dhuhrOffset", settings.dhuhr_offset ?? 0);
       setValue("asrOffset", settings.asr_offset ?? 0);
@@ -84,6 +128,12 @@ const PrayerTimeSettings: React.FC = () => {
           latitude: values.latitude,
           longitude: values.longitude,
           calculation_method: values.calculationMethod,
+          asr_madhab: values.asrMadhab,
+          high_latitude_rule: values.highLatitudeRule,
+          custom_fajr_angle: values.customFajrAngle,
+          custom_isha_angle: values.customIshaAngle,
+          ihtiyat_active: values.ihtiyatActive,
+          ihtiyat_minutes: values.ihtiyatMinutes,
           fajr_offset: values.fajrOffset,
           dhuhr_offset: values.dhuhrOffset,
           asr_offset: values.asrOffset,
@@ -105,128 +155,214 @@ const PrayerTimeSettings: React.FC = () => {
   };
 
   return (
-    <Card className="bg-gray-800 text-white border-gray-700">
-      <CardHeader>
-        <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Waktu Sholat</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <p className="text-gray-400 mb-4">Atur lokasi masjid dan metode perhitungan waktu sholat.</p>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <div>
-            <Label htmlFor="latitude" className="text-gray-300">Lintang (Latitude)</Label>
-            <Input
-              id="latitude"
-              type="number"
-              step="any"
-              {...register("latitude")}
-              className="bg-gray-700 border-gray-600 text-white mt-1"
-            />
-            {errors.latitude && <p className="text-red-400 text-sm mt-1">{errors.latitude.message}</p>}
-          </div>
-          <div>
-            <Label htmlFor="longitude" className="text-gray-300">Bujur (Longitude)</Label>
-            <Input
-              id="longitude"
-              type="number"
-              step="any"
-              {...register("longitude")}
-              className="bg-gray-700 border-gray-600 text-white mt-1"
-            />
-            {errors.longitude && <p className="text-red-400 text-sm mt-1">{errors.longitude.message}</p>}
-          </div>
-          <div>
-            <Label htmlFor="calculationMethod" className="text-gray-300">Metode Perhitungan</Label>
-            <Select
-              onValueChange={(value) => setValue("calculationMethod", value)}
-              defaultValue={form.getValues("calculationMethod")}
-            >
-              <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white mt-1">
-                <SelectValue placeholder="Pilih Metode" />
-              </SelectTrigger>
-              <SelectContent className="bg-gray-700 text-white border-gray-600">
-                {PRAYER_CALCULATION_METHODS.map((method) => (
-                  <SelectItem key={method.value} value={method.value}>
-                    {method.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            {errors.calculationMethod && <p className="text-red-400 text-sm mt-1">{errors.calculationMethod.message}</p>}
-          </div>
-
-          <div className="border-t border-gray-700 pt-6 mt-6">
-            <h3 className="text-xl font-semibold text-blue-300 mb-4">Koreksi Waktu Sholat (Menit)</h3>
-            <p className="text-gray-400 text-sm mb-4">Masukkan nilai positif untuk mempercepat, negatif untuk memperlambat. Contoh: +1 atau -2.</p>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="fajrOffset" className="text-gray-300">Subuh</Label>
-                <Input
-                  id="fajrOffset"
-                  type="number"
-                  {...register("fajrOffset")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                />
-                {errors.fajrOffset && <p className="text-red-400 text-sm mt-1">{errors.fajrOffset.message}</p>}
-              </div>
-              <div>
-                <Label htmlFor="imsakOffset" className="text-gray-300">Imsak</Label>
-                <Input
-                  id="imsakOffset"
-                  type="number"
-                  {...register("imsakOffset")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                />
-                {errors.imsakOffset && <p className="text-red-400 text-sm mt-1">{errors.imsakOffset.message}</p>}
-              </div>
-              <div>
-                <Label htmlFor="dhuhrOffset" className="text-gray-300">Dzuhur</Label>
-                <Input
-                  id="dhuhrOffset"
-                  type="number"
-                  {...register("dhuhrOffset")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                />
-                {errors.dhuhrOffset && <p className="text-red-400 text-sm mt-1">{errors.dhuhrOffset.message}</p>}
-              </div>
-              <div>
-                <Label htmlFor="asrOffset" className="text-gray-300">Ashar</Label>
-                <Input
-                  id="asrOffset"
-                  type="number"
-                  {...register("asrOffset")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                />
-                {errors.asrOffset && <p className="text-red-400 text-sm mt-1">{errors.asrOffset.message}</p>}
+    <div className="space-y-8">
+      <Card className="bg-gray-800 text-white border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Waktu Sholat</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-400 mb-4">Atur lokasi masjid dan metode perhitungan waktu sholat.</p>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <Label htmlFor="latitude" className="text-gray-300">Lintang (Latitude)</Label>
+              <Input
+                id="latitude"
+                type="number"
+                step="any"
+                {...register("latitude")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {errors.latitude && <p className="text-red-400 text-sm mt-1">{errors.latitude.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="longitude" className="text-gray-300">Bujur (Longitude)</Label>
+              <Input
+                id="longitude"
+                type="number"
+                step="any"
+                {...register("longitude")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {errors.longitude && <p className="text-red-400 text-sm mt-1">{errors.longitude.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="calculationMethod" className="text-gray-300">Metode Perhitungan</Label>
+              <Select
+                onValueChange={(value) => setValue("calculationMethod", value)}
+                defaultValue={form.getValues("calculationMethod")}
+              >
+                <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                  <SelectValue placeholder="Pilih Metode" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 text-white border-gray-600">
+                  {PRAYER_CALCULATION_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.calculationMethod && <p className="text-red-400 text-sm mt-1">{errors.calculationMethod.message}</p>}
+            </div>
+            {calculationMethod === CUSTOM_CALCULATION_METHOD && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="customFajrAngle" className="text-gray-300">Sudut Subuh (derajat)</Label>
+                  <Input
+                    id="customFajrAngle"
+                    type="number"
+                    step="0.1"
+                    {...register("customFajrAngle")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.customFajrAngle && <p className="text-red-400 text-sm mt-1">{errors.customFajrAngle.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="customIshaAngle" className="text-gray-300">Sudut Isya (derajat)</Label>
+                  <Input
+                    id="customIshaAngle"
+                    type="number"
+                    step="0.1"
+                    {...register("customIshaAngle")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.customIshaAngle && <p className="text-red-400 text-sm mt-1">{errors.customIshaAngle.message}</p>}
+                </div>
               </div>
-              <div>
-                <Label htmlFor="maghribOffset" className="text-gray-300">Maghrib</Label>
-                <Input
-                  id="maghribOffset"
-                  type="number"
-                  {...register("maghribOffset")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
+            )}
+            <div>
+              <Label htmlFor="asrMadhab" className="text-gray-300">Mazhab Waktu Ashar</Label>
+              <Select value={watch("asrMadhab")} onValueChange={(value) => setValue("asrMadhab", value)}>
+                <SelectTrigger id="asrMadhab" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                  <SelectValue placeholder="Pilih Mazhab" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 text-white border-gray-600">
+                  {ASR_MADHABS.map((madhab) => (
+                    <SelectItem key={madhab.value} value={madhab.value}>
+                      {madhab.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="highLatitudeRule" className="text-gray-300">Aturan Lintang Tinggi</Label>
+              <Select value={watch("highLatitudeRule")} onValueChange={(value) => setValue("highLatitudeRule", value)}>
+                <SelectTrigger id="highLatitudeRule" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                  <SelectValue placeholder="Pilih Aturan" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 text-white border-gray-600">
+                  {HIGH_LATITUDE_RULES.map((rule) => (
+                    <SelectItem key={rule.value} value={rule.value}>
+                      {rule.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-gray-400 text-sm mt-1">Hanya berpengaruh di lokasi lintang tinggi, saat Subuh/Isya tidak dapat dihitung dari sudut matahari.</p>
+            </div>
+
+            <div className="border-t border-gray-700 pt-6 mt-6 space-y-4">
+              <div className="flex items-center justify-between space-x-2">
+                <Label htmlFor="ihtiyatActive" className="text-gray-300 text-lg">Gunakan Ihtiyat</Label>
+                <Switch
+                  id="ihtiyatActive"
+                  checked={ihtiyatActive}
+                  onCheckedChange={(checked) => setValue("ihtiyatActive", checked)}
+                  className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
                 />
-                {errors.maghribOffset && <p className="text-red-400 text-sm mt-1">{errors.maghribOffset.message}</p>}
               </div>
-              <div>
-                <Label htmlFor="ishaOffset" className="text-gray-300">Isya</Label>
-                <Input
-                  id="ishaOffset"
-                  type="number"
-                  {...register("ishaOffset")}
-                  className="bg-gray-700 border-gray-600 text-white mt-1"
-                />
-                {errors.ishaOffset && <p className="text-red-400 text-sm mt-1">{errors.ishaOffset.message}</p>}
+              <p className="text-gray-400 text-sm">Waktu dibulatkan ke atas ke menit berikutnya lalu ditambah ihtiyat. Waktu terbit dikurangi ihtiyat.</p>
+              {ihtiyatActive && (
+                <div>
+                  <Label htmlFor="ihtiyatMinutes" className="text-gray-300">Ihtiyat (Menit)</Label>
+                  <Input
+                    id="ihtiyatMinutes"
+                    type="number"
+                    {...register("ihtiyatMinutes")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.ihtiyatMinutes && <p className="text-red-400 text-sm mt-1">{errors.ihtiyatMinutes.message}</p>}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-700 pt-6 mt-6">
+              <h3 className="text-xl font-semibold text-blue-300 mb-4">Koreksi Waktu Sholat (Menit)</h3>
+              <p className="text-gray-400 text-sm mb-4">Masukkan nilai positif untuk mempercepat, negatif untuk memperlambat. Contoh: +1 atau -2.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="fajrOffset" className="text-gray-300">Subuh</Label>
+                  <Input
+                    id="fajrOffset"
+                    type="number"
+                    {...register("fajrOffset")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.fajrOffset && <p className="text-red-400 text-sm mt-1">{errors.fajrOffset.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="imsakOffset" className="text-gray-300">Imsak</Label>
+                  <Input
+                    id="imsakOffset"
+                    type="number"
+                    {...register("imsakOffset")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.imsakOffset && <p className="text-red-400 text-sm mt-1">{errors.imsakOffset.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="dhuhrOffset" className="text-gray-300">Dzuhur</Label>
+                  <Input
+                    id="dhuhrOffset"
+                    type="number"
+                    {...register("dhuhrOffset")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.dhuhrOffset && <p className="text-red-400 text-sm mt-1">{errors.dhuhrOffset.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="asrOffset" className="text-gray-300">Ashar</Label>
+                  <Input
+                    id="asrOffset"
+                    type="number"
+                    {...register("asrOffset")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.asrOffset && <p className="text-red-400 text-sm mt-1">{errors.asrOffset.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="maghribOffset" className="text-gray-300">Maghrib</Label>
+                  <Input
+                    id="maghribOffset"
+                    type="number"
+                    {...register("maghribOffset")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.maghribOffset && <p className="text-red-400 text-sm mt-1">{errors.maghribOffset.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="ishaOffset" className="text-gray-300">Isya</Label>
+                  <Input
+                    id="ishaOffset"
+                    type="number"
+                    {...register("ishaOffset")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.ishaOffset && <p className="text-red-400 text-sm mt-1">{errors.ishaOffset.message}</p>}
+                </div>
               </div>
             </div>
-          </div>
-
-          <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
-            {isSubmitting ? "Menyimpan..." : "Simpan Pengaturan"}
-          </Button>
-        </form>
-      </CardContent>
-    </Card>
+
+            <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+              {isSubmitting ? "Menyimpan..." : "Simpan Pengaturan"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+      <PrayerTimeOverrideSettings />
+      <PrayerScheduleImportSettings />
+    </div>
   );
 };
 
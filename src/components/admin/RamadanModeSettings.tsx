@@ -1,35 +1,135 @@
 import React, { useEffect } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { useAppSettings } from "@/contexts/AppSettingsContext"; // Import useAppSettings
+import SahurReminderSettings from "@/components/admin/SahurReminderSettings";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  DEFAULT_IMSAK_BEEP_LEAD_SECONDS,
+  DEFAULT_IMSAK_LEAD_MINUTES,
+  DEFAULT_IMSAK_OVERLAY_DURATION_SECONDS,
+} from "@/lib/prayerTimes";
+import { DEFAULT_IFTAR_COUNTDOWN_MINUTES } from "@/lib/iftar";
+import { RAMADAN_MODE_OPTIONS, RamadanMode, resolveRamadanMode } from "@/lib/ramadan";
+import {
+  DEFAULT_TARAWIH_COUNTDOWN_MINUTES,
+  DEFAULT_TARAWIH_DURATION_MINUTES,
+  DEFAULT_TARAWIH_RAKAAT,
+  DEFAULT_TARAWIH_START_OFFSET_MINUTES,
+  resolveTarawihRakaat,
+  TARAWIH_RAKAAT_OPTIONS,
+} from "@/lib/tarawih";
+
+const formatDay = (day: string) =>
+  format(new Date(day), "EEEE, dd MMMM yyyy", { locale: id }).replace("Minggu", "Ahad");
+
+const imsakFormSchema = z.object({
+  imsakLeadMinutes: z.coerce.number().int().min(0, "Tidak boleh negatif.").max(60, "Maksimal 60 menit.").default(DEFAULT_IMSAK_LEAD_MINUTES),
+  imsakFixedTime: z.string().regex(/^$|^([01]\d|2[0-3]):[0-5]\d$/, "Format waktu harus HH:mm.").optional(),
+  imsakOverlayDurationSeconds: z.coerce.number().int().min(1, "Minimal 1 detik.").max(600, "Maksimal 600 detik.").default(DEFAULT_IMSAK_OVERLAY_DURATION_SECONDS),
+  imsakBeepLeadSeconds: z.coerce.number().int().min(0, "Tidak boleh negatif.").max(3600, "Maksimal 3600 detik.").default(DEFAULT_IMSAK_BEEP_LEAD_SECONDS),
+});
+
+type ImsakFormValues = z.infer<typeof imsakFormSchema>;
+
+const tarawihFormSchema = z.object({
+  tarawihStartOffsetMinutes: z.coerce.number().int().min(0, "Tidak boleh negatif.").max(180, "Maksimal 180 menit.").default(DEFAULT_TARAWIH_START_OFFSET_MINUTES),
+  tarawihCountdownMinutes: z.coerce.number().int().min(0, "Tidak boleh negatif.").max(60, "Maksimal 60 menit.").default(DEFAULT_TARAWIH_COUNTDOWN_MINUTES),
+  tarawihDurationMinutes: z.coerce.number().int().min(0, "Tidak boleh negatif.").max(180, "Maksimal 180 menit.").default(DEFAULT_TARAWIH_DURATION_MINUTES),
+  tarawihRakaat: z.coerce.number().int().default(DEFAULT_TARAWIH_RAKAAT),
+});
+
+type TarawihFormValues = z.infer<typeof tarawihFormSchema>;
+
+const iftarFormSchema = z.object({
+  iftarCountdownMinutes: z.coerce.number().int().min(0, "Tidak boleh negatif.").max(60, "Maksimal 60 menit.").default(DEFAULT_IFTAR_COUNTDOWN_MINUTES),
+});
+
+type IftarFormValues = z.infer<typeof iftarFormSchema>;
 
 const RamadanModeSettings: React.FC = () => {
   const { settings, isLoadingSettings, refetchSettings } = useAppSettings(); // Use the new hook
-  const [isRamadanModeActive, setIsRamadanModeActive] = React.useState(false);
+  const { isRamadanModeActive, ramadanPeriod, tarawihWindow, iftarWindow } = usePrayerTimeline();
+  const [ramadanMode, setRamadanMode] = React.useState<RamadanMode>("auto");
+  const [fromPreviousEvening, setFromPreviousEvening] = React.useState(true);
   const [isLoading, setIsLoading] = React.useState(true);
 
+  const form = useForm<ImsakFormValues>({
+    resolver: zodResolver(imsakFormSchema),
+    defaultValues: {
+      imsakLeadMinutes: DEFAULT_IMSAK_LEAD_MINUTES,
+      imsakFixedTime: "",
+      imsakOverlayDurationSeconds: DEFAULT_IMSAK_OVERLAY_DURATION_SECONDS,
+      imsakBeepLeadSeconds: DEFAULT_IMSAK_BEEP_LEAD_SECONDS,
+    },
+  });
+
+  const { handleSubmit, register, setValue, watch, formState: { isSubmitting, errors } } = form;
+  const imsakFixedTime = watch("imsakFixedTime");
+
+  const tarawihForm = useForm<TarawihFormValues>({
+    resolver: zodResolver(tarawihFormSchema),
+    defaultValues: {
+      tarawihStartOffsetMinutes: DEFAULT_TARAWIH_START_OFFSET_MINUTES,
+      tarawihCountdownMinutes: DEFAULT_TARAWIH_COUNTDOWN_MINUTES,
+      tarawihDurationMinutes: DEFAULT_TARAWIH_DURATION_MINUTES,
+      tarawihRakaat: DEFAULT_TARAWIH_RAKAAT,
+    },
+  });
+  const tarawihErrors = tarawihForm.formState.errors;
+
+  const iftarForm = useForm<IftarFormValues>({
+    resolver: zodResolver(iftarFormSchema),
+    defaultValues: {
+      iftarCountdownMinutes: DEFAULT_IFTAR_COUNTDOWN_MINUTES,
+    },
+  });
+  const iftarErrors = iftarForm.formState.errors;
+
   useEffect(() => {
     if (!isLoadingSettings && settings) {
-      setIsRamadanModeActive(settings.is_ramadan_mode_active);
+      setRamadanMode(resolveRamadanMode(settings.ramadan_mode));
+      setFromPreviousEvening(settings.ramadan_mode_from_previous_evening ?? true);
+      setValue("imsakLeadMinutes", settings.imsak_lead_minutes ?? DEFAULT_IMSAK_LEAD_MINUTES);
+      setValue("imsakFixedTime", settings.imsak_fixed_time ? settings.imsak_fixed_time.slice(0, 5) : "");
+      setValue("imsakOverlayDurationSeconds", settings.imsak_overlay_duration_seconds ?? DEFAULT_IMSAK_OVERLAY_DURATION_SECONDS);
+      setValue("imsakBeepLeadSeconds", settings.imsak_beep_lead_seconds ?? DEFAULT_IMSAK_BEEP_LEAD_SECONDS);
+      tarawihForm.reset({
+        tarawihStartOffsetMinutes: settings.tarawih_start_offset_minutes ?? DEFAULT_TARAWIH_START_OFFSET_MINUTES,
+        tarawihCountdownMinutes: settings.tarawih_countdown_minutes ?? DEFAULT_TARAWIH_COUNTDOWN_MINUTES,
+        tarawihDurationMinutes: settings.tarawih_duration_minutes ?? DEFAULT_TARAWIH_DURATION_MINUTES,
+        tarawihRakaat: resolveTarawihRakaat(settings.tarawih_rakaat),
+      });
+      iftarForm.reset({
+        iftarCountdownMinutes: settings.iftar_countdown_minutes ?? DEFAULT_IFTAR_COUNTDOWN_MINUTES,
+      });
       setIsLoading(false);
     } else if (!isLoadingSettings && !settings) {
       // Handle case where settings might not be loaded (e.g., initial empty DB)
-      setIsRamadanModeActive(false);
+      setRamadanMode("auto");
       setIsLoading(false);
     }
-  }, [settings, isLoadingSettings]);
+  }, [settings, isLoadingSettings, setValue, tarawihForm, iftarForm]);
 
-  const handleToggleRamadanMode = async (checked: boolean) => {
-    setIsRamadanModeActive(checked);
+  const saveRamadanSettings = async (values: { ramadan_mode?: RamadanMode; ramadan_mode_from_previous_evening?: boolean }) => {
     const { error } = await supabase
       .from("app_settings")
       .upsert(
         {
           id: 1, // Always update the same row for global settings
-          is_ramadan_mode_active: checked,
+          ...values,
         },
         { onConflict: "id" }
       );
@@ -37,35 +137,303 @@ const RamadanModeSettings: React.FC = () => {
     if (error) {
       console.error("Error saving Ramadan mode setting:", error);
       toast.error("Gagal menyimpan pengaturan mode Ramadan.");
-      setIsRamadanModeActive(!checked); // Revert on error
+      return false;
+    }
+    refetchSettings(); // Manually refetch to ensure context is updated immediately
+    return true;
+  };
+
+  const handleChangeRamadanMode = async (value: string) => {
+    const previousMode = ramadanMode;
+    const mode = resolveRamadanMode(value);
+    setRamadanMode(mode);
+    if (await saveRamadanSettings({ ramadan_mode: mode })) {
+      toast.success(`Mode Ramadan: ${RAMADAN_MODE_OPTIONS.find((option) => option.value === mode)?.label}.`);
+    } else {
+      setRamadanMode(previousMode); // Revert on error
+    }
+  };
+
+  const handleToggleFromPreviousEvening = async (checked: boolean) => {
+    setFromPreviousEvening(checked);
+    if (await saveRamadanSettings({ ramadan_mode_from_previous_evening: checked })) {
+      toast.success(`Mulai malam sebelum 1 Ramadan ${checked ? "diaktifkan" : "dinonaktifkan"}.`);
+    } else {
+      setFromPreviousEvening(!checked); // Revert on error
+    }
+  };
+
+  const onSubmitImsak = async (values: ImsakFormValues) => {
+    const { error } = await supabase
+      .from("app_settings")
+      .upsert(
+        {
+          id: 1,
+          imsak_lead_minutes: values.imsakLeadMinutes,
+          imsak_fixed_time: values.imsakFixedTime || null,
+          imsak_overlay_duration_seconds: values.imsakOverlayDurationSeconds,
+          imsak_beep_lead_seconds: values.imsakBeepLeadSeconds,
+        },
+        { onConflict: "id" }
+      );
+
+    if (error) {
+      console.error("Error saving Imsak settings:", error);
+      toast.error("Gagal menyimpan pengaturan Imsak.");
+    } else {
+      toast.success("Pengaturan Imsak berhasil disimpan!");
+      refetchSettings();
+    }
+  };
+
+  const onSubmitIftar = async (values: IftarFormValues) => {
+    const { error } = await supabase
+      .from("app_settings")
+      .upsert(
+        {
+          id: 1,
+          iftar_countdown_minutes: values.iftarCountdownMinutes,
+        },
+        { onConflict: "id" }
+      );
+
+    if (error) {
+      console.error("Error saving iftar settings:", error);
+      toast.error("Gagal menyimpan pengaturan berbuka.");
+    } else {
+      toast.success("Pengaturan berbuka berhasil disimpan!");
+      refetchSettings();
+    }
+  };
+
+  const onSubmitTarawih = async (values: TarawihFormValues) => {
+    const { error } = await supabase
+      .from("app_settings")
+      .upsert(
+        {
+          id: 1,
+          tarawih_start_offset_minutes: values.tarawihStartOffsetMinutes,
+          tarawih_countdown_minutes: values.tarawihCountdownMinutes,
+          tarawih_duration_minutes: values.tarawihDurationMinutes,
+          tarawih_rakaat: resolveTarawihRakaat(values.tarawihRakaat),
+        },
+        { onConflict: "id" }
+      );
+
+    if (error) {
+      console.error("Error saving Tarawih settings:", error);
+      toast.error("Gagal menyimpan pengaturan Tarawih.");
     } else {
-      toast.success(`Mode Ramadan ${checked ? "diaktifkan" : "dinonaktifkan"}.`);
-      refetchSettings(); // Manually refetch to ensure context is updated immediately
+      toast.success("Pengaturan Tarawih berhasil disimpan!");
+      refetchSettings();
     }
   };
 
   return (
-    <Card className="bg-gray-800 text-white border-gray-700">
-      <CardHeader>
-        <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Mode Ramadan</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <p className="text-gray-400 mb-4">Aktifkan mode Ramadan untuk menampilkan waktu Imsak.</p>
-        <div className="flex items-center justify-between space-x-2">
-          <Label htmlFor="ramadan-mode" className="text-gray-300 text-lg">Aktifkan Mode Ramadan</Label>
-          {isLoading ? (
-            <div className="w-12 h-6 bg-gray-700 rounded-full animate-pulse"></div>
-          ) : (
-            <Switch
-              id="ramadan-mode"
-              checked={isRamadanModeActive}
-              onCheckedChange={handleToggleRamadanMode}
-              className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
-            />
-          )}
-        </div>
-      </CardContent>
-    </Card>
+    <div className="space-y-6">
+      <Card className="bg-gray-800 text-white border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold text-blue-300">Pengaturan Mode Ramadan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-400 mb-4">
+            Mode Ramadan menampilkan waktu Imsak dan jadwal Tarawih. Dalam mode otomatis, mode ini aktif sepanjang Ramadan menurut kalender Hijriah (termasuk penyesuaian hari dan hasil sidang isbat di pengaturan Kalender Hijriah).
+          </p>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="ramadan-mode" className="text-gray-300">Mode Ramadan</Label>
+              {isLoading ? (
+                <div className="h-10 bg-gray-700 rounded-md animate-pulse mt-1"></div>
+              ) : (
+                <Select value={ramadanMode} onValueChange={handleChangeRamadanMode}>
+                  <SelectTrigger id="ramadan-mode" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Mode" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    {RAMADAN_MODE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="flex items-center justify-between space-x-2">
+              <Label htmlFor="ramadan-from-previous-evening" className="text-gray-300 text-lg">Mulai Malam Sebelum 1 Ramadan (Tarawih)</Label>
+              <Switch
+                id="ramadan-from-previous-evening"
+                checked={fromPreviousEvening}
+                onCheckedChange={handleToggleFromPreviousEvening}
+                disabled={isLoading || ramadanMode !== "auto"}
+                className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
+              />
+            </div>
+            <div className="bg-gray-700 p-3 rounded-md text-sm text-gray-300 space-y-1">
+              <p>
+                Status hari ini:{" "}
+                <span className={isRamadanModeActive ? "text-green-400 font-semibold" : "text-gray-400 font-semibold"}>
+                  {isRamadanModeActive ? "Aktif" : "Nonaktif"}
+                </span>
+              </p>
+              {ramadanPeriod && (
+                <>
+                  <p>Ramadan {ramadanPeriod.hijriYear} H: {formatDay(ramadanPeriod.firstDay)} s.d. {formatDay(ramadanPeriod.lastDay)}</p>
+                  {ramadanMode === "auto" && (
+                    <p>
+                      Aktif otomatis:{" "}
+                      {fromPreviousEvening
+                        ? `malam ${formatDay(dayjs(ramadanPeriod.firstDay).subtract(1, "day").format("YYYY-MM-DD"))}`
+                        : formatDay(ramadanPeriod.firstDay)}
+                      {" "}s.d. {formatDay(ramadanPeriod.lastDay)}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmitImsak)} className="border-t border-gray-700 pt-6 mt-6 space-y-4">
+            <h3 className="text-xl font-semibold text-blue-300">Waktu Imsak</h3>
+            <div>
+              <Label htmlFor="imsakLeadMinutes" className="text-gray-300">Imsak Sebelum Subuh (Menit)</Label>
+              <Input
+                id="imsakLeadMinutes"
+                type="number"
+                {...register("imsakLeadMinutes")}
+                disabled={!!imsakFixedTime}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {errors.imsakLeadMinutes && <p className="text-red-400 text-sm mt-1">{errors.imsakLeadMinutes.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="imsakFixedTime" className="text-gray-300">Waktu Imsak Tetap (opsional)</Label>
+              <div className="flex gap-2 mt-1">
+                <Input
+                  id="imsakFixedTime"
+                  type="time"
+                  {...register("imsakFixedTime")}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+                {imsakFixedTime && (
+                  <Button type="button" variant="outline" onClick={() => setValue("imsakFixedTime", "")} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                    Hapus
+                  </Button>
+                )}
+              </div>
+              <p className="text-gray-400 text-sm mt-1">Jika diisi, Imsak selalu pada jam ini dan menit sebelum Subuh diabaikan. Jadwal manual per tanggal tetap diutamakan.</p>
+              {errors.imsakFixedTime && <p className="text-red-400 text-sm mt-1">{errors.imsakFixedTime.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="imsakOverlayDurationSeconds" className="text-gray-300">Durasi Tampilan Imsak (Detik)</Label>
+              <Input
+                id="imsakOverlayDurationSeconds"
+                type="number"
+                {...register("imsakOverlayDurationSeconds")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {errors.imsakOverlayDurationSeconds && <p className="text-red-400 text-sm mt-1">{errors.imsakOverlayDurationSeconds.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="imsakBeepLeadSeconds" className="text-gray-300">Beep Imsak Sebelum Waktu Imsak (Detik)</Label>
+              <Input
+                id="imsakBeepLeadSeconds"
+                type="number"
+                {...register("imsakBeepLeadSeconds")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              <p className="text-gray-400 text-sm mt-1">Isi 0 agar beep berbunyi tepat saat Imsak. Audio beep dipilih di pengaturan Audio.</p>
+              {errors.imsakBeepLeadSeconds && <p className="text-red-400 text-sm mt-1">{errors.imsakBeepLeadSeconds.message}</p>}
+            </div>
+            <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+              {isSubmitting ? "Menyimpan..." : "Simpan Pengaturan Imsak"}
+            </Button>
+          </form>
+
+          <form onSubmit={iftarForm.handleSubmit(onSubmitIftar)} className="border-t border-gray-700 pt-6 mt-6 space-y-4">
+            <h3 className="text-xl font-semibold text-blue-300">Berbuka Puasa</h3>
+            <p className="text-gray-400 text-sm">
+              Menjelang Maghrib pada hari puasa, layar menampilkan hitung mundur berbuka beserta doa berbuka, lalu berlanjut ke adzan dan iqomah Maghrib seperti biasa. Audio penanda berbuka dipilih di pengaturan Audio.
+            </p>
+            <div>
+              <Label htmlFor="iftarCountdownMinutes" className="text-gray-300">Hitung Mundur Sebelum Maghrib (Menit)</Label>
+              <Input
+                id="iftarCountdownMinutes"
+                type="number"
+                {...iftarForm.register("iftarCountdownMinutes")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              <p className="text-gray-400 text-sm mt-1">
+                Isi 0 untuk memakai hitung mundur adzan biasa.
+                {iftarWindow && ` Hari ini mulai pukul ${iftarWindow.countdownStart.format("HH:mm")}.`}
+              </p>
+              {iftarErrors.iftarCountdownMinutes && <p className="text-red-400 text-sm mt-1">{iftarErrors.iftarCountdownMinutes.message}</p>}
+            </div>
+            <Button type="submit" disabled={iftarForm.formState.isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+              {iftarForm.formState.isSubmitting ? "Menyimpan..." : "Simpan Pengaturan Berbuka"}
+            </Button>
+          </form>
+
+          <form onSubmit={tarawihForm.handleSubmit(onSubmitTarawih)} className="border-t border-gray-700 pt-6 mt-6 space-y-4">
+            <h3 className="text-xl font-semibold text-blue-300">Sholat Tarawih</h3>
+            <p className="text-gray-400 text-sm">
+              Layar menampilkan hitung mundur sebelum Tarawih beserta imam dan penceramah kultum (diatur di Jadwal Imam & Muadzin), lalu gelap selama Tarawih berlangsung.
+            </p>
+            <div>
+              <Label htmlFor="tarawihStartOffsetMinutes" className="text-gray-300">Mulai Setelah Adzan Isya (Menit)</Label>
+              <Input
+                id="tarawihStartOffsetMinutes"
+                type="number"
+                {...tarawihForm.register("tarawihStartOffsetMinutes")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {tarawihWindow && (
+                <p className="text-gray-400 text-sm mt-1">Tarawih malam ini pukul {tarawihWindow.start.format("HH:mm")}.</p>
+              )}
+              {tarawihErrors.tarawihStartOffsetMinutes && <p className="text-red-400 text-sm mt-1">{tarawihErrors.tarawihStartOffsetMinutes.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="tarawihCountdownMinutes" className="text-gray-300">Hitung Mundur Sebelum Tarawih (Menit)</Label>
+              <Input
+                id="tarawihCountdownMinutes"
+                type="number"
+                {...tarawihForm.register("tarawihCountdownMinutes")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {tarawihErrors.tarawihCountdownMinutes && <p className="text-red-400 text-sm mt-1">{tarawihErrors.tarawihCountdownMinutes.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="tarawihDurationMinutes" className="text-gray-300">Durasi Layar Gelap Selama Tarawih (Menit)</Label>
+              <Input
+                id="tarawihDurationMinutes"
+                type="number"
+                {...tarawihForm.register("tarawihDurationMinutes")}
+                className="bg-gray-700 border-gray-600 text-white mt-1"
+              />
+              {tarawihErrors.tarawihDurationMinutes && <p className="text-red-400 text-sm mt-1">{tarawihErrors.tarawihDurationMinutes.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="tarawihRakaat" className="text-gray-300">Jumlah Rakaat</Label>
+              <Select
+                value={String(tarawihForm.watch("tarawihRakaat"))}
+                onValueChange={(value) => tarawihForm.setValue("tarawihRakaat", Number(value))}
+              >
+                <SelectTrigger id="tarawihRakaat" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                  <SelectValue placeholder="Pilih Jumlah Rakaat" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 text-white border-gray-600">
+                  {TARAWIH_RAKAAT_OPTIONS.map((rakaat) => (
+                    <SelectItem key={rakaat} value={String(rakaat)}>{rakaat} Rakaat</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={tarawihForm.formState.isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+              {tarawihForm.formState.isSubmitting ? "Menyimpan..." : "Simpan Pengaturan Tarawih"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+      <SahurReminderSettings />
+    </div>
   );
 };
 
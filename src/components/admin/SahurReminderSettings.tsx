@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { Trash2, Edit, PlusCircle } from "lucide-react";
+import {
+  DEFAULT_SAHUR_MESSAGE,
+  DEFAULT_SAHUR_MINUTES_BEFORE_IMSAK,
+  DEFAULT_SAHUR_OVERLAY_DURATION_MINUTES,
+  describeSahurReminder,
+  SAHUR_TRIGGER_TYPES,
+  SahurReminder,
+  SahurTriggerType,
+} from "@/lib/sahur";
+
+interface MediaFile {
+  id: string;
+  title: string;
+  file_path: string;
+}
+
+const NO_AUDIO = "null";
+
+const sahurReminderFormSchema = z.object({
+  trigger_type: z.enum(["fixed", "before_imsak"]),
+  fixed_time: z.string().optional(),
+  minutes_before_imsak: z.coerce.number().int().min(1, "Minimal 1 menit.").max(300, "Maksimal 300 menit."),
+  audio_url: z.string().nullable(),
+  message: z.string().max(300, "Pesan terlalu panjang.").optional(),
+  overlay_duration_minutes: z.coerce.number().int().min(0, "Durasi tidak boleh negatif.").max(180, "Durasi maksimal 180 menit."),
+  is_active: z.boolean(),
+  display_order: z.coerce.number().int().min(0, "Urutan tidak boleh negatif."),
+}).refine((values) => values.trigger_type !== "fixed" || /^\d{2}:\d{2}$/.test(values.fixed_time ?? ""), {
+  message: "Format waktu harus HH:mm.",
+  path: ["fixed_time"],
+});
+
+type SahurReminderFormValues = z.infer<typeof sahurReminderFormSchema>;
+
+const DEFAULT_FORM_VALUES: SahurReminderFormValues = {
+  trigger_type: "fixed",
+  fixed_time: "03:00",
+  minutes_before_imsak: DEFAULT_SAHUR_MINUTES_BEFORE_IMSAK,
+  audio_url: null,
+  message: "",
+  overlay_duration_minutes: DEFAULT_SAHUR_OVERLAY_DURATION_MINUTES,
+  is_active: true,
+  display_order: 0,
+};
+
+const SahurReminderSettings: React.FC = () => {
+  const [reminders, setReminders] = useState<SahurReminder[]>([]);
+  const [availableAudioFiles, setAvailableAudioFiles] = useState<MediaFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingReminder, setEditingReminder] = useState<SahurReminder | null>(null);
+
+  const form = useForm<SahurReminderFormValues>({
+    resolver: zodResolver(sahurReminderFormSchema),
+    defaultValues: DEFAULT_FORM_VALUES,
+  });
+
+  const { handleSubmit, register, setValue, watch, reset, formState: { isSubmitting, errors } } = form;
+  const triggerType = watch("trigger_type");
+
+  const fetchReminders = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("sahur_reminders")
+      .select("*")
+      .order("display_order", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching sahur reminders:", error);
+      toast.error("Gagal memuat pengingat sahur.");
+    } else {
+      setReminders(data || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  const fetchAudioFiles = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("media_files")
+      .select("id, title, file_path")
+      .eq("file_type", "audio")
+      .eq("source_type", "upload")
+      .order("title", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching available audio files:", error);
+      toast.error("Gagal memuat daftar audio.");
+    } else {
+      setAvailableAudioFiles(data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReminders();
+    fetchAudioFiles();
+
+    const channel = supabase
+      .channel('sahur_reminders_admin_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sahur_reminders' }, (payload) => {
+        console.log('Sahur reminder change received!', payload);
+        fetchReminders();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchReminders, fetchAudioFiles]);
+
+  const handleAddReminder = () => {
+    setEditingReminder(null);
+    reset({ ...DEFAULT_FORM_VALUES, display_order: reminders.length });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditReminder = (reminder: SahurReminder) => {
+    setEditingReminder(reminder);
+    reset({
+      trigger_type: reminder.trigger_type,
+      fixed_time: reminder.fixed_time?.slice(0, 5) || DEFAULT_FORM_VALUES.fixed_time,
+      minutes_before_imsak: reminder.minutes_before_imsak ?? DEFAULT_SAHUR_MINUTES_BEFORE_IMSAK,
+      audio_url: reminder.audio_url,
+      message: reminder.message || "",
+      overlay_duration_minutes: reminder.overlay_duration_minutes,
+      is_active: reminder.is_active,
+      display_order: reminder.display_order,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteReminder = async (reminderId: string) => {
+    if (!window.confirm("Apakah Anda yakin ingin menghapus pengingat sahur ini?")) {
+      return;
+    }
+    const { error } = await supabase
+      .from("sahur_reminders")
+      .delete()
+      .eq("id", reminderId);
+
+    if (error) {
+      console.error("Error deleting sahur reminder:", error);
+      toast.error("Gagal menghapus pengingat sahur.");
+    } else {
+      toast.success("Pengingat sahur berhasil dihapus!");
+      fetchReminders();
+    }
+  };
+
+  const onSubmit = async (values: SahurReminderFormValues) => {
+    const payload = {
+      trigger_type: values.trigger_type,
+      fixed_time: values.trigger_type === "fixed" ? values.fixed_time : null,
+      minutes_before_imsak: values.trigger_type === "before_imsak" ? values.minutes_before_imsak : null,
+      audio_url: values.audio_url,
+      message: values.message?.trim() || null,
+      overlay_duration_minutes: values.overlay_duration_minutes,
+      is_active: values.is_active,
+      display_order: values.display_order,
+    };
+
+    const { error } = editingReminder
+      ? await supabase.from("sahur_reminders").update(payload).eq("id", editingReminder.id)
+      : await supabase.from("sahur_reminders").insert(payload);
+
+    if (error) {
+      console.error("Error saving sahur reminder:", error);
+      toast.error("Gagal menyimpan pengingat sahur.");
+    } else {
+      toast.success(editingReminder ? "Pengingat sahur berhasil diperbarui!" : "Pengingat sahur berhasil ditambahkan!");
+      setIsDialogOpen(false);
+      fetchReminders();
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 text-white border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-blue-300">Pengingat Sahur</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-400 mb-4">
+          Selama Mode Ramadan aktif, setiap pengingat memutar audionya sekali, menampilkan layar "Waktu Sahur" dengan hitung mundur ke Imsak, dan mengganti teks berjalan dengan pesannya sampai Imsak. Audio hanya diputar jika Master Switch audio aktif.
+        </p>
+        <Button onClick={handleAddReminder} className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white">
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Pengingat Sahur
+        </Button>
+
+        {isLoading ? (
+          <p className="text-gray-300 text-center">Memuat pengingat sahur...</p>
+        ) : (
+          <div className="space-y-3">
+            {reminders.length === 0 ? (
+              <p className="text-gray-400 text-center">Belum ada pengingat sahur.</p>
+            ) : (
+              reminders.map((reminder) => (
+                <div key={reminder.id} className="flex items-center justify-between bg-gray-700 p-3 rounded-md shadow-sm">
+                  <div>
+                    <p className="font-medium text-lg text-blue-200">
+                      {describeSahurReminder(reminder)}
+                      {!reminder.is_active && <span className="text-sm text-gray-400"> (nonaktif)</span>}
+                    </p>
+                    <p className="text-sm text-gray-300">{reminder.message || DEFAULT_SAHUR_MESSAGE}</p>
+                    <p className="text-xs text-gray-400">
+                      Layar Waktu Sahur: {reminder.overlay_duration_minutes} menit | Audio: {reminder.audio_url ? reminder.audio_url.split('/').pop() : "Tidak Ada"}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="icon" onClick={() => handleEditReminder(reminder)} className="text-blue-400 border-blue-400 hover:bg-blue-400 hover:text-white">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => handleDeleteReminder(reminder.id)} className="text-red-400 border-red-400 hover:bg-red-400 hover:text-white">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="bg-gray-800 text-white border-gray-700 max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-blue-300">{editingReminder ? "Edit Pengingat Sahur" : "Tambah Pengingat Sahur"}</DialogTitle>
+              <DialogDescription>
+                Pilih jam tetap atau sejumlah menit sebelum Imsak. Pengingat setelah Imsak tidak dijalankan.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="sahur_trigger_type" className="text-gray-300">Waktu Pengingat</Label>
+                  <Select value={triggerType} onValueChange={(value) => setValue("trigger_type", value as SahurTriggerType)}>
+                    <SelectTrigger id="sahur_trigger_type" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue placeholder="Pilih Waktu Pengingat" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 text-white border-gray-600">
+                      {SAHUR_TRIGGER_TYPES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {triggerType === "fixed" ? (
+                  <div>
+                    <Label htmlFor="sahur_fixed_time" className="text-gray-300">Jam</Label>
+                    <Input
+                      id="sahur_fixed_time"
+                      type="time"
+                      {...register("fixed_time")}
+                      className="bg-gray-700 border-gray-600 text-white mt-1"
+                    />
+                    {errors.fixed_time && <p className="text-red-400 text-sm mt-1">{errors.fixed_time.message}</p>}
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="sahur_minutes_before_imsak" className="text-gray-300">Menit Sebelum Imsak</Label>
+                    <Input
+                      id="sahur_minutes_before_imsak"
+                      type="number"
+                      {...register("minutes_before_imsak")}
+                      className="bg-gray-700 border-gray-600 text-white mt-1"
+                    />
+                    {errors.minutes_before_imsak && <p className="text-red-400 text-sm mt-1">{errors.minutes_before_imsak.message}</p>}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="sahur_message" className="text-gray-300">Pesan Teks Berjalan</Label>
+                <Textarea
+                  id="sahur_message"
+                  {...register("message")}
+                  className="bg-gray-700 border-gray-600 text-white mt-1"
+                  placeholder={DEFAULT_SAHUR_MESSAGE}
+                />
+                {errors.message && <p className="text-red-400 text-sm mt-1">{errors.message.message}</p>}
+              </div>
+
+              <div>
+                <Label htmlFor="sahur_audio_url" className="text-gray-300">Audio Pengingat</Label>
+                <Select
+                  value={watch("audio_url") || NO_AUDIO}
+                  onValueChange={(value) => setValue("audio_url", value === NO_AUDIO ? null : value)}
+                >
+                  <SelectTrigger id="sahur_audio_url" className="w-full bg-gray-700 border-gray-600 text-white mt-1">
+                    <SelectValue placeholder="Pilih Audio Pengingat" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 text-white border-gray-600">
+                    <SelectItem value={NO_AUDIO}>Tidak Ada</SelectItem>
+                    {availableAudioFiles.map((audio) => (
+                      <SelectItem key={audio.id} value={supabase.storage.from('audio').getPublicUrl(audio.file_path).data?.publicUrl || ""}>
+                        {audio.title || audio.file_path.split('/').pop()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="sahur_overlay_duration_minutes" className="text-gray-300">Durasi Layar Waktu Sahur (menit)</Label>
+                  <Input
+                    id="sahur_overlay_duration_minutes"
+                    type="number"
+                    {...register("overlay_duration_minutes")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.overlay_duration_minutes && <p className="text-red-400 text-sm mt-1">{errors.overlay_duration_minutes.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="sahur_display_order" className="text-gray-300">Urutan</Label>
+                  <Input
+                    id="sahur_display_order"
+                    type="number"
+                    {...register("display_order")}
+                    className="bg-gray-700 border-gray-600 text-white mt-1"
+                  />
+                  {errors.display_order && <p className="text-red-400 text-sm mt-1">{errors.display_order.message}</p>}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between space-x-2">
+                <Label htmlFor="sahur_is_active" className="text-gray-300">Aktif</Label>
+                <Switch
+                  id="sahur_is_active"
+                  checked={watch("is_active")}
+                  onCheckedChange={(checked) => setValue("is_active", checked)}
+                  className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-gray-600"
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="text-gray-300 border-gray-600 hover:bg-gray-700">
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {isSubmitting ? "Menyimpan..." : (editingReminder ? "Simpan Perubahan" : "Tambah Pengingat Sahur")}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SahurReminderSettings;
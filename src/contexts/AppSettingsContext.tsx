@@ -2,22 +2,50 @@ import React, { createContext, useContext, useState, useEffect, useCallback, use
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { RealtimeChannel } from "@supabase/supabase-js";
+import { setMasjidTimeZone } from "@/lib/clock";
 
-interface AppSettings {
+export interface AppSettings {
   id: number;
+  time_zone: string | null; // IANA zone, e.g. "Asia/Makassar". Null uses the device's zone
   latitude: number;
   longitude: number;
   calculation_method: string;
-  is_ramadan_mode_active: boolean;
+  asr_madhab: string; // "Shafi" | "Hanafi"
+  high_latitude_rule: string; // "MiddleOfTheNight" | "SeventhOfTheNight" | "TwilightAngle" | "Recommended"
+  custom_fajr_angle: number | null; // Only used with the "Custom" calculation method
+  custom_isha_angle: number | null;
+  ihtiyat_active: boolean;
+  ihtiyat_minutes: number;
+  is_ramadan_mode_active: boolean; // Manual switch of older versions, replaced by ramadan_mode
+  ramadan_mode: string; // "auto" | "on" | "off"
+  ramadan_mode_from_previous_evening: boolean; // In auto mode, start the evening features the day before 1 Ramadan
+  tarawih_start_offset_minutes: number; // Minutes after the Isya adhan
+  tarawih_countdown_minutes: number;
+  tarawih_duration_minutes: number; // Length of the dark screen while Tarawih is prayed
+  tarawih_rakaat: number; // 8 or 20
+  iftar_countdown_minutes: number; // Minutes before Maghrib on fasting days, 0 turns the iftar countdown off
   fajr_offset: number;
   dhuhr_offset: number;
   asr_offset: number;
   maghrib_offset: number;
   isha_offset: number;
   imsak_offset: number;
+  imsak_lead_minutes: number; // Minutes before Subuh
+  imsak_fixed_time: string | null; // HH:mm, replaces the lead time when set
+  imsak_overlay_duration_seconds: number;
+  imsak_beep_lead_seconds: number; // Seconds before Imsak the beep plays
   running_text: string;
   background_image_url: string | null;
   background_color: string;
+  // Optional indicators under the prayer times
+  show_dhuha_times: boolean;
+  show_zawal_time: boolean;
+  show_forbidden_times: boolean;
+  show_last_third_of_night: boolean;
+  tomorrow_schedule_active: boolean; // Show tomorrow's prayer times after Isya
+  tomorrow_schedule_after_isha_minutes: number;
+  hijri_calendar_variant: string; // Intl calendar, see HIJRI_CALENDAR_VARIANTS
+  hijri_day_adjustment: number; // -2..+2 days
   murottal_active: boolean;
   tarhim_active: boolean;
   iqomah_countdown_duration: number;
@@ -35,6 +63,7 @@ interface AppSettings {
   adhan_beep_audio_url: string | null;
   iqomah_beep_audio_url: string | null;
   imsak_beep_audio_url: string | null;
+  iftar_chime_audio_url: string | null; // Played as the iftar countdown starts
   masjid_name: string | null;
   masjid_logo_url: string | null;
   masjid_address: string | null;
@@ -53,6 +82,27 @@ interface AppSettings {
   murottal_pre_adhan_duration_maghrib: number;
   murottal_pre_adhan_duration_isha: number;
   murottal_pre_adhan_duration_imsak: number;
+  // Per-prayer durations, null falls back to the shared default
+  pre_adhan_countdown_seconds_fajr: number | null;
+  pre_adhan_countdown_seconds_dhuhr: number | null;
+  pre_adhan_countdown_seconds_asr: number | null;
+  pre_adhan_countdown_seconds_maghrib: number | null;
+  pre_adhan_countdown_seconds_isha: number | null;
+  adhan_duration_seconds_fajr: number | null;
+  adhan_duration_seconds_dhuhr: number | null;
+  adhan_duration_seconds_asr: number | null;
+  adhan_duration_seconds_maghrib: number | null;
+  adhan_duration_seconds_isha: number | null;
+  iqomah_countdown_duration_fajr: number | null;
+  iqomah_countdown_duration_dhuhr: number | null;
+  iqomah_countdown_duration_asr: number | null;
+  iqomah_countdown_duration_maghrib: number | null;
+  iqomah_countdown_duration_isha: number | null;
+  dark_screen_duration_minutes_fajr: number | null;
+  dark_screen_duration_minutes_dhuhr: number | null;
+  dark_screen_duration_minutes_asr: number | null;
+  dark_screen_duration_minutes_maghrib: number | null;
+  dark_screen_duration_minutes_isha: number | null;
 }
 
 interface AppSettingsContextType {
@@ -83,6 +133,7 @@ export const AppSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ c
         toast.error("Gagal memuat pengaturan aplikasi.");
         setSettings(null);
       } else if (data) {
+        setMasjidTimeZone(data.time_zone); // Before the settings reach the display components
         setSettings(data as AppSettings);
         console.log("AppSettingsProvider: Settings loaded:", data);
       } else {
@@ -90,19 +141,45 @@ export const AppSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ c
         console.log("AppSettingsProvider: No settings found, initializing with defaults.");
         const defaultSettings: AppSettings = {
           id: 1,
+          time_zone: null,
           latitude: -6.2088,
           longitude: 106.8456,
           calculation_method: "MuslimWorldLeague",
+          asr_madhab: "Shafi",
+          high_latitude_rule: "MiddleOfTheNight",
+          custom_fajr_angle: 20,
+          custom_isha_angle: 18,
+          ihtiyat_active: false,
+          ihtiyat_minutes: 2,
           is_ramadan_mode_active: false,
+          ramadan_mode: "auto",
+          ramadan_mode_from_previous_evening: true,
+          tarawih_start_offset_minutes: 30,
+          tarawih_countdown_minutes: 10,
+          tarawih_duration_minutes: 60,
+          tarawih_rakaat: 8,
+          iftar_countdown_minutes: 10,
           fajr_offset: 0,
           dhuhr_offset: 0,
           asr_offset: 0,
           maghrib_offset: 0,
           isha_offset: 0,
           imsak_offset: 0,
+          imsak_lead_minutes: 10,
+          imsak_fixed_time: null,
+          imsak_overlay_duration_seconds: 10,
+          imsak_beep_lead_seconds: 0,
           running_text: "Selamat datang di Masjid Agung Al-Falah. Mari tingkatkan iman dan taqwa kita. Jangan lupa matikan ponsel saat sholat. Semoga Allah menerima amal ibadah kita. Aamiin.",
           background_image_url: null,
           background_color: "#0A0A0A",
+          show_dhuha_times: false,
+          show_zawal_time: false,
+          show_forbidden_times: false,
+          show_last_third_of_night: false,
+          tomorrow_schedule_active: false,
+          tomorrow_schedule_after_isha_minutes: 30,
+          hijri_calendar_variant: "islamic",
+          hijri_day_adjustment: 0,
           murottal_active: false,
           tarhim_active: false,
           iqomah_countdown_duration: 300,
@@ -120,6 +197,7 @@ export const AppSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ c
           adhan_beep_audio_url: null,
           iqomah_beep_audio_url: null,
           imsak_beep_audio_url: null,
+          iftar_chime_audio_url: null,
           masjid_name: "",
           masjid_logo_url: null,
           masjid_address: null,
@@ -138,6 +216,26 @@ export const AppSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ c
           murottal_pre_adhan_duration_maghrib: 10,
           murottal_pre_adhan_duration_isha: 10,
           murottal_pre_adhan_duration_imsak: 10,
+          pre_adhan_countdown_seconds_fajr: null,
+          pre_adhan_countdown_seconds_dhuhr: null,
+          pre_adhan_countdown_seconds_asr: null,
+          pre_adhan_countdown_seconds_maghrib: null,
+          pre_adhan_countdown_seconds_isha: null,
+          adhan_duration_seconds_fajr: null,
+          adhan_duration_seconds_dhuhr: null,
+          adhan_duration_seconds_asr: null,
+          adhan_duration_seconds_maghrib: null,
+          adhan_duration_seconds_isha: null,
+          iqomah_countdown_duration_fajr: null,
+          iqomah_countdown_duration_dhuhr: null,
+          iqomah_countdown_duration_asr: null,
+          iqomah_countdown_duration_maghrib: null,
+          iqomah_countdown_duration_isha: null,
+          dark_screen_duration_minutes_fajr: null,
+          dark_screen_duration_minutes_dhuhr: null,
+          dark_screen_duration_minutes_asr: null,
+          dark_screen_duration_minutes_maghrib: null,
+          dark_screen_duration_minutes_isha: null,
         };
         setSettings(defaultSettings);
         // Optionally, upsert default settings to DB if they don't exist
@@ -0,0 +1,95 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react";
+import dayjs from "dayjs";
+import { supabase } from "@/lib/supabase";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { calculateEidTimeline, EidPrayer, EidTimeline } from "@/lib/eidPrayer";
+
+interface EidPrayerContextType {
+  // Today's Ied prayer, or tomorrow's so its takbir plays tonight
+  eidTimeline: EidTimeline | null;
+  isLoading: boolean;
+}
+
+const EidPrayerContext = createContext<EidPrayerContextType | undefined>(undefined);
+
+/**
+ * Shared Eid prayer schedule for the overlays and the audio scheduler. Only
+ * today's and tomorrow's rows of eid_prayers are loaded; tomorrow's gets
+ * today's prayer timeline as its eve, for the takbir after Maghrib.
+ */
+export const EidPrayerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { timeline, currentDay } = usePrayerTimeline();
+  const [eidPrayers, setEidPrayers] = useState<EidPrayer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const fetchEidPrayers = useCallback(async () => {
+    try {
+      const tomorrow = dayjs(currentDay).add(1, "day").format("YYYY-MM-DD");
+      const { data, error } = await supabase
+        .from("eid_prayers")
+        .select("*")
+        .gte("prayer_date", currentDay)
+        .lte("prayer_date", tomorrow)
+        .order("prayer_date", { ascending: true });
+
+      if (error) {
+        console.error("EidPrayerProvider: Error fetching Eid prayers:", error);
+        setEidPrayers([]);
+      } else {
+        setEidPrayers(data || []);
+        console.log("EidPrayerProvider: Eid prayers loaded:", data);
+      }
+    } catch (err) {
+      console.error("EidPrayerProvider: Unexpected error fetching Eid prayers:", err);
+      setEidPrayers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentDay]);
+
+  useEffect(() => {
+    fetchEidPrayers();
+
+    if (!channelRef.current) {
+      channelRef.current = supabase
+        .channel('eid_prayers_changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'eid_prayers' }, (payload) => {
+          console.log('EidPrayerProvider: Eid prayer change received!', payload);
+          fetchEidPrayers();
+        })
+        .subscribe();
+      console.log("EidPrayerProvider: Subscribed to channel 'eid_prayers_changes'.");
+    }
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        console.log("EidPrayerProvider: Unsubscribed from channel 'eid_prayers_changes'.");
+        channelRef.current = null;
+      }
+    };
+  }, [fetchEidPrayers]);
+
+  const eidTimeline = useMemo<EidTimeline | null>(() => {
+    const today = eidPrayers.find((eid) => eid.prayer_date === currentDay);
+    if (today) return calculateEidTimeline(today);
+    const tomorrow = eidPrayers.find((eid) => eid.prayer_date !== currentDay);
+    return tomorrow ? calculateEidTimeline(tomorrow, timeline) : null;
+  }, [eidPrayers, currentDay, timeline]);
+
+  return (
+    <EidPrayerContext.Provider value={{ eidTimeline, isLoading }}>
+      {children}
+    </EidPrayerContext.Provider>
+  );
+};
+
+export const useEidPrayer = () => {
+  const context = useContext(EidPrayerContext);
+  if (context === undefined) {
+    throw new Error("useEidPrayer must be used within an EidPrayerProvider");
+  }
+  return context;
+};
@@ -0,0 +1,103 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react";
+import dayjs from "dayjs";
+import { supabase } from "@/lib/supabase";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import {
+  clampHijriDayAdjustment,
+  formatHijriDate,
+  HijriCalendarConfig,
+  HijriDate,
+  HijriMonthOverride,
+  resolveHijriCalendarVariant,
+  toHijriDate,
+} from "@/lib/hijri";
+
+interface HijriCalendarContextType {
+  config: HijriCalendarConfig;
+  monthOverrides: HijriMonthOverride[]; // Ordered by start date
+  refetchMonthOverrides: () => void;
+  toHijri: (date: dayjs.Dayjs | string) => HijriDate;
+  formatHijri: (date: dayjs.Dayjs | string) => string;
+}
+
+const HijriCalendarContext = createContext<HijriCalendarContextType | undefined>(undefined);
+
+/**
+ * Shared Hijri calendar: the masjid's calendar variant and day adjustment plus
+ * the month starts entered after sidang isbat. Every Hijri date on the display
+ * and in the admin panel is converted through it.
+ */
+export const HijriCalendarProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { settings } = useAppSettings();
+  const [monthOverrides, setMonthOverrides] = useState<HijriMonthOverride[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const fetchMonthOverrides = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("hijri_month_overrides")
+        .select("*")
+        .order("start_date", { ascending: true });
+
+      if (error) {
+        console.error("HijriCalendarProvider: Error fetching Hijri month overrides:", error);
+        setMonthOverrides([]);
+        return;
+      }
+
+      setMonthOverrides(data || []);
+      console.log("HijriCalendarProvider: Hijri month overrides loaded:", data);
+    } catch (err) {
+      console.error("HijriCalendarProvider: Unexpected error fetching Hijri month overrides:", err);
+      setMonthOverrides([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMonthOverrides();
+
+    if (!channelRef.current) {
+      channelRef.current = supabase
+        .channel('hijri_month_overrides_changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'hijri_month_overrides' }, (payload) => {
+          console.log('HijriCalendarProvider: Hijri month override change received!', payload);
+          fetchMonthOverrides();
+        })
+        .subscribe();
+      console.log("HijriCalendarProvider: Subscribed to channel 'hijri_month_overrides_changes'.");
+    }
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        console.log("HijriCalendarProvider: Unsubscribed from channel 'hijri_month_overrides_changes'.");
+        channelRef.current = null;
+      }
+    };
+  }, [fetchMonthOverrides]);
+
+  const variant = resolveHijriCalendarVariant(settings?.hijri_calendar_variant);
+  const dayAdjustment = clampHijriDayAdjustment(settings?.hijri_day_adjustment);
+
+  const value = useMemo<HijriCalendarContextType>(() => {
+    const config: HijriCalendarConfig = { variant, dayAdjustment, monthOverrides };
+    return {
+      config,
+      monthOverrides,
+      refetchMonthOverrides: fetchMonthOverrides,
+      toHijri: (date) => toHijriDate(date, config),
+      formatHijri: (date) => formatHijriDate(date, config),
+    };
+  }, [variant, dayAdjustment, monthOverrides, fetchMonthOverrides]);
+
+  return <HijriCalendarContext.Provider value={value}>{children}</HijriCalendarContext.Provider>;
+};
+
+export const useHijriCalendar = () => {
+  const context = useContext(HijriCalendarContext);
+  if (context === undefined) {
+    throw new Error("useHijriCalendar must be used within a HijriCalendarProvider");
+  }
+  return context;
+};
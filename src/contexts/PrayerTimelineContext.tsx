@@ -0,0 +1,190 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react";
+import dayjs from "dayjs";
+import { supabase } from "@/lib/supabase";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { useHijriCalendar } from "@/contexts/HijriCalendarContext";
+import { useCurrentDay } from "@/hooks/use-current-day";
+import { calculatePrayerTimeline, PrayerTimeline, PrayerTimeOverride } from "@/lib/prayerTimes";
+import { masjidDate } from "@/lib/clock";
+import { getRamadanPeriod, isRamadanEveOn, isRamadanModeActiveOn, isTarawihNightOn, RamadanPeriod } from "@/lib/ramadan";
+import { calculateTarawihWindow, TarawihWindow } from "@/lib/tarawih";
+import { calculateIftarWindow, IftarWindow } from "@/lib/iftar";
+import { JumuahPhase } from "@/lib/jumuah";
+
+interface PrayerTimelineContextType {
+  timeline: PrayerTimeline | null;
+  tomorrowTimeline: PrayerTimeline | null; // For the Subuh after Isya and the schedule shown after Isya
+  currentDay: string; // YYYY-MM-DD
+  // Today's fasting-day Ramadan mode, or the evening before 1 Ramadan when that is enabled
+  isRamadanModeActive: boolean;
+  ramadanPeriod: RamadanPeriod | null; // The current or next Ramadan
+  tarawihWindow: TarawihWindow | null; // Tonight's Tarawih, null when there is none
+  iftarWindow: IftarWindow | null; // Today's iftar countdown, null when not fasting
+  jumuahPhases: JumuahPhase[]; // The configured Friday timeline, empty for the default one
+  isLoading: boolean;
+}
+
+const PrayerTimelineContext = createContext<PrayerTimelineContextType | undefined>(undefined);
+
+/**
+ * Shared source of the day's adjusted prayer timeline, so every display
+ * component and the audio scheduler work from the same times. The timeline is
+ * recalculated when the settings, the day's override or the Jum'at phases change, and again at
+ * local midnight. Tomorrow's timeline is kept alongside for the evening.
+ * Ramadan mode and the Tarawih nights are resolved per day from the Hijri
+ * calendar unless forced.
+ */
+export const PrayerTimelineProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { settings, isLoadingSettings } = useAppSettings();
+  const { config: hijriConfig } = useHijriCalendar();
+  const currentDay = useCurrentDay();
+  const [overrides, setOverrides] = useState<Record<string, PrayerTimeOverride>>({});
+  const [jumuahPhases, setJumuahPhases] = useState<JumuahPhase[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const jumuahChannelRef = useRef<RealtimeChannel | null>(null);
+
+  const fetchOverrides = useCallback(async () => {
+    try {
+      const tomorrow = dayjs(currentDay).add(1, "day").format("YYYY-MM-DD");
+      const { data, error } = await supabase
+        .from("prayer_time_overrides")
+        .select("*")
+        .gte("override_date", currentDay)
+        .lte("override_date", tomorrow);
+
+      if (error) {
+        console.error("PrayerTimelineProvider: Error fetching prayer time overrides:", error);
+        setOverrides({});
+        return;
+      }
+
+      const byDate: Record<string, PrayerTimeOverride> = {};
+      (data || []).forEach((row: PrayerTimeOverride) => {
+        byDate[row.override_date] = row;
+      });
+      setOverrides(byDate);
+      console.log("PrayerTimelineProvider: Prayer time overrides loaded:", byDate);
+    } catch (err) {
+      console.error("PrayerTimelineProvider: Unexpected error fetching prayer time overrides:", err);
+      setOverrides({});
+    }
+  }, [currentDay]);
+
+  useEffect(() => {
+    fetchOverrides();
+
+    if (!channelRef.current) {
+      channelRef.current = supabase
+        .channel('prayer_time_overrides_changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'prayer_time_overrides' }, (payload) => {
+          console.log('PrayerTimelineProvider: Prayer time override change received!', payload);
+          fetchOverrides();
+        })
+        .subscribe();
+      console.log("PrayerTimelineProvider: Subscribed to channel 'prayer_time_overrides_changes'.");
+    }
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        console.log("PrayerTimelineProvider: Unsubscribed from channel 'prayer_time_overrides_changes'.");
+        channelRef.current = null;
+      }
+    };
+  }, [fetchOverrides]);
+
+  const fetchJumuahPhases = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("jumuah_phases")
+        .select("*")
+        .order("display_order", { ascending: true });
+
+      if (error) {
+        console.error("PrayerTimelineProvider: Error fetching Jum'at phases:", error);
+        setJumuahPhases([]);
+      } else {
+        setJumuahPhases(data || []);
+        console.log("PrayerTimelineProvider: Jum'at phases loaded:", data);
+      }
+    } catch (err) {
+      console.error("PrayerTimelineProvider: Unexpected error fetching Jum'at phases:", err);
+      setJumuahPhases([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJumuahPhases();
+
+    if (!jumuahChannelRef.current) {
+      jumuahChannelRef.current = supabase
+        .channel('jumuah_phases_changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'jumuah_phases' }, (payload) => {
+          console.log("PrayerTimelineProvider: Jum'at phase change received!", payload);
+          fetchJumuahPhases();
+        })
+        .subscribe();
+      console.log("PrayerTimelineProvider: Subscribed to channel 'jumuah_phases_changes'.");
+    }
+
+    return () => {
+      if (jumuahChannelRef.current) {
+        supabase.removeChannel(jumuahChannelRef.current);
+        console.log("PrayerTimelineProvider: Unsubscribed from channel 'jumuah_phases_changes'.");
+        jumuahChannelRef.current = null;
+      }
+    };
+  }, [fetchJumuahPhases]);
+
+  const tomorrowDay = dayjs(currentDay).add(1, "day").format("YYYY-MM-DD");
+  const todayOverride = overrides[currentDay] ?? null;
+  const tomorrowOverride = overrides[tomorrowDay] ?? null;
+
+  const timeline = useMemo<PrayerTimeline | null>(() => {
+    if (!settings) return null;
+    try {
+      const isRamadanDay = isRamadanModeActiveOn(currentDay, settings, hijriConfig);
+      return calculatePrayerTimeline({ ...settings, is_ramadan_mode_active: isRamadanDay }, masjidDate(currentDay), todayOverride, jumuahPhases);
+    } catch (err) {
+      console.error("PrayerTimelineProvider: Error calculating prayer timeline:", err);
+      return null;
+    }
+  }, [settings, hijriConfig, currentDay, todayOverride, jumuahPhases]);
+
+  const tomorrowTimeline = useMemo<PrayerTimeline | null>(() => {
+    if (!settings) return null;
+    try {
+      const isRamadanDay = isRamadanModeActiveOn(tomorrowDay, settings, hijriConfig);
+      return calculatePrayerTimeline({ ...settings, is_ramadan_mode_active: isRamadanDay }, masjidDate(tomorrowDay), tomorrowOverride, jumuahPhases);
+    } catch (err) {
+      console.error("PrayerTimelineProvider: Error calculating tomorrow's prayer timeline:", err);
+      return null;
+    }
+  }, [settings, hijriConfig, tomorrowDay, tomorrowOverride, jumuahPhases]);
+
+  const isRamadanModeActive = !!timeline?.isRamadanModeActive || (!!settings && isRamadanEveOn(currentDay, settings, hijriConfig));
+  const ramadanPeriod = useMemo(() => getRamadanPeriod(currentDay, hijriConfig), [currentDay, hijriConfig]);
+  const tarawihWindow = useMemo<TarawihWindow | null>(() => {
+    if (!settings || !timeline || !isTarawihNightOn(currentDay, settings, hijriConfig)) return null;
+    return calculateTarawihWindow(timeline, settings);
+  }, [settings, timeline, currentDay, hijriConfig]);
+  const iftarWindow = useMemo<IftarWindow | null>(
+    () => (settings && timeline ? calculateIftarWindow(timeline, settings) : null),
+    [settings, timeline],
+  );
+
+  return (
+    <PrayerTimelineContext.Provider value={{ timeline, tomorrowTimeline, currentDay, isRamadanModeActive, ramadanPeriod, tarawihWindow, iftarWindow, jumuahPhases, isLoading: isLoadingSettings }}>
+      {children}
+    </PrayerTimelineContext.Provider>
+  );
+};
+
+export const usePrayerTimeline = () => {
+  const context = useContext(PrayerTimelineContext);
+  if (context === undefined) {
+    throw new Error("usePrayerTimeline must be used within a PrayerTimelineProvider");
+  }
+  return context;
+};
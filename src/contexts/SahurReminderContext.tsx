@@ -0,0 +1,88 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { supabase } from "@/lib/supabase";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { getSahurReminderEvents, SahurReminder, SahurReminderEvent } from "@/lib/sahur";
+
+interface SahurReminderContextType {
+  sahurReminders: SahurReminderEvent[]; // Today's reminders before Imsak, empty outside Ramadan mode
+  isLoading: boolean;
+}
+
+const SahurReminderContext = createContext<SahurReminderContextType | undefined>(undefined);
+
+/**
+ * Shared sahur reminders for the overlay, the running text and the audio
+ * scheduler, placed on today's timeline so "minutes before Imsak" follows the
+ * day's Imsak time.
+ */
+export const SahurReminderProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { timeline } = usePrayerTimeline();
+  const [reminders, setReminders] = useState<SahurReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const fetchReminders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sahur_reminders")
+        .select("*")
+        .order("display_order", { ascending: true });
+
+      if (error) {
+        console.error("SahurReminderProvider: Error fetching sahur reminders:", error);
+        setReminders([]);
+      } else {
+        setReminders(data || []);
+        console.log("SahurReminderProvider: Sahur reminders loaded:", data);
+      }
+    } catch (err) {
+      console.error("SahurReminderProvider: Unexpected error fetching sahur reminders:", err);
+      setReminders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReminders();
+
+    if (!channelRef.current) {
+      channelRef.current = supabase
+        .channel('sahur_reminders_changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'sahur_reminders' }, (payload) => {
+          console.log('SahurReminderProvider: Sahur reminder change received!', payload);
+          fetchReminders();
+        })
+        .subscribe();
+      console.log("SahurReminderProvider: Subscribed to channel 'sahur_reminders_changes'.");
+    }
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        console.log("SahurReminderProvider: Unsubscribed from channel 'sahur_reminders_changes'.");
+        channelRef.current = null;
+      }
+    };
+  }, [fetchReminders]);
+
+  const sahurReminders = useMemo(
+    () => (timeline ? getSahurReminderEvents(timeline, reminders) : []),
+    [timeline, reminders],
+  );
+
+  return (
+    <SahurReminderContext.Provider value={{ sahurReminders, isLoading }}>
+      {children}
+    </SahurReminderContext.Provider>
+  );
+};
+
+export const useSahurReminders = () => {
+  const context = useContext(SahurReminderContext);
+  if (context === undefined) {
+    throw new Error("useSahurReminders must be used within a SahurReminderProvider");
+  }
+  return context;
+};
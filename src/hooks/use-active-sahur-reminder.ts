@@ -0,0 +1,20 @@
+import * as React from "react";
+import { getClockTickMs, masjidNow } from "@/lib/clock";
+import { getActiveSahurReminder, SahurReminderEvent } from "@/lib/sahur";
+import { useSahurReminders } from "@/contexts/SahurReminderContext";
+
+// The sahur reminder under way, from its time until Imsak, checked every tick. Null outside sahur time.
+export function useActiveSahurReminder() {
+  const { sahurReminders } = useSahurReminders();
+  const [activeReminder, setActiveReminder] = React.useState<SahurReminderEvent | null>(() =>
+    getActiveSahurReminder(sahurReminders, masjidNow()));
+
+  React.useEffect(() => {
+    const updateReminder = () => setActiveReminder(getActiveSahurReminder(sahurReminders, masjidNow()));
+    updateReminder();
+    const interval = setInterval(updateReminder, getClockTickMs());
+    return () => clearInterval(interval);
+  }, [sahurReminders]);
+
+  return activeReminder;
+}
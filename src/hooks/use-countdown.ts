@@ -0,0 +1,23 @@
+import * as React from "react";
+import dayjs from "dayjs";
+import { getClockTickMs, masjidNow } from "@/lib/clock";
+import { formatCountdown } from "@/lib/overlayState";
+
+// Returns the time left until `target` as mm:ss, updated every tick. Empty without a target.
+export function useCountdown(target: dayjs.Dayjs | null) {
+  const [countdownText, setCountdownText] = React.useState(() => (target ? formatCountdown(target, masjidNow()) : ""));
+
+  React.useEffect(() => {
+    if (!target) {
+      setCountdownText("");
+      return;
+    }
+
+    const updateCountdown = () => setCountdownText(formatCountdown(target, masjidNow()));
+    updateCountdown();
+    const interval = setInterval(updateCountdown, getClockTickMs());
+    return () => clearInterval(interval);
+  }, [target]);
+
+  return countdownText;
+}
@@ -0,0 +1,53 @@
+import * as React from "react";
+import { getClockSpeed, masjidNow, subscribeToClock } from "@/lib/clock";
+
+const DAY_FORMAT = "YYYY-MM-DD";
+// Re-check at least this often so a sleeping device or a clock jump is noticed quickly.
+const MAX_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Returns the current date at the masjid as "YYYY-MM-DD" and updates it right
+ * after midnight, so day-based data is recomputed without a page reload.
+ */
+export function useCurrentDay() {
+  const [currentDay, setCurrentDay] = React.useState<string>(() => masjidNow().format(DAY_FORMAT));
+
+  React.useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout>;
+
+    const updateCurrentDay = () => {
+      const today = masjidNow().format(DAY_FORMAT);
+      setCurrentDay((previousDay) => {
+        if (previousDay !== today) {
+          console.log(`useCurrentDay: Day changed from ${previousDay} to ${today}.`);
+        }
+        return today;
+      });
+    };
+
+    const scheduleNextCheck = () => {
+      const current = masjidNow();
+      const msUntilMidnight = current.add(1, "day").startOf("day").diff(current);
+      timeoutId = setTimeout(() => {
+        updateCurrentDay();
+        scheduleNextCheck();
+      }, Math.min(msUntilMidnight / getClockSpeed() + 50, MAX_CHECK_INTERVAL_MS));
+    };
+
+    scheduleNextCheck();
+
+    // A different time zone, clock offset or simulated time can mean a different date right away
+    const unsubscribe = subscribeToClock(() => {
+      clearTimeout(timeoutId);
+      updateCurrentDay();
+      scheduleNextCheck();
+    });
+
+    return () => {
+      clearTimeout(timeoutId);
+      unsubscribe();
+    };
+  }, []);
+
+  return currentDay;
+}
@@ -0,0 +1,44 @@
+import * as React from "react";
+import { getClockTickMs, masjidNow } from "@/lib/clock";
+import { EidTimeline } from "@/lib/eidPrayer";
+import { IftarWindow } from "@/lib/iftar";
+import { PrayerTimeline } from "@/lib/prayerTimes";
+import { SahurReminderEvent } from "@/lib/sahur";
+import { TarawihWindow } from "@/lib/tarawih";
+import { describeOverlayState, getOverlayState, isSameOverlayState, OverlayState } from "@/lib/overlayState";
+
+// Shared default, so the effect is not restarted by a new empty array on every render.
+const NO_SAHUR_REMINDERS: SahurReminderEvent[] = [];
+
+/**
+ * Returns the current overlay state for the timeline, the Eid prayer,
+ * Tarawih, the sahur reminders and the iftar countdown. The state object only changes when the
+ * phase does, so the overlays are not re-rendered every tick.
+ */
+export function useOverlayState(
+  timeline: PrayerTimeline | null,
+  eidTimeline: EidTimeline | null = null,
+  tarawihWindow: TarawihWindow | null = null,
+  sahurReminders: SahurReminderEvent[] = NO_SAHUR_REMINDERS,
+  iftarWindow: IftarWindow | null = null,
+) {
+  const [state, setState] = React.useState<OverlayState>(() =>
+    getOverlayState(timeline, masjidNow(), { eidTimeline, tarawihWindow, sahurReminders, iftarWindow }));
+
+  React.useEffect(() => {
+    const updateState = () => {
+      const nextState = getOverlayState(timeline, masjidNow(), { eidTimeline, tarawihWindow, sahurReminders, iftarWindow });
+      setState((previousState) => {
+        if (isSameOverlayState(previousState, nextState)) return previousState;
+        console.log(`useOverlayState: ${describeOverlayState(previousState)} -> ${describeOverlayState(nextState)}`);
+        return nextState;
+      });
+    };
+
+    updateState();
+    const interval = setInterval(updateState, getClockTickMs());
+    return () => clearInterval(interval);
+  }, [timeline, eidTimeline, tarawihWindow, sahurReminders, iftarWindow]);
+
+  return state;
+}
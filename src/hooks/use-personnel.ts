@@ -0,0 +1,51 @@
+import * as React from "react";
+import { supabase } from "@/lib/supabase";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { Personnel } from "@/lib/personnel";
+
+/**
+ * The personnel directory, for showing the photo and title of scheduled people,
+ * kept up to date through a realtime channel. Each caller passes its own channel name.
+ */
+export function usePersonnel(channelName: string) {
+  const [personnel, setPersonnel] = React.useState<Personnel[]>([]);
+  const channelRef = React.useRef<RealtimeChannel | null>(null);
+
+  const fetchPersonnel = React.useCallback(async () => {
+    const { data, error } = await supabase
+      .from("personnel")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching personnel:", error);
+    } else {
+      setPersonnel(data || []);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchPersonnel();
+
+    if (!channelRef.current) {
+      channelRef.current = supabase
+        .channel(channelName)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'personnel' }, (payload) => {
+          console.log(`usePersonnel: Personnel change received on '${channelName}'!`, payload);
+          fetchPersonnel();
+        })
+        .subscribe();
+      console.log(`usePersonnel: Subscribed to channel '${channelName}'.`);
+    }
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        console.log(`usePersonnel: Unsubscribed from channel '${channelName}'.`);
+        channelRef.current = null;
+      }
+    };
+  }, [fetchPersonnel, channelName]);
+
+  return personnel;
+}
@@ -0,0 +1,79 @@
+import * as React from "react";
+import { supabase } from "@/lib/supabase";
+import { toast } from "sonner";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { masjidDate } from "@/lib/clock";
+import { ImamSchedule, imamScheduleDateFilter, resolveImamSchedule } from "@/lib/imamSchedule";
+
+/**
+ * Today's Tarawih imam and kultum speaker from imam_muezzin_schedules, the
+ * assignment for today's date before the weekly row, kept up to date through a
+ * realtime channel. Each caller passes its own channel name.
+ * Nothing is loaded outside Ramadan mode.
+ */
+export function useTarawihSchedule(channelName: string) {
+  const [schedule, setSchedule] = React.useState<ImamSchedule | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const channelRef = React.useRef<RealtimeChannel | null>(null);
+  // Re-fetch today's schedule after midnight; Ramadan mode follows the Hijri calendar unless forced
+  const { currentDay, isRamadanModeActive } = usePrayerTimeline();
+
+  const fetchSchedule = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!isRamadanModeActive) {
+        setSchedule(null);
+        return;
+      }
+
+      const today = masjidDate(currentDay);
+      const { data, error: scheduleError } = await supabase
+        .from("imam_muezzin_schedules")
+        .select("*")
+        .eq("prayer_name", "Tarawih")
+        .or(imamScheduleDateFilter(today));
+
+      if (scheduleError) {
+        console.error("Error fetching Tarawih schedule:", scheduleError);
+        setError("Gagal memuat jadwal Tarawih.");
+      } else {
+        setSchedule(resolveImamSchedule(data || [], today, "Tarawih"));
+      }
+    } catch (err) {
+      console.error("Unexpected error fetching Tarawih schedule:", err);
+      setError("Terjadi kesalahan saat memuat jadwal Tarawih.");
+      toast.error("Terjadi kesalahan saat memuat jadwal Tarawih.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentDay, isRamadanModeActive]);
+
+  React.useEffect(() => {
+    fetchSchedule();
+
+    if (!channelRef.current) {
+      channelRef.current = supabase
+        .channel(channelName)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'imam_muezzin_schedules' }, (payload) => {
+          console.log(`useTarawihSchedule: Imam/Muezzin schedule change received on '${channelName}'!`, payload);
+          fetchSchedule();
+        })
+        .subscribe();
+      console.log(`useTarawihSchedule: Subscribed to channel '${channelName}'.`);
+    }
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        console.log(`useTarawihSchedule: Unsubscribed from channel '${channelName}'.`);
+        channelRef.current = null;
+      }
+    };
+  }, [fetchSchedule, channelName]);
+
+  return { schedule, isLoading, error };
+}
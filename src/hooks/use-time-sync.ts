@@ -0,0 +1,14 @@
+import * as React from "react";
+import { getTimeSyncStatus, startServerTimeSync, subscribeToTimeSync } from "@/lib/timeSync";
+
+/**
+ * Keeps the masjid clock synced with the server while the calling screen is
+ * mounted and returns the latest sync status.
+ */
+export function useServerTimeSync() {
+  const status = React.useSyncExternalStore(subscribeToTimeSync, getTimeSyncStatus);
+
+  React.useEffect(() => startServerTimeSync(), []);
+
+  return status;
+}
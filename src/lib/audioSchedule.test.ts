@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { AudioEvent, AudioScheduleSettings, getAudioEventsToStart, getDueAudioEvents, IFTAR_CHIME_EVENT_NAME, IMSAK_BEEP_EVENT_NAME } from "@/lib/audioSchedule";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { calculateEidTimeline } from "@/lib/eidPrayer";
+import { getSahurReminderEvents } from "@/lib/sahur";
+import { calculateIftarWindow } from "@/lib/iftar";
+import { FRIDAY, FRIDAY_EID_PRAYER, FRIDAY_JUMUAH_PHASES, JAKARTA_SETTINGS, SAHUR_REMINDERS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const AUDIO_SETTINGS: AudioScheduleSettings = {
+  murottal_audio_url_fajr: "murottal-fajr.mp3",
+  murottal_audio_url_dhuhr: "murottal-dhuhr.mp3",
+  murottal_audio_url_asr: "murottal-asr.mp3",
+  murottal_audio_url_maghrib: "murottal-maghrib.mp3",
+  murottal_audio_url_isha: "murottal-isha.mp3",
+  imsak_beep_audio_url: "imsak-beep.mp3",
+  imsak_beep_lead_seconds: 0,
+  iftar_chime_audio_url: "iftar-chime.mp3",
+  tarhim_active: true,
+  tarhim_audio_url: "tarhim.mp3",
+  tarhim_pre_adhan_duration: 300,
+  adhan_beep_audio_url: "adhan-beep.mp3",
+  iqomah_beep_audio_url: "iqomah-beep.mp3",
+  murottal_active: true,
+  murottal_pre_adhan_duration: 10,
+};
+
+const NOTHING_PLAYED = { playedToday: new Set<string>(), isMurottalPaused: false };
+
+const dueAt = (
+  date: string,
+  time: string,
+  { settings = AUDIO_SETTINGS, ramadan = false, state = NOTHING_PLAYED } = {},
+) => {
+  const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: ramadan }, masjidDate(date));
+  return getDueAudioEvents(timeline, settings, masjidDate(`${date} ${time}`), state).map((event) => event.name);
+};
+
+// The names of the events getAudioEventsToStart lets replace `playing`.
+const toStart = (dueEvents: AudioEvent[], playing: AudioEvent) => {
+  const { events, keepsPlaying } = getAudioEventsToStart(dueEvents, playing);
+  return { events: events.map((event) => event.name), keepsPlaying };
+};
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("tarhim", () => {
+  it("plays during the lead time before Subuh and Isya", () => {
+    // Subuh at 04:40 with a five minute lead
+    expect(dueAt(THURSDAY, "04:34:59")).not.toContain("Tarhim Subuh");
+    expect(dueAt(THURSDAY, "04:35:00")).toContain("Tarhim Subuh");
+    expect(dueAt(THURSDAY, "04:39:59")).toContain("Tarhim Subuh");
+    expect(dueAt(THURSDAY, "04:40:00")).not.toContain("Tarhim Subuh");
+    expect(dueAt(THURSDAY, "19:16:00")).toContain("Tarhim Isya");
+  });
+
+  it("is not played before the other prayers or when disabled", () => {
+    expect(dueAt(THURSDAY, "15:02:00")).not.toContain("Tarhim Ashar");
+    expect(dueAt(THURSDAY, "04:36:00", { settings: { ...AUDIO_SETTINGS, tarhim_active: false } })).not.toContain("Tarhim Subuh");
+  });
+
+  it("takes priority over the murottal", () => {
+    expect(dueAt(THURSDAY, "04:36:00")).toEqual(["Tarhim Subuh", "Murottal Subuh"]);
+  });
+});
+
+describe("beeps", () => {
+  it("plays the adhan beep within a second of the adhan", () => {
+    expect(dueAt(THURSDAY, "15:04:58")).not.toContain("Ashar Adhan Beep");
+    expect(dueAt(THURSDAY, "15:04:59")).toContain("Ashar Adhan Beep");
+    expect(dueAt(THURSDAY, "15:05:01")).toContain("Ashar Adhan Beep");
+    expect(dueAt(THURSDAY, "15:05:02")).not.toContain("Ashar Adhan Beep");
+  });
+
+  it("plays the iqomah beep at the iqomah time", () => {
+    expect(dueAt(THURSDAY, "12:11:00")).toEqual(["Dzuhur Iqomah Beep"]);
+  });
+
+  it("skips the iqomah beep on Jum'at but not for the other prayers of Friday", () => {
+    expect(dueAt(FRIDAY, "12:04:00")).toEqual(["Jum'at Adhan Beep"]);
+    expect(dueAt(FRIDAY, "12:11:00")).toEqual([]);
+    expect(dueAt(FRIDAY, "15:13:00")).toEqual(["Ashar Iqomah Beep"]);
+  });
+
+  it("plays the Imsak beep once, in Ramadan mode only", () => {
+    expect(dueAt(THURSDAY, "04:30:30", { ramadan: true })).toContain(IMSAK_BEEP_EVENT_NAME);
+    expect(dueAt(THURSDAY, "04:30:30")).not.toContain(IMSAK_BEEP_EVENT_NAME);
+    expect(dueAt(THURSDAY, "04:31:00", { ramadan: true })).not.toContain(IMSAK_BEEP_EVENT_NAME);
+
+    const played = { playedToday: new Set([IMSAK_BEEP_EVENT_NAME]), isMurottalPaused: false };
+    expect(dueAt(THURSDAY, "04:30:30", { ramadan: true, state: played })).not.toContain(IMSAK_BEEP_EVENT_NAME);
+  });
+});
+
+describe("murottal", () => {
+  it("plays during the configured minutes before the adhan", () => {
+    expect(dueAt(THURSDAY, "14:54:59")).toEqual([]);
+    expect(dueAt(THURSDAY, "14:55:00")).toEqual(["Murottal Ashar"]);
+    expect(dueAt(THURSDAY, "15:05:00")).toEqual(["Ashar Adhan Beep"]);
+  });
+
+  it("waits while a paused murottal has not been resumed", () => {
+    expect(dueAt(THURSDAY, "14:58:00", { state: { ...NOTHING_PLAYED, isMurottalPaused: true } })).toEqual([]);
+  });
+});
+
+describe("takbir", () => {
+  it("plays on the eve of an Ied, after Maghrib and before the Isya countdown", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+    const eid = calculateEidTimeline(FRIDAY_EID_PRAYER, timeline);
+    const dueTakbirAt = (time: string) =>
+      getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} ${time}`), NOTHING_PLAYED, { eidTimeline: eid }).map((event) => event.name);
+
+    expect(dueTakbirAt("18:21:59")).toEqual([]);
+    expect(dueTakbirAt("18:22:00")).toEqual(["Takbir Idul Fitri"]);
+    expect(dueTakbirAt("19:12:00")).toEqual(["Takbir Idul Fitri", "Murottal Isya"]);
+    expect(dueTakbirAt("19:19:30")).toEqual(["Tarhim Isya", "Murottal Isya"]);
+  });
+
+  it("is not queued again while it is playing, and keeps the murottal from taking over", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+    const eid = calculateEidTimeline(FRIDAY_EID_PRAYER, timeline);
+    const takbir = getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} 18:22:00`), NOTHING_PLAYED, { eidTimeline: eid })[0];
+    const startWhilePlayingAt = (time: string) =>
+      toStart(getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} ${time}`), NOTHING_PLAYED, { eidTimeline: eid }), takbir);
+
+    expect(startWhilePlayingAt("18:30:00")).toEqual({ events: [], keepsPlaying: true });
+    expect(startWhilePlayingAt("19:12:00")).toEqual({ events: [], keepsPlaying: true });
+    // Tarhim still takes over once the takbir window is over
+    expect(startWhilePlayingAt("19:19:30")).toEqual({ events: ["Tarhim Isya", "Murottal Isya"], keepsPlaying: false });
+  });
+});
+
+describe("sahur", () => {
+  it("plays each reminder's audio once at its time", () => {
+    const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: true }, masjidDate(THURSDAY));
+    const sahurReminders = getSahurReminderEvents(timeline, SAHUR_REMINDERS);
+    const dueSahurAt = (time: string, state = NOTHING_PLAYED) =>
+      getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} ${time}`), state, { sahurReminders }).map((event) => event.name);
+
+    expect(dueSahurAt("02:29:59")).toEqual([]);
+    expect(dueSahurAt("02:30:30")).toEqual(["Sahur 02:30"]);
+    expect(dueSahurAt("02:31:00")).toEqual([]);
+    expect(dueSahurAt("02:30:30", { playedToday: new Set(["Sahur 02:30"]), isMurottalPaused: false })).toEqual([]);
+    // The reminder before Imsak has no audio of its own
+    expect(dueSahurAt("04:00:30")).toEqual([]);
+  });
+
+  it("keeps a reminder playing on the ticks after it starts", () => {
+    const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: true }, masjidDate(THURSDAY));
+    const sahurReminders = getSahurReminderEvents(timeline, SAHUR_REMINDERS);
+    const [reminder] = getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} 02:30:00`), NOTHING_PLAYED, { sahurReminders });
+    const played = { playedToday: new Set([reminder.name]), isMurottalPaused: false };
+    const dueAfterReminderAt = (time: string) =>
+      getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} ${time}`), played, { sahurReminders });
+
+    expect(dueAfterReminderAt("02:30:01")).toEqual([]);
+    expect(toStart(dueAfterReminderAt("02:30:01"), reminder)).toEqual({ events: [], keepsPlaying: true });
+    expect(toStart(dueAfterReminderAt("02:33:00"), reminder)).toEqual({ events: [], keepsPlaying: true });
+  });
+});
+
+describe("iftar chime", () => {
+  it("plays once as the iftar countdown starts", () => {
+    const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: true }, masjidDate(THURSDAY));
+    const iftarWindow = calculateIftarWindow(timeline, { iftar_countdown_minutes: 20 });
+    const dueIftarAt = (time: string, state = NOTHING_PLAYED) =>
+      getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} ${time}`), state, { iftarWindow }).map((event) => event.name);
+
+    expect(dueIftarAt("17:49:59")).toEqual([]);
+    expect(dueIftarAt("17:50:00")).toEqual([IFTAR_CHIME_EVENT_NAME]);
+    expect(dueIftarAt("17:50:00", { playedToday: new Set([IFTAR_CHIME_EVENT_NAME]), isMurottalPaused: false })).toEqual([]);
+    expect(dueIftarAt("18:00:00")).toEqual(["Murottal Maghrib"]);
+  });
+
+  it("keeps the chime playing to its end, ahead of the Maghrib murottal", () => {
+    const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: true }, masjidDate(THURSDAY));
+    const iftarWindow = calculateIftarWindow(timeline, { iftar_countdown_minutes: 5 });
+    const [chime] = getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} 18:05:00`), NOTHING_PLAYED, { iftarWindow });
+    const played = { playedToday: new Set([IFTAR_CHIME_EVENT_NAME]), isMurottalPaused: false };
+    const dueAfterChimeAt = (time: string) =>
+      getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${THURSDAY} ${time}`), played, { iftarWindow });
+
+    expect(chime.name).toBe(IFTAR_CHIME_EVENT_NAME);
+    expect(dueAfterChimeAt("18:05:01").map((event) => event.name)).toEqual(["Murottal Maghrib"]);
+    expect(toStart(dueAfterChimeAt("18:05:01"), chime)).toEqual({ events: [], keepsPlaying: true });
+  });
+});
+
+describe("Jum'at cues", () => {
+  it("plays each phase's audio once as the phase starts", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), null, FRIDAY_JUMUAH_PHASES);
+    const dueJumuahAt = (time: string, state = NOTHING_PLAYED) =>
+      getDueAudioEvents(timeline, { ...AUDIO_SETTINGS, murottal_active: false }, masjidDate(`${FRIDAY} ${time}`), state).map((event) => event.name);
+
+    expect(dueJumuahAt("11:53:59")).toEqual([]);
+    expect(dueJumuahAt("11:54:00")).toEqual(["Jum'at Tarhim"]);
+    expect(dueJumuahAt("11:54:00", { playedToday: new Set(["Jum'at Tarhim"]), isMurottalPaused: false })).toEqual([]);
+    expect(dueJumuahAt("12:07:30")).toEqual(["Jum'at Khatib Naik Mimbar"]);
+    // The second adhan has no audio of its own
+    expect(dueJumuahAt("12:09:30")).toEqual([]);
+  });
+
+  it("keeps a cue playing on the ticks after it starts, ahead of the Dzuhur murottal", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), null, FRIDAY_JUMUAH_PHASES);
+    const playedTarhim = { playedToday: new Set(["Jum'at Tarhim"]), isMurottalPaused: false };
+    const dueAfterTarhimAt = (time: string) =>
+      getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${FRIDAY} ${time}`), playedTarhim);
+    const [tarhim] = getDueAudioEvents(timeline, AUDIO_SETTINGS, masjidDate(`${FRIDAY} 11:54:00`), NOTHING_PLAYED);
+
+    expect(tarhim.name).toBe("Jum'at Tarhim");
+    expect(toStart(dueAfterTarhimAt("11:54:01"), tarhim)).toEqual({ events: [], keepsPlaying: true });
+    expect(toStart(dueAfterTarhimAt("11:58:00"), tarhim)).toEqual({ events: [], keepsPlaying: true });
+    // The next phase's cue follows on as it starts
+    expect(toStart(dueAfterTarhimAt("12:07:30"), tarhim)).toEqual({ events: ["Jum'at Khatib Naik Mimbar"], keepsPlaying: true });
+    // Without a cue playing the murottal is due as usual
+    expect(getAudioEventsToStart(dueAfterTarhimAt("11:58:00"), null)).toEqual({ events: dueAfterTarhimAt("11:58:00"), keepsPlaying: false });
+    expect(dueAfterTarhimAt("11:58:00").map((event) => event.name)).toEqual(["Murottal Dzuhur"]);
+  });
+});
@@ -0,0 +1,207 @@
+import dayjs from "dayjs";
+import type { AppSettings } from "@/contexts/AppSettingsContext";
+import { EidTimeline } from "@/lib/eidPrayer";
+import { IftarWindow } from "@/lib/iftar";
+import { DEFAULT_IMSAK_BEEP_LEAD_SECONDS, ObligatoryPrayerKey, PrayerTimeline } from "@/lib/prayerTimes";
+import { SahurReminderEvent } from "@/lib/sahur";
+
+type MurottalAudioUrlField = `murottal_audio_url_${ObligatoryPrayerKey}`;
+
+export interface MurottalConfig {
+  name: string;
+  adhanName: ObligatoryPrayerKey; // Also the key under which the murottal playback position is stored
+  audioUrlField: MurottalAudioUrlField;
+}
+
+export const MUROTTAL_CONFIGS: MurottalConfig[] = [
+  { name: "Subuh", adhanName: "fajr", audioUrlField: "murottal_audio_url_fajr" },
+  { name: "Dzuhur", adhanName: "dhuhr", audioUrlField: "murottal_audio_url_dhuhr" },
+  { name: "Ashar", adhanName: "asr", audioUrlField: "murottal_audio_url_asr" },
+  { name: "Maghrib", adhanName: "maghrib", audioUrlField: "murottal_audio_url_maghrib" },
+  { name: "Isya", adhanName: "isha", audioUrlField: "murottal_audio_url_isha" },
+];
+
+// The Imsak beep, the sahur reminders, the iftar chime and the Jum'at phase cues are only attempted shortly after their scheduled time, not for the rest of the day.
+export const IMSAK_BEEP_WINDOW_SECONDS = 60;
+// Beeps fire within this many seconds either side of the adhan or iqomah time.
+export const BEEP_TOLERANCE_SECONDS = 1;
+export const DEFAULT_TARHIM_PRE_ADHAN_SECONDS = 300;
+
+export const IMSAK_BEEP_EVENT_NAME = "Imsak Beep";
+export const IFTAR_CHIME_EVENT_NAME = "Iftar Chime";
+
+export type AudioEventKind = "imsak-beep" | "sahur" | "iftar-chime" | "jumuah-cue" | "tarhim" | "adhan-beep" | "iqomah-beep" | "takbir" | "murottal";
+
+// The order in which getDueAudioEvents lists the kinds, highest priority first.
+const AUDIO_EVENT_PRIORITY: AudioEventKind[] = ["imsak-beep", "sahur", "iftar-chime", "jumuah-cue", "tarhim", "adhan-beep", "iqomah-beep", "takbir", "murottal"];
+// Kinds that are due once, at their time, and then play until their clip ends.
+const ONE_SHOT_AUDIO_KINDS: AudioEventKind[] = ["imsak-beep", "sahur", "iftar-chime", "jumuah-cue", "adhan-beep", "iqomah-beep"];
+
+export interface AudioEvent {
+  kind: AudioEventKind;
+  name: string; // Unique per day, e.g. "Tarhim Subuh", "Ashar Iqomah Beep", "Jum'at Adzan Kedua" or "Takbir Idul Fitri"
+  url: string;
+  prayerKey: ObligatoryPrayerKey | null; // Set for murottal, whose playback position is kept per prayer
+}
+
+export type AudioScheduleSettings = Pick<AppSettings,
+  | MurottalAudioUrlField
+  | "imsak_beep_audio_url"
+  | "imsak_beep_lead_seconds"
+  | "iftar_chime_audio_url"
+  | "tarhim_active"
+  | "tarhim_audio_url"
+  | "tarhim_pre_adhan_duration"
+  | "adhan_beep_audio_url"
+  | "iqomah_beep_audio_url"
+  | "murottal_active"
+  | "murottal_pre_adhan_duration"
+>;
+
+// Events outside the five daily prayers that have audio of their own.
+export interface AudioScheduleEvents {
+  eidTimeline?: EidTimeline | null;
+  sahurReminders?: SahurReminderEvent[];
+  iftarWindow?: IftarWindow | null;
+}
+
+interface AudioScheduleState {
+  playedToday: ReadonlySet<string>; // Event names already played today
+  isMurottalPaused: boolean; // A murottal was paused for a beep and waits to be resumed
+}
+
+const isWithin = (now: dayjs.Dayjs, start: dayjs.Dayjs, end: dayjs.Dayjs) =>
+  now.valueOf() >= start.valueOf() && now.valueOf() < end.valueOf();
+
+// The takbir on the eve of an Ied while its window lasts, null otherwise.
+const getTakbirEvent = (eidTimeline: EidTimeline | null, now: dayjs.Dayjs): AudioEvent | null => {
+  const { takbirStart, takbirEnd } = eidTimeline ?? {};
+  if (!eidTimeline?.eid.takbir_audio_url || !takbirStart || !takbirEnd || !isWithin(now, takbirStart, takbirEnd)) {
+    return null;
+  }
+  return { kind: "takbir", name: `Takbir ${eidTimeline.name}`, url: eidTimeline.eid.takbir_audio_url, prayerKey: null };
+};
+
+/**
+ * Returns the audio events due at `now`, highest priority first: Imsak beep,
+ * sahur reminders, the iftar chime as the iftar countdown starts, the cue of
+ * each Jum'at phase as it starts, tarhim, adhan beep, iqomah beep (not on
+ * Jum'at, which has a khutbah instead), the takbir on the eve of an Ied and
+ * murottal. MurottalPlayer plays the first one that starts successfully.
+ */
+export const getDueAudioEvents = (
+  timeline: PrayerTimeline,
+  settings: AudioScheduleSettings,
+  now: dayjs.Dayjs,
+  { playedToday, isMurottalPaused }: AudioScheduleState,
+  { eidTimeline = null, sahurReminders = [], iftarWindow = null }: AudioScheduleEvents = {},
+): AudioEvent[] => {
+  const events: AudioEvent[] = [];
+
+  if (timeline.isRamadanModeActive && settings.imsak_beep_audio_url && !playedToday.has(IMSAK_BEEP_EVENT_NAME)) {
+    const imsakBeepTime = timeline.times.imsak.subtract(settings.imsak_beep_lead_seconds ?? DEFAULT_IMSAK_BEEP_LEAD_SECONDS, "second");
+    if (isWithin(now, imsakBeepTime, imsakBeepTime.add(IMSAK_BEEP_WINDOW_SECONDS, "second"))) {
+      events.push({ kind: "imsak-beep", name: IMSAK_BEEP_EVENT_NAME, url: settings.imsak_beep_audio_url, prayerKey: null });
+    }
+  }
+
+  sahurReminders.forEach((reminder) => {
+    if (!reminder.reminder.audio_url || playedToday.has(reminder.name)) return;
+    if (isWithin(now, reminder.time, reminder.time.add(IMSAK_BEEP_WINDOW_SECONDS, "second"))) {
+      events.push({ kind: "sahur", name: reminder.name, url: reminder.reminder.audio_url, prayerKey: null });
+    }
+  });
+
+  if (iftarWindow && settings.iftar_chime_audio_url && !playedToday.has(IFTAR_CHIME_EVENT_NAME)) {
+    if (isWithin(now, iftarWindow.countdownStart, iftarWindow.countdownStart.add(IMSAK_BEEP_WINDOW_SECONDS, "second"))) {
+      events.push({ kind: "iftar-chime", name: IFTAR_CHIME_EVENT_NAME, url: settings.iftar_chime_audio_url, prayerKey: null });
+    }
+  }
+
+  timeline.windows.forEach((prayerWindow) => {
+    prayerWindow.jumuahPhases.forEach(({ phase, start }) => {
+      const name = `${prayerWindow.name} ${phase.name}`;
+      if (!phase.audio_url || playedToday.has(name)) return;
+      if (isWithin(now, start, start.add(IMSAK_BEEP_WINDOW_SECONDS, "second"))) {
+        events.push({ kind: "jumuah-cue", name, url: phase.audio_url, prayerKey: null });
+      }
+    });
+  });
+
+  if (settings.tarhim_active && settings.tarhim_audio_url) {
+    const tarhimLeadSeconds = settings.tarhim_pre_adhan_duration || DEFAULT_TARHIM_PRE_ADHAN_SECONDS;
+    const tarhimPrayers = [
+      { name: "Tarhim Subuh", adhanTime: timeline.times.fajr },
+      { name: "Tarhim Isya", adhanTime: timeline.times.isha },
+    ];
+    tarhimPrayers.forEach(({ name, adhanTime }) => {
+      if (isWithin(now, adhanTime.subtract(tarhimLeadSeconds, "second"), adhanTime)) {
+        events.push({ kind: "tarhim", name, url: settings.tarhim_audio_url, prayerKey: null });
+      }
+    });
+  }
+
+  const isAroundTime = (time: dayjs.Dayjs) =>
+    Math.abs(now.diff(time, "millisecond")) <= BEEP_TOLERANCE_SECONDS * 1000;
+
+  if (settings.adhan_beep_audio_url) {
+    timeline.windows.forEach((prayerWindow) => {
+      if (isAroundTime(prayerWindow.adhanTime)) {
+        events.push({ kind: "adhan-beep", name: `${prayerWindow.name} Adhan Beep`, url: settings.adhan_beep_audio_url, prayerKey: null });
+      }
+    });
+  }
+
+  if (settings.iqomah_beep_audio_url) {
+    timeline.windows.forEach((prayerWindow) => {
+      if (prayerWindow.isJumuah || !prayerWindow.iqomahTime) return;
+      if (isAroundTime(prayerWindow.iqomahTime)) {
+        events.push({ kind: "iqomah-beep", name: `${prayerWindow.name} Iqomah Beep`, url: settings.iqomah_beep_audio_url, prayerKey: null });
+      }
+    });
+  }
+
+  const takbir = getTakbirEvent(eidTimeline, now);
+  if (takbir) {
+    events.push(takbir);
+  }
+
+  if (settings.murottal_active && !isMurottalPaused) {
+    const murottalLeadMs = settings.murottal_pre_adhan_duration * 60 * 1000;
+    MUROTTAL_CONFIGS.forEach((config) => {
+      const audioUrl = settings[config.audioUrlField];
+      const timeUntilPrayer = timeline.times[config.adhanName].diff(now);
+      if (audioUrl && timeUntilPrayer > 0 && timeUntilPrayer <= murottalLeadMs) {
+        events.push({ kind: "murottal", name: `Murottal ${config.name}`, url: audioUrl, prayerKey: config.adhanName });
+      }
+    });
+  }
+
+  return events;
+};
+
+/**
+ * The due events that may replace the event currently playing. A one-shot
+ * event (a beep, a sahur reminder, the iftar chime or a Jum'at cue) keeps playing until its clip ends, and tarhim
+ * and the takbir while they are due, so only events of higher priority take
+ * over from them instead of cutting them off or restarting them every tick.
+ * `keepsPlaying` tells the player not to stop the playing event when nothing
+ * else starts.
+ */
+export const getAudioEventsToStart = (
+  dueEvents: AudioEvent[],
+  playingEvent: AudioEvent | null,
+): { events: AudioEvent[]; keepsPlaying: boolean } => {
+  const keepsPlaying = !!playingEvent && (
+    ONE_SHOT_AUDIO_KINDS.includes(playingEvent.kind) ||
+    (playingEvent.kind !== "murottal" && dueEvents.some((event) => event.name === playingEvent.name))
+  );
+  if (!playingEvent || !keepsPlaying) {
+    return { events: dueEvents, keepsPlaying };
+  }
+  const playingPriority = AUDIO_EVENT_PRIORITY.indexOf(playingEvent.kind);
+  return {
+    events: dueEvents.filter((event) => event.name !== playingEvent.name && AUDIO_EVENT_PRIORITY.indexOf(event.kind) <= playingPriority),
+    keepsPlaying,
+  };
+};
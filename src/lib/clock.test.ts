@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import dayjs from "dayjs";
+import {
+  getClockSimulation,
+  getClockTickMs,
+  getMasjidTimeZone,
+  masjidNow,
+  setClockOffset,
+  setMasjidTimeZone,
+  startClockSimulation,
+  startClockSimulationFromUrl,
+  stopClockSimulation,
+  subscribeToClock,
+} from "@/lib/clock";
+import { TEST_TIME_ZONE } from "@/test/fixtures";
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-03-05T17:30:00Z"));
+});
+
+afterEach(() => {
+  stopClockSimulation();
+  setClockOffset(0);
+  setMasjidTimeZone(TEST_TIME_ZONE);
+  vi.useRealTimers();
+});
+
+describe("masjidNow", () => {
+  it("follows the masjid's time zone, not the device's", () => {
+    expect(masjidNow().format("YYYY-MM-DD HH:mm")).toBe("2026-03-06 00:30");
+
+    setMasjidTimeZone("Asia/Makassar");
+
+    expect(masjidNow().format("YYYY-MM-DD HH:mm")).toBe("2026-03-06 01:30");
+  });
+
+  it("falls back to the device's zone for an unknown one", () => {
+    setMasjidTimeZone("Asia/Nowhere");
+
+    expect(getMasjidTimeZone()).toBe(dayjs.tz.guess());
+  });
+
+  it("applies the server clock offset", () => {
+    setClockOffset(-90_000);
+
+    expect(masjidNow().format("HH:mm:ss")).toBe("00:28:30");
+  });
+});
+
+describe("subscribeToClock", () => {
+  it("notifies on zone changes and offset jumps of at least a second", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToClock(listener);
+
+    setClockOffset(400);
+    expect(listener).not.toHaveBeenCalled();
+
+    setClockOffset(1500);
+    setMasjidTimeZone("Asia/Jayapura");
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    setClockOffset(0);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("clock simulation", () => {
+  it("runs from the start time at the given speed", () => {
+    expect(startClockSimulation("2026-03-06T11:55", 10)).toBe(true);
+    expect(masjidNow().format("YYYY-MM-DD HH:mm:ss")).toBe("2026-03-06 11:55:00");
+
+    vi.advanceTimersByTime(6000);
+
+    expect(masjidNow().format("HH:mm:ss")).toBe("11:56:00");
+    expect(getClockTickMs()).toBe(100);
+  });
+
+  it("ignores the server clock offset", () => {
+    startClockSimulation("2026-03-06T11:55");
+    setClockOffset(60_000);
+
+    expect(masjidNow().format("HH:mm")).toBe("11:55");
+  });
+
+  it("limits the speed", () => {
+    startClockSimulation("2026-03-06T11:55", 100);
+
+    expect(getClockSimulation()?.speed).toBe(20);
+  });
+
+  it("reads the start and speed from the URL", () => {
+    startClockSimulationFromUrl("?simulate=2026-03-06T04:35&speed=5");
+
+    expect(getClockSimulation()).toEqual({ start: "2026-03-06T04:35", speed: 5 });
+  });
+
+  it("keeps the real time for an invalid start", () => {
+    expect(startClockSimulation("not a date")).toBe(false);
+    expect(getClockSimulation()).toBeNull();
+    expect(masjidNow().format("HH:mm")).toBe("00:30");
+  });
+
+  it("goes back to the real time when stopped", () => {
+    startClockSimulation("2026-03-06T11:55");
+    stopClockSimulation();
+
+    expect(masjidNow().format("HH:mm")).toBe("00:30");
+    expect(getClockTickMs()).toBe(1000);
+  });
+});
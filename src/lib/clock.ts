@@ -0,0 +1,137 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const DEFAULT_TIME_ZONE = "Asia/Jakarta";
+export const MAX_SIMULATION_SPEED = 20;
+// Clock-driven components poll once per (virtual) second.
+const BASE_TICK_MS = 1000;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The masjid's configured IANA time zone, or the device's own zone when none is set.
+export const resolveTimeZone = (timeZone: string | null | undefined): string => {
+  if (timeZone && isValidTimeZone(timeZone)) return timeZone;
+  if (timeZone) console.warn(`clock: Invalid time zone "${timeZone}", using the device time zone.`);
+  return dayjs.tz.guess();
+};
+
+let masjidTimeZone = resolveTimeZone(null);
+// Server time minus device time, in milliseconds, as measured by the time sync service.
+let clockOffsetMs = 0;
+const listeners = new Set<() => void>();
+
+interface ClockSimulation {
+  start: string; // Virtual start time as wall-clock time at the masjid, e.g. "2026-03-06T11:55"
+  startMs: number; // The start time as epoch milliseconds in the current masjid time zone
+  speed: number;
+  startedAtMs: number; // Device time when the simulation started
+}
+let simulation: ClockSimulation | null = null;
+
+// Smaller corrections are not worth re-running every day-based calculation for.
+const CLOCK_JUMP_NOTIFY_MS = 1000;
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+export const getMasjidTimeZone = () => masjidTimeZone;
+
+/**
+ * Sets the time zone every display clock and timer runs in. Called by
+ * AppSettingsProvider whenever the settings are loaded.
+ */
+export const setMasjidTimeZone = (timeZone: string | null | undefined) => {
+  const resolved = resolveTimeZone(timeZone);
+  if (resolved === masjidTimeZone) return;
+  console.log(`clock: Time zone changed from ${masjidTimeZone} to ${resolved}.`);
+  masjidTimeZone = resolved;
+  if (simulation) {
+    // Keep the simulated wall-clock time, not the instant, when the zone changes
+    simulation.startMs = dayjs.tz(simulation.start, resolved).valueOf();
+  }
+  notifyListeners();
+};
+
+export const getClockOffset = () => clockOffsetMs;
+
+/**
+ * Sets the correction applied to the device clock so every timer follows the
+ * server's time. Called by the time sync service after each measurement.
+ */
+export const setClockOffset = (offsetMs: number) => {
+  const previousOffsetMs = clockOffsetMs;
+  clockOffsetMs = offsetMs;
+  if (Math.abs(offsetMs - previousOffsetMs) >= CLOCK_JUMP_NOTIFY_MS) {
+    console.log(`clock: Offset changed from ${previousOffsetMs} ms to ${offsetMs} ms.`);
+    notifyListeners();
+  }
+};
+
+// Notifies the listener when the time zone or the clock offset changes. Returns the unsubscribe function.
+export const subscribeToClock = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Runs every clock from a virtual start time at the given speed, so overlays and
+ * audio can be previewed without waiting for the real time. Returns false when
+ * the start time cannot be parsed.
+ */
+export const startClockSimulation = (start: string, speed = 1) => {
+  const startMs = dayjs.tz(start, masjidTimeZone).valueOf();
+  if (Number.isNaN(startMs)) return false;
+  const clampedSpeed = Number.isFinite(speed) ? Math.min(Math.max(speed, 1), MAX_SIMULATION_SPEED) : 1;
+  simulation = { start, startMs, speed: clampedSpeed, startedAtMs: Date.now() };
+  console.log(`clock: Simulating from ${start} at ${clampedSpeed}x speed.`);
+  notifyListeners();
+  return true;
+};
+
+export const stopClockSimulation = () => {
+  if (!simulation) return;
+  simulation = null;
+  console.log("clock: Simulation stopped, back to the real time.");
+  notifyListeners();
+};
+
+// Starts a simulation from the "?simulate=2026-03-06T11:55&speed=10" query parameters, if present.
+export const startClockSimulationFromUrl = (search: string) => {
+  const params = new URLSearchParams(search);
+  const start = params.get("simulate");
+  if (!start) return;
+  if (!startClockSimulation(start, Number(params.get("speed") ?? 1))) {
+    console.warn(`clock: Invalid simulation start "${start}", using the real time.`);
+  }
+};
+
+export const getClockSimulation = () => (simulation ? { start: simulation.start, speed: simulation.speed } : null);
+
+export const getClockSpeed = () => simulation?.speed ?? 1;
+
+// Interval for polling timers, so that a fast simulation does not skip short windows such as the adhan beep.
+export const getClockTickMs = () => BASE_TICK_MS / getClockSpeed();
+
+const currentTimeMs = () =>
+  simulation
+    ? simulation.startMs + (Date.now() - simulation.startedAtMs) * simulation.speed
+    : Date.now() + clockOffsetMs;
+
+// The current time in the masjid's time zone, corrected for the device clock's drift
+// (or the simulated time while a simulation runs).
+export const masjidNow = () => dayjs(currentTimeMs()).tz(masjidTimeZone);
+
+// A "YYYY-MM-DD" or "YYYY-MM-DD HH:mm" value read as wall-clock time at the masjid.
+export const masjidDate = (value: string, timeZone: string = masjidTimeZone) => dayjs.tz(value, timeZone);
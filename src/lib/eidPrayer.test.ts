@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import dayjs from "dayjs";
+import { calculateEidTimeline, guessEidType } from "@/lib/eidPrayer";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { FRIDAY_EID_PRAYER, JAKARTA_SETTINGS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const formatTimes = (...times: (dayjs.Dayjs | null | undefined)[]) =>
+  times.map((time) => time?.format("YYYY-MM-DD HH:mm:ss") ?? null);
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("calculateEidTimeline", () => {
+  it("counts down to the prayer and follows it with the khutbah", () => {
+    const eid = calculateEidTimeline(FRIDAY_EID_PRAYER);
+
+    expect(eid?.name).toBe("Idul Fitri");
+    expect(formatTimes(eid?.countdownStart, eid?.prayerTime, eid?.prayerEnd, eid?.khutbahEnd)).toEqual([
+      "2026-03-06 06:00:00",
+      "2026-03-06 06:30:00",
+      "2026-03-06 06:45:00",
+      "2026-03-06 07:05:00",
+    ]);
+    expect(eid?.takbirStart).toBeNull();
+  });
+
+  it("plays the takbir after the eve's Maghrib prayer, stopping before the Isya countdown", () => {
+    const eve = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+
+    // Maghrib at 18:10 ends its dark screen at 18:22, the Isya countdown starts at 19:19:30
+    const eid = calculateEidTimeline(FRIDAY_EID_PRAYER, eve);
+    expect(formatTimes(eid?.takbirStart, eid?.takbirEnd)).toEqual(["2026-03-05 18:22:00", "2026-03-05 19:19:30"]);
+
+    const shortTakbir = calculateEidTimeline({ ...FRIDAY_EID_PRAYER, takbir_duration_minutes: 30 }, eve);
+    expect(formatTimes(shortTakbir?.takbirEnd)).toEqual(["2026-03-05 18:52:00"]);
+  });
+
+  it("has no takbir without audio and no timeline without a valid time", () => {
+    const eve = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+
+    expect(calculateEidTimeline({ ...FRIDAY_EID_PRAYER, takbir_audio_url: null }, eve)?.takbirStart).toBeNull();
+    expect(calculateEidTimeline({ ...FRIDAY_EID_PRAYER, prayer_time: "25:00" })).toBeNull();
+  });
+});
+
+describe("guessEidType", () => {
+  it("recognises the Eid holidays by name", () => {
+    expect(guessEidType("Hari Raya Idul Fitri 1447 H")).toBe("fitri");
+    expect(guessEidType("Idul Adha")).toBe("adha");
+    expect(guessEidType("Maulid Nabi Muhammad SAW")).toBeNull();
+  });
+});
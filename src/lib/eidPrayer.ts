@@ -0,0 +1,98 @@
+import dayjs from "dayjs";
+import { masjidDate } from "@/lib/clock";
+import { parseTimeOnDay, PrayerTimeline } from "@/lib/prayerTimes";
+
+export type EidType = "fitri" | "adha";
+export type EidLocation = "masjid" | "lapangan";
+
+export const EID_TYPE_NAMES: Record<EidType, string> = {
+  fitri: "Idul Fitri",
+  adha: "Idul Adha",
+};
+
+export const EID_LOCATION_NAMES: Record<EidLocation, string> = {
+  masjid: "Masjid",
+  lapangan: "Lapangan",
+};
+
+// The Ied prayer itself (two rakaat with the extra takbir), before the khutbah starts.
+export const EID_PRAYER_DURATION_MINUTES = 15;
+export const DEFAULT_EID_COUNTDOWN_MINUTES = 30;
+export const DEFAULT_EID_KHUTBAH_DURATION_MINUTES = 20;
+export const DEFAULT_TAKBIR_DURATION_MINUTES = 60;
+
+export interface EidPrayer {
+  id: string;
+  eid_type: EidType;
+  prayer_date: string; // YYYY-MM-DD
+  holiday_id: string | null; // The islamic_holidays entry the date was taken from
+  prayer_time: string; // HH:mm or HH:mm:ss
+  imam_name: string | null;
+  khatib_name: string | null;
+  location: EidLocation;
+  location_name: string | null; // e.g. "Lapangan Kelurahan", shown with the location
+  takbir_audio_url: string | null;
+  takbir_duration_minutes: number;
+  khutbah_duration_minutes: number;
+  countdown_minutes: number;
+}
+
+export interface EidTimeline {
+  eid: EidPrayer;
+  name: string; // "Idul Fitri" or "Idul Adha"
+  countdownStart: dayjs.Dayjs;
+  prayerTime: dayjs.Dayjs;
+  prayerEnd: dayjs.Dayjs; // Start of the khutbah
+  khutbahEnd: dayjs.Dayjs;
+  takbirStart: dayjs.Dayjs | null; // Takbir the night before, null without audio or the eve's timeline
+  takbirEnd: dayjs.Dayjs | null;
+}
+
+export const getEidName = (eid: Pick<EidPrayer, "eid_type">) => EID_TYPE_NAMES[eid.eid_type] ?? EID_TYPE_NAMES.fitri;
+
+export const describeEidLocation = (eid: Pick<EidPrayer, "location" | "location_name">) => {
+  const location = EID_LOCATION_NAMES[eid.location] ?? EID_LOCATION_NAMES.masjid;
+  return eid.location_name ? `${location} - ${eid.location_name}` : location;
+};
+
+/**
+ * Calculates the Ied morning from the schedule: the countdown before the
+ * prayer, the prayer and the khutbah after it. With the eve's prayer timeline
+ * the takbir starts once the Maghrib prayer is over and stops before the Isya
+ * countdown, so it never plays over the adhan. Null when the prayer time is
+ * invalid.
+ */
+export const calculateEidTimeline = (eid: EidPrayer, eveTimeline: PrayerTimeline | null = null): EidTimeline | null => {
+  const prayerTime = parseTimeOnDay(masjidDate(eid.prayer_date), eid.prayer_time);
+  if (!prayerTime) return null;
+
+  const prayerEnd = prayerTime.add(EID_PRAYER_DURATION_MINUTES, "minute");
+  let takbirStart: dayjs.Dayjs | null = null;
+  let takbirEnd: dayjs.Dayjs | null = null;
+  const maghribWindow = eveTimeline?.windows.find((prayerWindow) => prayerWindow.key === "maghrib");
+  const ishaWindow = eveTimeline?.windows.find((prayerWindow) => prayerWindow.key === "isha");
+  if (eid.takbir_audio_url && maghribWindow && ishaWindow) {
+    takbirStart = maghribWindow.darkScreenEnd;
+    const plannedEnd = takbirStart.add(eid.takbir_duration_minutes, "minute");
+    takbirEnd = plannedEnd.valueOf() < ishaWindow.preAdhanStart.valueOf() ? plannedEnd : ishaWindow.preAdhanStart;
+  }
+
+  return {
+    eid,
+    name: getEidName(eid),
+    countdownStart: prayerTime.subtract(eid.countdown_minutes, "minute"),
+    prayerTime,
+    prayerEnd,
+    khutbahEnd: prayerEnd.add(eid.khutbah_duration_minutes, "minute"),
+    takbirStart,
+    takbirEnd,
+  };
+};
+
+// Guesses Idul Fitri or Idul Adha from a holiday name, e.g. when a date is picked from the holiday list.
+export const guessEidType = (name: string): EidType | null => {
+  const normalized = name.toLowerCase();
+  if (normalized.includes("adha") || normalized.includes("kurban") || normalized.includes("qurban")) return "adha";
+  if (normalized.includes("fitri") || normalized.includes("lebaran")) return "fitri";
+  return null;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampHijriDayAdjustment,
+  formatHijri,
+  formatHijriDate,
+  HijriCalendarConfig,
+  HijriMonthOverride,
+  resolveHijriCalendarVariant,
+  toHijriDate,
+} from "@/lib/hijri";
+
+const UMM_AL_QURA: HijriCalendarConfig = { variant: "islamic-umalqura", dayAdjustment: 0, monthOverrides: [] };
+
+const override = (hijri_month: number, start_date: string): HijriMonthOverride => ({
+  id: `1447-${hijri_month}`,
+  hijri_year: 1447,
+  hijri_month,
+  start_date,
+  note: null,
+});
+
+describe("toHijriDate", () => {
+  it("converts with the chosen calendar variant", () => {
+    expect(formatHijriDate("2026-02-18", UMM_AL_QURA)).toBe("1 Ramadan 1447 H");
+    expect(formatHijriDate("2026-03-20", UMM_AL_QURA)).toBe("1 Syawal 1447 H");
+    expect(formatHijriDate("2026-02-17", { ...UMM_AL_QURA, variant: "islamic-tbla" })).toBe("1 Ramadan 1447 H");
+  });
+
+  it("shifts the calculation by the day adjustment", () => {
+    expect(formatHijriDate("2026-02-19", { ...UMM_AL_QURA, dayAdjustment: -1 })).toBe("1 Ramadan 1447 H");
+    expect(formatHijriDate("2026-02-16", { ...UMM_AL_QURA, dayAdjustment: 2 })).toBe("1 Ramadan 1447 H");
+  });
+
+  it("extends the previous month until an overridden month starts", () => {
+    const config = { ...UMM_AL_QURA, monthOverrides: [override(9, "2026-02-19")] };
+
+    expect(formatHijriDate("2026-02-18", config)).toBe("30 Syakban 1447 H");
+    expect(formatHijriDate("2026-02-19", config)).toBe("1 Ramadan 1447 H");
+    // Without a Syawal override the shift carries on into the next month
+    expect(formatHijriDate("2026-03-21", config)).toBe("1 Syawal 1447 H");
+  });
+
+  it("ends a month early when the next override starts before the calculation", () => {
+    const config = { ...UMM_AL_QURA, monthOverrides: [override(10, "2026-03-20"), override(9, "2026-02-19")] };
+
+    expect(formatHijriDate("2026-03-19", config)).toBe("29 Ramadan 1447 H");
+    expect(formatHijriDate("2026-03-20", config)).toBe("1 Syawal 1447 H");
+  });
+
+  it("ignores the day adjustment while an override applies", () => {
+    const config = { ...UMM_AL_QURA, dayAdjustment: 2, monthOverrides: [override(9, "2026-02-19")] };
+
+    expect(toHijriDate("2026-02-19", config)).toEqual({ year: 1447, month: 9, day: 1 });
+  });
+});
+
+describe("formatHijri", () => {
+  it("uses the Indonesian month names", () => {
+    expect(formatHijri({ year: 1447, month: 12, day: 10 })).toBe("10 Zulhijah 1447 H");
+  });
+});
+
+describe("calendar settings", () => {
+  it("falls back to the default variant and clamps the adjustment", () => {
+    expect(resolveHijriCalendarVariant("islamic-civil")).toBe("islamic-civil");
+    expect(resolveHijriCalendarVariant("gregory")).toBe("islamic");
+    expect(clampHijriDayAdjustment(5)).toBe(2);
+    expect(clampHijriDayAdjustment(null)).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+
+dayjs.extend(utc);
+
+// Intl calendar identifiers. "islamic" is the device's astronomical calculation,
+// what the display used before a variant could be chosen.
+export type HijriCalendarVariant = "islamic" | "islamic-umalqura" | "islamic-civil" | "islamic-tbla";
+
+export const DEFAULT_HIJRI_CALENDAR_VARIANT: HijriCalendarVariant = "islamic";
+
+export const HIJRI_CALENDAR_VARIANTS: { value: HijriCalendarVariant; label: string }[] = [
+  { value: "islamic", label: "Astronomis (bawaan perangkat)" },
+  { value: "islamic-umalqura", label: "Umm al-Qura" },
+  { value: "islamic-civil", label: "Tabular Sipil (epoch Jumat)" },
+  { value: "islamic-tbla", label: "Tabular Astronomis (epoch Kamis)" },
+];
+
+export const MIN_HIJRI_DAY_ADJUSTMENT = -2;
+export const MAX_HIJRI_DAY_ADJUSTMENT = 2;
+
+// The configured variant, or the default for an empty or unknown value.
+export const resolveHijriCalendarVariant = (variant: string | null | undefined): HijriCalendarVariant =>
+  HIJRI_CALENDAR_VARIANTS.find((option) => option.value === variant)?.value ?? DEFAULT_HIJRI_CALENDAR_VARIANT;
+
+export const clampHijriDayAdjustment = (adjustment: number | null | undefined) =>
+  Math.min(Math.max(adjustment ?? 0, MIN_HIJRI_DAY_ADJUSTMENT), MAX_HIJRI_DAY_ADJUSTMENT);
+
+export const HIJRI_MONTH_NAMES = [
+  "Muharam",
+  "Safar",
+  "Rabiulawal",
+  "Rabiulakhir",
+  "Jumadilawal",
+  "Jumadilakhir",
+  "Rajab",
+  "Syakban",
+  "Ramadan",
+  "Syawal",
+  "Zulkaidah",
+  "Zulhijah",
+];
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// A row of the hijri_month_overrides table: the first day of a Hijri month as
+// decided by the sidang isbat.
+export interface HijriMonthOverride {
+  id: string;
+  hijri_year: number;
+  hijri_month: number; // 1-12
+  start_date: string; // YYYY-MM-DD
+  note: string | null;
+}
+
+export interface HijriCalendarConfig {
+  variant: HijriCalendarVariant;
+  dayAdjustment: number; // -2..+2 days, used while no month override of the past year applies
+  monthOverrides: HijriMonthOverride[];
+}
+
+export const DEFAULT_HIJRI_CALENDAR_CONFIG: HijriCalendarConfig = {
+  variant: DEFAULT_HIJRI_CALENDAR_VARIANT,
+  dayAdjustment: 0,
+  monthOverrides: [],
+};
+
+// An override older than about a Hijri year is stale; the day adjustment takes over again.
+const OVERRIDE_MAX_AGE_DAYS = 354;
+// How far from an override's start date its month start is searched for in the calculated calendar.
+const MONTH_START_SEARCH_DAYS = 5;
+
+const formatters = new Map<HijriCalendarVariant, Intl.DateTimeFormat>();
+
+const getFormatter = (variant: HijriCalendarVariant) => {
+  let formatter = formatters.get(variant);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-US-u-ca-${variant}`, {
+      day: "numeric",
+      month: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+    formatters.set(variant, formatter);
+  }
+  return formatter;
+};
+
+// The calendar day of `date` as UTC midnight, so the conversion does not depend on any time zone.
+const toCalendarDay = (date: dayjs.Dayjs | string) => dayjs.utc(typeof date === "string" ? date : date.format("YYYY-MM-DD"));
+
+const calculateHijriDate = (day: dayjs.Dayjs, variant: HijriCalendarVariant): HijriDate => {
+  const parts = getFormatter(variant).formatToParts(day.toDate());
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day") };
+};
+
+const monthIndex = (year: number, month: number) => year * 12 + month - 1;
+
+// Days between the override's start date and the day the calculated calendar starts that month.
+const getOverrideShift = (override: HijriMonthOverride, variant: HijriCalendarVariant) => {
+  const start = toCalendarDay(override.start_date);
+  for (let distance = 0; distance <= MONTH_START_SEARCH_DAYS; distance++) {
+    for (const shift of distance === 0 ? [0] : [distance, -distance]) {
+      const calculated = calculateHijriDate(start.subtract(shift, "day"), variant);
+      if (calculated.day === 1 && calculated.month === override.hijri_month && calculated.year === override.hijri_year) {
+        return shift;
+      }
+    }
+  }
+  console.warn(`hijri: Override ${override.hijri_month}/${override.hijri_year} is too far from the calculated calendar, ignored.`);
+  return null;
+};
+
+/**
+ * Converts the calendar day of `date` to a Hijri date. The chosen calendar
+ * variant is shifted by the manual day adjustment, or, from the start date of
+ * a month override on, by however much that override moved its month. On the
+ * days before an override the previous month is extended instead of starting
+ * the overridden month early.
+ */
+export const toHijriDate = (date: dayjs.Dayjs | string, config: HijriCalendarConfig, depth = 0): HijriDate => {
+  const day = toCalendarDay(date);
+  const dayKey = day.format("YYYY-MM-DD");
+  const overrides = [...config.monthOverrides].sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  const latestOverride = overrides.filter((override) => override.start_date <= dayKey).pop();
+  const latestShift = latestOverride && day.diff(toCalendarDay(latestOverride.start_date), "day") < OVERRIDE_MAX_AGE_DAYS
+    ? getOverrideShift(latestOverride, config.variant)
+    : null;
+  const shift = latestShift ?? -config.dayAdjustment;
+  const hijriDate = calculateHijriDate(day.subtract(shift, "day"), config.variant);
+
+  const nextOverride = overrides.find((override) => override.start_date > dayKey);
+  if (
+    nextOverride &&
+    depth < MONTH_START_SEARCH_DAYS &&
+    monthIndex(hijriDate.year, hijriDate.month) >= monthIndex(nextOverride.hijri_year, nextOverride.hijri_month)
+  ) {
+    const previous = toHijriDate(day.subtract(1, "day"), config, depth + 1);
+    return { ...previous, day: previous.day + 1 };
+  }
+  return hijriDate;
+};
+
+export const formatHijri = (hijriDate: HijriDate) =>
+  `${hijriDate.day} ${HIJRI_MONTH_NAMES[hijriDate.month - 1]} ${hijriDate.year} H`;
+
+// Formats the Hijri date of the calendar day of `date`, e.g. "17 Ramadan 1447 H".
+export const formatHijriDate = (date: dayjs.Dayjs | string, config: HijriCalendarConfig = DEFAULT_HIJRI_CALENDAR_CONFIG) =>
+  formatHijri(toHijriDate(date, config));
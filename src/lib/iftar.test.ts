@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculateIftarWindow } from "@/lib/iftar";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { JAKARTA_SETTINGS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const timelineOn = (date: string, ramadan = true) =>
+  calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: ramadan }, masjidDate(date));
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("calculateIftarWindow", () => {
+  it("counts down to the Maghrib adhan", () => {
+    const iftar = calculateIftarWindow(timelineOn(THURSDAY), { iftar_countdown_minutes: 15 });
+
+    expect(iftar?.countdownStart.format("HH:mm")).toBe("17:55");
+    expect(iftar?.iftarTime.format("HH:mm")).toBe("18:10");
+    expect(iftar?.prayerWindow.key).toBe("maghrib");
+  });
+
+  it("falls back to the default countdown", () => {
+    expect(calculateIftarWindow(timelineOn(THURSDAY), {})?.countdownStart.format("HH:mm")).toBe("18:00");
+  });
+
+  it("is off outside Ramadan mode or without a countdown", () => {
+    expect(calculateIftarWindow(timelineOn(THURSDAY, false), {})).toBeNull();
+    expect(calculateIftarWindow(timelineOn(THURSDAY), { iftar_countdown_minutes: 0 })).toBeNull();
+  });
+});
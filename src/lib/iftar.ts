@@ -0,0 +1,35 @@
+import dayjs from "dayjs";
+import type { AppSettings } from "@/contexts/AppSettingsContext";
+import { PrayerTimeline, PrayerWindow } from "@/lib/prayerTimes";
+
+export const DEFAULT_IFTAR_COUNTDOWN_MINUTES = 10;
+
+// Doa berbuka puasa (HR. Abu Dawud), shown during the iftar countdown.
+export const BERBUKA_DOA = {
+  arabic: "ذَهَبَ الظَّمَأُ وَابْتَلَّتِ الْعُرُوقُ وَثَبَتَ الْأَجْرُ إِنْ شَاءَ اللهُ",
+  latin: "Dzahabazh zhoma'u wabtallatil 'uruuqu wa tsabatal ajru insyaa Allah",
+  translation: "Telah hilang rasa haus, urat-urat telah basah, dan pahala telah tetap, insya Allah.",
+};
+
+export type IftarSettings = Partial<Pick<AppSettings, "iftar_countdown_minutes">>;
+
+export interface IftarWindow {
+  countdownStart: dayjs.Dayjs;
+  iftarTime: dayjs.Dayjs; // The Maghrib adhan, where the normal adhan and iqomah phases take over
+  prayerWindow: PrayerWindow; // The Maghrib window
+}
+
+/**
+ * The iftar countdown before Maghrib on a fasting day, in place of the usual
+ * pre-adhan countdown. Null outside Ramadan mode or when the countdown is off.
+ */
+export const calculateIftarWindow = (timeline: PrayerTimeline, settings: IftarSettings): IftarWindow | null => {
+  const countdownMinutes = settings.iftar_countdown_minutes ?? DEFAULT_IFTAR_COUNTDOWN_MINUTES;
+  const prayerWindow = timeline.windows.find((window) => window.key === "maghrib");
+  if (!timeline.isRamadanModeActive || countdownMinutes <= 0 || !prayerWindow) return null;
+  return {
+    countdownStart: prayerWindow.adhanTime.subtract(countdownMinutes, "minute"),
+    iftarTime: prayerWindow.adhanTime,
+    prayerWindow,
+  };
+};
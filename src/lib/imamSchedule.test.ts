@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getIndonesianDayOfWeek, ImamSchedule, resolveImamSchedule } from "@/lib/imamSchedule";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { FRIDAY, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const schedule = (overrides: Partial<ImamSchedule>): ImamSchedule => ({
+  id: "schedule",
+  day_of_week: "Jumat",
+  schedule_date: null,
+  prayer_name: "Jumat",
+  imam_name: "Imam Tetap",
+  display_order: 0,
+  ...overrides,
+});
+
+// A weekly Friday row with its usual khatib, and a guest khatib on the pinned Friday only.
+const SCHEDULES: ImamSchedule[] = [
+  schedule({ id: "weekly-jumuah", khatib_name: "Khatib Tetap" }),
+  schedule({ id: "dated-jumuah", schedule_date: FRIDAY, imam_name: "Imam Tamu", khatib_name: "Khatib Tamu" }),
+  schedule({ id: "weekly-isha", day_of_week: "Kamis", prayer_name: "Isya", imam_name: "Imam Isya" }),
+];
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("resolveImamSchedule", () => {
+  it("prefers the assignment for the date over the weekly row", () => {
+    expect(resolveImamSchedule(SCHEDULES, masjidDate(FRIDAY), "Jumat")?.khatib_name).toBe("Khatib Tamu");
+  });
+
+  it("falls back to the weekly row on other Fridays", () => {
+    expect(resolveImamSchedule(SCHEDULES, masjidDate("2026-03-13"), "Jumat")?.khatib_name).toBe("Khatib Tetap");
+  });
+
+  it("matches Jum'at as spelled on the display", () => {
+    expect(getIndonesianDayOfWeek(masjidDate(FRIDAY))).toBe("Jumat");
+    expect(resolveImamSchedule(SCHEDULES, masjidDate(FRIDAY), "Jum'at")?.id).toBe("dated-jumuah");
+  });
+
+  it("uses the weekly row of the weekday, or nothing when there is none", () => {
+    expect(resolveImamSchedule(SCHEDULES, masjidDate(THURSDAY), "Isya")?.imam_name).toBe("Imam Isya");
+    expect(resolveImamSchedule(SCHEDULES, masjidDate(THURSDAY), "Subuh")).toBeNull();
+  });
+});
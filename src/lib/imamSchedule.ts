@@ -0,0 +1,54 @@
+import dayjs from "dayjs";
+
+// Day names as stored in imam_muezzin_schedules.day_of_week, indexed by dayjs' day().
+export const INDONESIAN_DAYS_OF_WEEK = ["Ahad", "Senin", "Selasa", "Rabu", "Kamis", "Jumat", "Sabtu"];
+
+// A row of the imam_muezzin_schedules table. Rows with a schedule_date are
+// assignments for that date only and win over the weekly row for the same prayer.
+export interface ImamSchedule {
+  id: string;
+  day_of_week: string;
+  schedule_date: string | null; // YYYY-MM-DD, null for the weekly pattern
+  prayer_name: string;
+  imam_name: string;
+  muezzin_name?: string | null;
+  khatib_name?: string | null;
+  bilal_name?: string | null;
+  kultum_name?: string | null; // Kultum speaker, Tarawih only
+  // The personnel directory entries behind the names above (see personnel.ts)
+  imam_id?: string | null;
+  muezzin_id?: string | null;
+  khatib_id?: string | null;
+  bilal_id?: string | null;
+  kultum_id?: string | null;
+  display_order: number;
+}
+
+export const getIndonesianDayOfWeek = (date: dayjs.Dayjs) => INDONESIAN_DAYS_OF_WEEK[date.day()];
+
+// "Jum'at" on the display and "Jumat" in the admin name the same prayer and day.
+const normalizeScheduleName = (name: string) => name.replace(/'/g, "").toLowerCase();
+
+/**
+ * The schedule for a prayer on a date: the date-specific assignment when there
+ * is one, otherwise the weekly row for that day of the week. The lowest
+ * display_order wins when several rows match.
+ */
+export const resolveImamSchedule = (
+  schedules: ImamSchedule[],
+  date: dayjs.Dayjs,
+  prayerName: string,
+): ImamSchedule | null => {
+  const day = date.format("YYYY-MM-DD");
+  const dayOfWeek = normalizeScheduleName(getIndonesianDayOfWeek(date));
+  const candidates = schedules
+    .filter((schedule) => normalizeScheduleName(schedule.prayer_name) === normalizeScheduleName(prayerName))
+    .sort((a, b) => a.display_order - b.display_order);
+
+  return candidates.find((schedule) => schedule.schedule_date === day)
+    ?? candidates.find((schedule) => !schedule.schedule_date && normalizeScheduleName(schedule.day_of_week) === dayOfWeek)
+    ?? null;
+};
+
+// The Supabase filter for the rows resolveImamSchedule needs on a date: the weekly pattern plus that date's assignments.
+export const imamScheduleDateFilter = (date: dayjs.Dayjs) => `schedule_date.is.null,schedule_date.eq.${date.format("YYYY-MM-DD")}`;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { HijriCalendarConfig } from "@/lib/hijri";
+import { findNextHijriOccurrence, getUpcomingHolidays, IslamicHoliday } from "@/lib/islamicHolidays";
+import { THURSDAY } from "@/test/fixtures";
+
+// Umm al-Qura: 1 Ramadan 1447 = 2026-02-18, so the Thursday is 16 Ramadan; 1 Syawal = 2026-03-20
+const UMM_AL_QURA: HijriCalendarConfig = { variant: "islamic-umalqura", dayAdjustment: 0, monthOverrides: [] };
+
+const holiday = (id: string, fields: Partial<IslamicHoliday>): IslamicHoliday => ({
+  id,
+  name: id,
+  holiday_date: null,
+  hijri_month: null,
+  hijri_day: null,
+  display_order: 0,
+  ...fields,
+});
+
+describe("findNextHijriOccurrence", () => {
+  it("finds this year's date when it is still ahead", () => {
+    expect(findNextHijriOccurrence(10, 1, THURSDAY, UMM_AL_QURA)).toBe("2026-03-20");
+    expect(findNextHijriOccurrence(12, 10, THURSDAY, UMM_AL_QURA)).toBe("2026-05-27");
+  });
+
+  it("includes today", () => {
+    expect(findNextHijriOccurrence(9, 16, THURSDAY, UMM_AL_QURA)).toBe(THURSDAY);
+  });
+
+  it("moves to next year once the date has passed", () => {
+    expect(findNextHijriOccurrence(9, 1, THURSDAY, UMM_AL_QURA)).toBe("2027-02-08");
+  });
+
+  it("falls on the last day of a 29-day month", () => {
+    expect(findNextHijriOccurrence(9, 30, THURSDAY, UMM_AL_QURA)).toBe("2026-03-19");
+  });
+
+  it("follows the day adjustment", () => {
+    expect(findNextHijriOccurrence(10, 1, THURSDAY, { ...UMM_AL_QURA, dayAdjustment: -1 })).toBe("2026-03-21");
+  });
+});
+
+describe("getUpcomingHolidays", () => {
+  it("orders recurring and one-off holidays by their next date", () => {
+    const upcoming = getUpcomingHolidays([
+      holiday("idul-adha", { hijri_month: 12, hijri_day: 10 }),
+      holiday("past", { holiday_date: "2026-01-01" }),
+      holiday("one-off", { holiday_date: "2026-04-01" }),
+      holiday("idul-fitri", { hijri_month: 10, hijri_day: 1 }),
+    ], THURSDAY, UMM_AL_QURA);
+
+    expect(upcoming.map((entry) => `${entry.id} ${entry.date}`)).toEqual([
+      "idul-fitri 2026-03-20",
+      "one-off 2026-04-01",
+      "idul-adha 2026-05-27",
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import { HijriCalendarConfig, toHijriDate } from "@/lib/hijri";
+
+dayjs.extend(utc);
+
+// A row of the islamic_holidays table. A holiday either recurs every year on
+// a Hijri month/day or falls on a single Gregorian date.
+export interface IslamicHoliday {
+  id: string;
+  name: string;
+  holiday_date: string | null; // YYYY-MM-DD, for a one-off holiday
+  hijri_month: number | null; // 1-12, for a recurring holiday
+  hijri_day: number | null; // 1-30
+  display_order: number;
+}
+
+export interface UpcomingIslamicHoliday extends IslamicHoliday {
+  date: string; // YYYY-MM-DD of the next occurrence
+}
+
+// The holidays the admin panel can add in one go, with their Hijri dates.
+export const STANDARD_HIJRI_HOLIDAYS: { name: string; hijri_month: number; hijri_day: number }[] = [
+  { name: "Tahun Baru Islam", hijri_month: 1, hijri_day: 1 },
+  { name: "Hari Asyura", hijri_month: 1, hijri_day: 10 },
+  { name: "Maulid Nabi Muhammad SAW", hijri_month: 3, hijri_day: 12 },
+  { name: "Isra Mi'raj Nabi Muhammad SAW", hijri_month: 7, hijri_day: 27 },
+  { name: "Nisfu Syakban", hijri_month: 8, hijri_day: 15 },
+  { name: "Awal Ramadan", hijri_month: 9, hijri_day: 1 },
+  { name: "Nuzulul Qur'an", hijri_month: 9, hijri_day: 17 },
+  { name: "Idul Fitri", hijri_month: 10, hijri_day: 1 },
+  { name: "Hari Arafah", hijri_month: 12, hijri_day: 9 },
+  { name: "Idul Adha", hijri_month: 12, hijri_day: 10 },
+];
+
+const MEAN_HIJRI_MONTH_DAYS = 29.53;
+// The estimate of the next occurrence is off by a day or two at most; the search starts this far before it.
+const SEARCH_MARGIN_DAYS = 5;
+const MAX_SEARCH_DAYS = 400;
+
+export const isHijriRecurring = (holiday: Pick<IslamicHoliday, "hijri_month" | "hijri_day">) =>
+  holiday.hijri_month !== null && holiday.hijri_day !== null;
+
+/**
+ * Returns the first day on or after `from` that is `hijriDay` `hijriMonth` in
+ * the masjid's Hijri calendar, as "YYYY-MM-DD". Day 30 falls on the 29th in
+ * years the month has only 29 days.
+ */
+export const findNextHijriOccurrence = (
+  hijriMonth: number,
+  hijriDay: number,
+  from: string,
+  config: HijriCalendarConfig,
+): string | null => {
+  const start = dayjs.utc(from);
+  const today = toHijriDate(from, config);
+  const monthsAhead = (hijriMonth - today.month + 12) % 12;
+  let estimatedDays = Math.round(monthsAhead * MEAN_HIJRI_MONTH_DAYS + hijriDay - today.day);
+  if (estimatedDays < 0) {
+    // Earlier this month; the next one is a year away
+    estimatedDays += Math.round(12 * MEAN_HIJRI_MONTH_DAYS);
+  }
+  const firstDay = Math.max(estimatedDays - SEARCH_MARGIN_DAYS, 0);
+
+  let current = toHijriDate(start.add(firstDay, "day"), config);
+  for (let offset = firstDay; offset < MAX_SEARCH_DAYS; offset++) {
+    const next = toHijriDate(start.add(offset + 1, "day"), config);
+    const isLastDayOfMonth = next.month !== current.month;
+    if (current.month === hijriMonth && (current.day === hijriDay || (isLastDayOfMonth && current.day < hijriDay))) {
+      return start.add(offset, "day").format("YYYY-MM-DD");
+    }
+    current = next;
+  }
+  return null;
+};
+
+/**
+ * The holidays taking place on or after `today` ("YYYY-MM-DD"), soonest first,
+ * with recurring holidays placed on their next Hijri occurrence.
+ */
+export const getUpcomingHolidays = (
+  holidays: IslamicHoliday[],
+  today: string,
+  config: HijriCalendarConfig,
+): UpcomingIslamicHoliday[] =>
+  holidays
+    .map((holiday) => ({
+      ...holiday,
+      date: isHijriRecurring(holiday)
+        ? findNextHijriOccurrence(holiday.hijri_month!, holiday.hijri_day!, today, config)
+        : holiday.holiday_date,
+    }))
+    .filter((holiday): holiday is UpcomingIslamicHoliday => !!holiday.date && holiday.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.display_order - b.display_order);
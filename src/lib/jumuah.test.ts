@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculateJumuahPhaseWindows, getDefaultJumuahPhases } from "@/lib/jumuah";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { FRIDAY, FRIDAY_JUMUAH_PHASES, JAKARTA_SETTINGS, TEST_TIME_ZONE } from "@/test/fixtures";
+
+const describeWindows = (windows: ReturnType<typeof calculateJumuahPhaseWindows>) =>
+  windows.map(({ phase, start, end }) => `${start.format("HH:mm")}-${end.format("HH:mm")} ${phase.name}`);
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("calculateJumuahPhaseWindows", () => {
+  it("anchors the first adhan at the Jum'at time and lays the rest out in order", () => {
+    const windows = calculateJumuahPhaseWindows(masjidDate(`${FRIDAY} 12:04`), FRIDAY_JUMUAH_PHASES);
+
+    expect(describeWindows(windows)).toEqual([
+      "11:54-12:04 Tarhim",
+      "12:04-12:07 Adzan Pertama",
+      "12:07-12:09 Khatib Naik Mimbar",
+      "12:09-12:12 Adzan Kedua",
+      "12:12-12:32 Khutbah",
+      "12:32-12:42 Sholat Jum'at",
+    ]);
+  });
+
+  it("starts at the Jum'at time when there is no adhan phase", () => {
+    const phases = FRIDAY_JUMUAH_PHASES.filter((phase) => phase.phase_type !== "adhan");
+
+    expect(describeWindows(calculateJumuahPhaseWindows(masjidDate(`${FRIDAY} 12:04`), phases))[0]).toBe("12:04-12:14 Tarhim");
+  });
+});
+
+describe("Jum'at window", () => {
+  it("follows the configured phases", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), null, FRIDAY_JUMUAH_PHASES);
+    const jumuahWindow = timeline.windows.find((prayerWindow) => prayerWindow.isJumuah);
+
+    expect(jumuahWindow?.preAdhanStart.format("HH:mm")).toBe("11:54");
+    expect(jumuahWindow?.adhanEnd.format("HH:mm")).toBe("12:07");
+    // The screen darkens for the prayer itself, after the second adhan and the khutbah
+    expect(jumuahWindow?.end.format("HH:mm")).toBe("12:32");
+    expect(jumuahWindow?.darkScreenEnd.format("HH:mm")).toBe("12:42");
+  });
+
+  it("falls back to the default phases, with the configured khutbah and dark screen durations", () => {
+    const settings = { ...JAKARTA_SETTINGS, khutbah_duration_minutes: 30, dark_screen_duration_minutes_dhuhr: 8 };
+    const timeline = calculatePrayerTimeline(settings, masjidDate(FRIDAY));
+    const jumuahWindow = timeline.windows.find((prayerWindow) => prayerWindow.isJumuah);
+
+    expect(jumuahWindow?.jumuahPhases.map(({ phase }) => phase.name)).toEqual(
+      getDefaultJumuahPhases(30, 8).map((phase) => phase.name),
+    );
+    expect(jumuahWindow?.darkScreenEnd.format("HH:mm")).toBe("12:44");
+  });
+});
@@ -0,0 +1,64 @@
+import dayjs from "dayjs";
+
+export const DEFAULT_JUMUAH_COUNTDOWN_MINUTES = 5;
+export const DEFAULT_JUMUAH_ADHAN_MINUTES = 2;
+
+export type JumuahPhaseType = "countdown" | "announcement" | "adhan" | "khutbah" | "prayer";
+
+export const JUMUAH_PHASE_TYPES: { value: JumuahPhaseType; label: string }[] = [
+  { value: "countdown", label: "Hitung Mundur & Info Jum'at" },
+  { value: "announcement", label: "Pengumuman / Tarhim" },
+  { value: "adhan", label: "Adzan" },
+  { value: "khutbah", label: "Khutbah" },
+  { value: "prayer", label: "Sholat (Layar Gelap)" },
+];
+
+// A row of the jumuah_phases table: one step of the Friday timeline, in display_order.
+export interface JumuahPhase {
+  id: string;
+  name: string; // Shown on the overlay, e.g. "Adzan Pertama"
+  phase_type: JumuahPhaseType;
+  duration_minutes: number;
+  message: string | null; // Extra overlay text for the phase
+  audio_url: string | null; // Played once as the phase starts
+  display_order: number;
+}
+
+export interface JumuahPhaseWindow {
+  phase: JumuahPhase;
+  start: dayjs.Dayjs;
+  end: dayjs.Dayjs;
+}
+
+/**
+ * The timeline used until the masjid configures its own: a countdown to a
+ * single adhan, the khutbah and the prayer, as before the timeline was configurable.
+ */
+export const getDefaultJumuahPhases = (khutbahDurationMinutes: number, prayerDurationMinutes: number): JumuahPhase[] => [
+  { id: "default-countdown", name: "Menjelang Adzan", phase_type: "countdown", duration_minutes: DEFAULT_JUMUAH_COUNTDOWN_MINUTES, message: null, audio_url: null, display_order: 0 },
+  { id: "default-adhan", name: "Adzan Jum'at", phase_type: "adhan", duration_minutes: DEFAULT_JUMUAH_ADHAN_MINUTES, message: null, audio_url: null, display_order: 1 },
+  { id: "default-khutbah", name: "Khutbah Jum'at", phase_type: "khutbah", duration_minutes: khutbahDurationMinutes, message: null, audio_url: null, display_order: 2 },
+  { id: "default-prayer", name: "Sholat Jum'at", phase_type: "prayer", duration_minutes: prayerDurationMinutes, message: null, audio_url: null, display_order: 3 },
+];
+
+/**
+ * Lays the phases out back to back so that the first adhan starts at the
+ * Jum'at time: the phases before it count back from the adhan, the rest follow
+ * it. Without an adhan phase the first phase starts at the Jum'at time.
+ */
+export const calculateJumuahPhaseWindows = (adhanTime: dayjs.Dayjs, phases: JumuahPhase[]): JumuahPhaseWindow[] => {
+  const ordered = [...phases].sort((a, b) => a.display_order - b.display_order);
+  const firstAdhanIndex = Math.max(ordered.findIndex((phase) => phase.phase_type === "adhan"), 0);
+  const leadMinutes = ordered.slice(0, firstAdhanIndex).reduce((total, phase) => total + phase.duration_minutes, 0);
+
+  let start = adhanTime.subtract(leadMinutes, "minute");
+  return ordered.map((phase) => {
+    const end = start.add(phase.duration_minutes, "minute");
+    const phaseWindow = { phase, start, end };
+    start = end;
+    return phaseWindow;
+  });
+};
+
+export const describeJumuahPhaseType = (phaseType: JumuahPhaseType) =>
+  JUMUAH_PHASE_TYPES.find((option) => option.value === phaseType)?.label ?? phaseType;
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculatePrayerTimeline, PrayerTimelineSettings } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { calculateEidTimeline } from "@/lib/eidPrayer";
+import { calculateTarawihWindow } from "@/lib/tarawih";
+import { getSahurReminderEvents } from "@/lib/sahur";
+import { calculateIftarWindow } from "@/lib/iftar";
+import { describeOverlayState, formatCountdown, getOverlayState, IDLE_OVERLAY_STATE } from "@/lib/overlayState";
+import { FRIDAY, FRIDAY_EID_PRAYER, FRIDAY_JUMUAH_PHASES, JAKARTA_SETTINGS, SAHUR_REMINDERS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const stateAt = (date: string, time: string, settings: PrayerTimelineSettings = JAKARTA_SETTINGS) =>
+  getOverlayState(calculatePrayerTimeline(settings, masjidDate(date)), masjidDate(`${date} ${time}`));
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("getOverlayState", () => {
+  it("is idle without a timeline", () => {
+    expect(getOverlayState(null, masjidDate(`${THURSDAY} 15:05`))).toBe(IDLE_OVERLAY_STATE);
+  });
+
+  it("steps through the phases of a regular prayer", () => {
+    // Ashar at 15:05: 30 s countdown, 2 min adhan, 5 min iqomah countdown, 30 s iqomah, 5 min dark screen
+    const phases = ["15:04:29", "15:04:30", "15:05:00", "15:07:00", "15:12:00", "15:12:30", "15:16:59", "15:17:00"]
+      .map((time) => describeOverlayState(stateAt(THURSDAY, time)));
+
+    expect(phases).toEqual([
+      "idle",
+      "pre-adhan (Ashar)",
+      "adhan (Ashar)",
+      "pre-iqomah (Ashar)",
+      "iqomah (Ashar)",
+      "in-prayer (Ashar)",
+      "in-prayer (Ashar)",
+      "idle",
+    ]);
+  });
+
+  it("steps through the khutbah on Friday", () => {
+    const phases = ["11:58:59", "11:59:00", "12:04:00", "12:06:00", "12:51:00", "12:56:00"]
+      .map((time) => describeOverlayState(stateAt(FRIDAY, time)));
+
+    expect(phases).toEqual([
+      "idle",
+      "pre-adhan (Jum'at)",
+      "adhan (Jum'at)",
+      "khutbah (Jum'at)",
+      "in-prayer (Jum'at)",
+      "idle",
+    ]);
+  });
+
+  it("follows a configured Friday timeline with two adhans", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), null, FRIDAY_JUMUAH_PHASES);
+    const stateAtFriday = (time: string) => getOverlayState(timeline, masjidDate(`${FRIDAY} ${time}`));
+    const phases = ["11:53:59", "11:54:00", "12:04:00", "12:07:00", "12:09:00", "12:12:00", "12:32:00", "12:42:00"]
+      .map((time) => describeOverlayState(stateAtFriday(time)));
+
+    expect(phases).toEqual([
+      "idle",
+      "announcement (Jum'at)",
+      "adhan (Jum'at)",
+      "announcement (Jum'at)",
+      "adhan (Jum'at)",
+      "khutbah (Jum'at)",
+      "in-prayer (Jum'at)",
+      "idle",
+    ]);
+    expect(stateAtFriday("12:10:00").phaseStart?.format("HH:mm")).toBe("12:09");
+    expect(stateAtFriday("12:10:00").phaseEnd?.format("HH:mm")).toBe("12:12");
+  });
+
+  it("reports when the current phase ends", () => {
+    const state = stateAt(THURSDAY, "15:08:15");
+
+    expect(state.phase).toBe("pre-iqomah");
+    expect(state.phaseStart?.format("HH:mm:ss")).toBe("15:07:00");
+    expect(state.phaseEnd?.format("HH:mm:ss")).toBe("15:12:00");
+  });
+
+  it("follows the per-prayer durations", () => {
+    const settings = { ...JAKARTA_SETTINGS, iqomah_countdown_duration_asr: 600, dark_screen_duration_minutes_asr: 0 };
+
+    // Ten minute iqomah countdown and no dark screen, which also cuts the iqomah call short
+    expect(stateAt(THURSDAY, "15:16:59", settings).phase).toBe("pre-iqomah");
+    expect(stateAt(THURSDAY, "15:17:00", settings).phase).toBe("idle");
+  });
+
+  describe("Imsak", () => {
+    const ramadan = { ...JAKARTA_SETTINGS, is_ramadan_mode_active: true };
+
+    it("shows the Imsak notice in Ramadan mode only", () => {
+      expect(stateAt(FRIDAY, "04:30:05", ramadan).phase).toBe("imsak");
+      expect(stateAt(FRIDAY, "04:30:10", ramadan).phase).toBe("idle");
+      expect(stateAt(FRIDAY, "04:30:05").phase).toBe("idle");
+    });
+
+    it("takes priority over an overlapping prayer window", () => {
+      // Without a lead time Imsak coincides with the Subuh adhan
+      const settings = { ...ramadan, imsak_lead_minutes: 0, imsak_overlay_duration_seconds: 60 };
+
+      expect(stateAt(FRIDAY, "04:39:45", settings).phase).toBe("pre-adhan");
+      expect(stateAt(FRIDAY, "04:40:30", settings).phase).toBe("imsak");
+      expect(describeOverlayState(stateAt(FRIDAY, "04:41:00", settings))).toBe("adhan (Subuh)");
+    });
+
+    it("shows each sahur reminder for its overlay duration, counting down to Imsak", () => {
+      const timeline = calculatePrayerTimeline(ramadan, masjidDate(THURSDAY));
+      const sahurReminders = getSahurReminderEvents(timeline, SAHUR_REMINDERS);
+      const sahurStateAt = (time: string) => getOverlayState(timeline, masjidDate(`${THURSDAY} ${time}`), { sahurReminders });
+
+      expect(["02:29:59", "02:30:00", "02:35:00", "04:00:00"].map((time) => sahurStateAt(time).phase)).toEqual([
+        "idle",
+        "sahur",
+        "idle",
+        "sahur",
+      ]);
+      // The 45 minute overlay of the second reminder stops at Imsak, where the Imsak notice takes over
+      expect(sahurStateAt("04:10:00").phaseEnd?.format("HH:mm")).toBe("04:30");
+      expect(sahurStateAt("04:30:05").phase).toBe("imsak");
+    });
+
+    it("counts down to iftar in place of the Maghrib pre-adhan, then hands over to the adhan", () => {
+      const timeline = calculatePrayerTimeline(ramadan, masjidDate(THURSDAY));
+      const iftarWindow = calculateIftarWindow(timeline, { iftar_countdown_minutes: 10 });
+      const phases = ["17:59:59", "18:00:00", "18:09:45", "18:10:00"]
+        .map((time) => describeOverlayState(getOverlayState(timeline, masjidDate(`${THURSDAY} ${time}`), { iftarWindow })));
+
+      expect(phases).toEqual(["idle", "iftar-countdown (Maghrib)", "iftar-countdown (Maghrib)", "adhan (Maghrib)"]);
+    });
+  });
+
+  it("steps through the Ied prayer and khutbah", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY));
+    const eid = calculateEidTimeline(FRIDAY_EID_PRAYER);
+    const phases = ["05:59:59", "06:00:00", "06:30:00", "06:45:00", "07:04:59", "07:05:00"]
+      .map((time) => getOverlayState(timeline, masjidDate(`${FRIDAY} ${time}`), { eidTimeline: eid }).phase);
+
+    expect(phases).toEqual(["idle", "eid-countdown", "eid-prayer", "eid-khutbah", "eid-khutbah", "idle"]);
+    expect(getOverlayState(timeline, masjidDate(`${FRIDAY} 06:10`), { eidTimeline: eid }).phaseEnd?.format("HH:mm")).toBe("06:30");
+  });
+
+  it("counts down to Tarawih once Isya is over, then darkens the screen", () => {
+    // Isya at 19:20 with its dark screen until 19:32; Tarawih at 19:35 after a 20 minute countdown
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+    const tarawihWindow = calculateTarawihWindow(timeline, { tarawih_start_offset_minutes: 15, tarawih_countdown_minutes: 20 });
+    const phases = ["19:14:59", "19:15:00", "19:25:00", "19:32:00", "19:35:00", "20:34:59", "20:35:00"]
+      .map((time) => describeOverlayState(getOverlayState(timeline, masjidDate(`${THURSDAY} ${time}`), { tarawihWindow })));
+
+    expect(phases).toEqual([
+      "idle",
+      "tarawih-countdown",
+      "pre-iqomah (Isya)",
+      "tarawih-countdown",
+      "tarawih-in-prayer",
+      "tarawih-in-prayer",
+      "idle",
+    ]);
+  });
+});
+
+describe("formatCountdown", () => {
+  it("counts whole minutes past an hour and never goes negative", () => {
+    const target = masjidDate(`${FRIDAY} 12:51`);
+
+    expect(formatCountdown(target, masjidDate(`${FRIDAY} 11:50`))).toBe("61:00");
+    expect(formatCountdown(target, masjidDate(`${FRIDAY} 12:50:30`))).toBe("00:30");
+    expect(formatCountdown(target, masjidDate(`${FRIDAY} 12:52`))).toBe("00:00");
+  });
+});
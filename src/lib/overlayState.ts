@@ -0,0 +1,191 @@
+import dayjs from "dayjs";
+import { EidTimeline } from "@/lib/eidPrayer";
+import { IftarWindow } from "@/lib/iftar";
+import { JumuahPhaseType } from "@/lib/jumuah";
+import { PrayerTimeline, PrayerWindow } from "@/lib/prayerTimes";
+import { SahurReminderEvent } from "@/lib/sahur";
+import { TarawihWindow } from "@/lib/tarawih";
+
+// How long the "Iqomah" call is shown before the screen goes dark for the prayer.
+export const IQOMAH_CALL_SECONDS = 30;
+
+/**
+ * The full-screen overlay phases, in the order a prayer goes through them:
+ * - imsak: Imsak notice (Ramadan mode only), takes priority over everything else
+ * - sahur: "Waktu Sahur" countdown to Imsak after a sahur reminder (Ramadan mode only)
+ * - iftar-countdown: countdown to Maghrib with the berbuka doa, in place of its pre-adhan (Ramadan mode only)
+ * - pre-adhan: countdown to the adhan
+ * - adhan: the adhan is being called
+ * - pre-iqomah: countdown to the iqomah (not on Jum'at)
+ * - iqomah: the iqomah call itself
+ * - announcement: a Jum'at announcement or tarhim slot
+ * - khutbah: the Jum'at khutbah, instead of pre-iqomah/iqomah
+ * - in-prayer: dark screen while the prayer is held
+ * On the Ied morning the Eid prayer has its own phases, ahead of the prayer windows:
+ * - eid-countdown: countdown to the Ied prayer
+ * - eid-prayer: the Ied prayer is being held
+ * - eid-khutbah: the Ied khutbah, which follows the prayer
+ * On Tarawih nights, once the Isya phases are over:
+ * - tarawih-countdown: countdown to Tarawih
+ * - tarawih-in-prayer: dark screen while Tarawih is prayed
+ */
+export type OverlayPhase =
+  | "idle"
+  | "imsak"
+  | "sahur"
+  | "iftar-countdown"
+  | "pre-adhan"
+  | "adhan"
+  | "pre-iqomah"
+  | "iqomah"
+  | "announcement"
+  | "khutbah"
+  | "in-prayer"
+  | "eid-countdown"
+  | "eid-prayer"
+  | "eid-khutbah"
+  | "tarawih-countdown"
+  | "tarawih-in-prayer";
+
+// Phases rendered by PrayerCountdownOverlay, JumuahInfoOverlay and EidPrayerOverlay respectively.
+export const PRAYER_OVERLAY_PHASES = ["pre-adhan", "adhan", "pre-iqomah", "iqomah"] as const;
+export const JUMUAH_OVERLAY_PHASES = ["pre-adhan", "announcement", "adhan", "khutbah"] as const;
+export const EID_OVERLAY_PHASES = ["eid-countdown", "eid-prayer", "eid-khutbah"] as const;
+export type PrayerOverlayPhase = (typeof PRAYER_OVERLAY_PHASES)[number];
+export type JumuahOverlayPhase = (typeof JUMUAH_OVERLAY_PHASES)[number];
+export type EidOverlayPhase = (typeof EID_OVERLAY_PHASES)[number];
+
+export const isPrayerOverlayPhase = (phase: OverlayPhase): phase is PrayerOverlayPhase =>
+  (PRAYER_OVERLAY_PHASES as readonly OverlayPhase[]).includes(phase);
+
+export const isJumuahOverlayPhase = (phase: OverlayPhase): phase is JumuahOverlayPhase =>
+  (JUMUAH_OVERLAY_PHASES as readonly OverlayPhase[]).includes(phase);
+
+export const isEidOverlayPhase = (phase: OverlayPhase): phase is EidOverlayPhase =>
+  (EID_OVERLAY_PHASES as readonly OverlayPhase[]).includes(phase);
+
+export interface OverlayState {
+  phase: OverlayPhase;
+  prayerWindow: PrayerWindow | null; // The prayer the phase belongs to, null for idle, imsak, sahur, Eid and Tarawih
+  phaseStart: dayjs.Dayjs | null;
+  phaseEnd: dayjs.Dayjs | null; // Target of the countdown shown during the phase
+}
+
+export const IDLE_OVERLAY_STATE: OverlayState = { phase: "idle", prayerWindow: null, phaseStart: null, phaseEnd: null };
+
+// The overlay phase each step of the configured Friday timeline is shown as.
+const JUMUAH_PHASE_OVERLAY: Record<JumuahPhaseType, OverlayPhase> = {
+  countdown: "pre-adhan",
+  announcement: "announcement",
+  adhan: "adhan",
+  khutbah: "khutbah",
+  prayer: "in-prayer",
+};
+
+// The consecutive phases of one prayer window, each starting where the previous one ends.
+const getPrayerPhases = (prayerWindow: PrayerWindow): { phase: OverlayPhase; end: dayjs.Dayjs }[] => {
+  const { adhanTime, adhanEnd, iqomahTime, darkScreenEnd } = prayerWindow;
+  if (prayerWindow.isJumuah || !iqomahTime) {
+    return prayerWindow.jumuahPhases.map(({ phase, end }) => ({ phase: JUMUAH_PHASE_OVERLAY[phase.phase_type], end }));
+  }
+  const iqomahCallEnd = iqomahTime.add(IQOMAH_CALL_SECONDS, "second");
+  return [
+    { phase: "pre-adhan", end: adhanTime },
+    { phase: "adhan", end: adhanEnd },
+    { phase: "pre-iqomah", end: iqomahTime },
+    { phase: "iqomah", end: iqomahCallEnd.isBefore(darkScreenEnd) ? iqomahCallEnd : darkScreenEnd },
+    { phase: "in-prayer", end: darkScreenEnd },
+  ];
+};
+
+// Compared as epoch milliseconds: isBetween() on time zone aware objects is too slow to run for every window each tick.
+const isWithin = (nowMs: number, start: dayjs.Dayjs, end: dayjs.Dayjs) => nowMs >= start.valueOf() && nowMs < end.valueOf();
+
+// Events outside the five daily prayers that have overlay phases of their own.
+export interface OverlayEvents {
+  eidTimeline?: EidTimeline | null;
+  tarawihWindow?: TarawihWindow | null;
+  sahurReminders?: SahurReminderEvent[];
+  iftarWindow?: IftarWindow | null;
+}
+
+/**
+ * Derives the overlay state for `now` from the prayer timeline and the day's
+ * other events (sahur reminders, iftar, the Ied morning, Tarawih). Every overlay renders from this
+ * single result, so they can never disagree about the phase.
+ */
+export const getOverlayState = (
+  timeline: PrayerTimeline | null,
+  now: dayjs.Dayjs,
+  { eidTimeline = null, tarawihWindow = null, sahurReminders = [], iftarWindow = null }: OverlayEvents = {},
+): OverlayState => {
+  if (!timeline) return IDLE_OVERLAY_STATE;
+  const nowMs = now.valueOf();
+
+  if (timeline.isRamadanModeActive) {
+    const imsakTime = timeline.times.imsak;
+    const imsakEnd = imsakTime.add(timeline.imsakOverlayDurationSeconds, "second");
+    if (isWithin(nowMs, imsakTime, imsakEnd)) {
+      return { phase: "imsak", prayerWindow: null, phaseStart: imsakTime, phaseEnd: imsakEnd };
+    }
+  }
+
+  const sahurReminder = sahurReminders.find((reminder) => isWithin(nowMs, reminder.time, reminder.overlayEnd));
+  if (sahurReminder) {
+    return { phase: "sahur", prayerWindow: null, phaseStart: sahurReminder.time, phaseEnd: sahurReminder.overlayEnd };
+  }
+
+  if (eidTimeline && isWithin(nowMs, eidTimeline.countdownStart, eidTimeline.khutbahEnd)) {
+    const eidPhases: { phase: OverlayPhase; start: dayjs.Dayjs; end: dayjs.Dayjs }[] = [
+      { phase: "eid-countdown", start: eidTimeline.countdownStart, end: eidTimeline.prayerTime },
+      { phase: "eid-prayer", start: eidTimeline.prayerTime, end: eidTimeline.prayerEnd },
+      { phase: "eid-khutbah", start: eidTimeline.prayerEnd, end: eidTimeline.khutbahEnd },
+    ];
+    const current = eidPhases.find(({ start, end }) => isWithin(nowMs, start, end));
+    if (current) {
+      return { phase: current.phase, prayerWindow: null, phaseStart: current.start, phaseEnd: current.end };
+    }
+  }
+
+  // Runs until the Maghrib adhan, so it also covers the Maghrib pre-adhan countdown
+  if (iftarWindow && isWithin(nowMs, iftarWindow.countdownStart, iftarWindow.iftarTime)) {
+    return { phase: "iftar-countdown", prayerWindow: iftarWindow.prayerWindow, phaseStart: iftarWindow.countdownStart, phaseEnd: iftarWindow.iftarTime };
+  }
+
+  for (const prayerWindow of timeline.windows) {
+    if (!isWithin(nowMs, prayerWindow.preAdhanStart, prayerWindow.darkScreenEnd)) continue;
+    let phaseStart = prayerWindow.preAdhanStart;
+    for (const { phase, end } of getPrayerPhases(prayerWindow)) {
+      if (isWithin(nowMs, phaseStart, end)) {
+        return { phase, prayerWindow, phaseStart, phaseEnd: end };
+      }
+      phaseStart = end;
+    }
+  }
+
+  if (tarawihWindow) {
+    if (isWithin(nowMs, tarawihWindow.countdownStart, tarawihWindow.start)) {
+      return { phase: "tarawih-countdown", prayerWindow: null, phaseStart: tarawihWindow.countdownStart, phaseEnd: tarawihWindow.start };
+    }
+    if (isWithin(nowMs, tarawihWindow.start, tarawihWindow.end)) {
+      return { phase: "tarawih-in-prayer", prayerWindow: null, phaseStart: tarawihWindow.start, phaseEnd: tarawihWindow.end };
+    }
+  }
+
+  return IDLE_OVERLAY_STATE;
+};
+
+export const isSameOverlayState = (a: OverlayState, b: OverlayState) =>
+  a.phase === b.phase &&
+  a.prayerWindow?.key === b.prayerWindow?.key &&
+  a.phaseStart?.valueOf() === b.phaseStart?.valueOf() &&
+  a.phaseEnd?.valueOf() === b.phaseEnd?.valueOf();
+
+export const describeOverlayState = (state: OverlayState) =>
+  state.prayerWindow ? `${state.phase} (${state.prayerWindow.name})` : state.phase;
+
+// Formats the time left until `target` as mm:ss, for the overlay countdowns.
+export const formatCountdown = (target: dayjs.Dayjs, now: dayjs.Dayjs) => {
+  const totalSeconds = Math.max(0, Math.floor(target.diff(now) / 1000));
+  return `${String(Math.floor(totalSeconds / 60)).padStart(2, "0")}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
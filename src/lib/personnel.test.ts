@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { describePersonnelRoles, formatPersonnelName, Personnel, resolveSchedulePerson } from "@/lib/personnel";
+import { ImamSchedule } from "@/lib/imamSchedule";
+
+const PERSONNEL: Personnel[] = [
+  { id: "ustadz-ahmad", name: "Ahmad", title: "Ustadz", photo_url: "ahmad.jpg", phone: null, roles: ["imam", "khatib"] },
+  { id: "bilal-umar", name: "Umar", title: null, photo_url: null, phone: "0812 3456 7890", roles: ["bilal", "muezzin"] },
+];
+
+// A Friday row linked to the directory for the imam and khatib, with the muezzin still as free text.
+const SCHEDULE: ImamSchedule = {
+  id: "jumuah",
+  day_of_week: "Jumat",
+  schedule_date: null,
+  prayer_name: "Jumat",
+  imam_id: "ustadz-ahmad",
+  imam_name: "Ahmad (lama)",
+  khatib_id: "ustadz-ahmad",
+  khatib_name: "Ahmad",
+  muezzin_id: null,
+  muezzin_name: "Pak Salim",
+  bilal_id: null,
+  bilal_name: null,
+  display_order: 0,
+};
+
+describe("resolveSchedulePerson", () => {
+  it("shows the linked person with their title and photo", () => {
+    const imam = resolveSchedulePerson(SCHEDULE, "imam", PERSONNEL);
+
+    expect(imam).toEqual({ name: "Ahmad", title: "Ustadz", photo_url: "ahmad.jpg" });
+    expect(imam && formatPersonnelName(imam)).toBe("Ustadz Ahmad");
+  });
+
+  it("falls back to the stored name for unlinked or deleted people", () => {
+    expect(resolveSchedulePerson(SCHEDULE, "muezzin", PERSONNEL)).toEqual({ name: "Pak Salim", title: null, photo_url: null });
+    expect(resolveSchedulePerson(SCHEDULE, "khatib", [])?.name).toBe("Ahmad");
+  });
+
+  it("is null when nobody has the role", () => {
+    expect(resolveSchedulePerson(SCHEDULE, "bilal", PERSONNEL)).toBeNull();
+    expect(resolveSchedulePerson(null, "imam", PERSONNEL)).toBeNull();
+  });
+});
+
+describe("describePersonnelRoles", () => {
+  it("lists the roles in the directory's order", () => {
+    expect(describePersonnelRoles(["muezzin", "bilal"])).toBe("Muadzin, Bilal");
+  });
+});
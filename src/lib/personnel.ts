@@ -0,0 +1,62 @@
+import { ImamSchedule } from "@/lib/imamSchedule";
+
+export type PersonnelRole = "imam" | "muezzin" | "khatib" | "bilal" | "kultum";
+
+export const PERSONNEL_ROLES: { value: PersonnelRole; label: string }[] = [
+  { value: "imam", label: "Imam" },
+  { value: "muezzin", label: "Muadzin" },
+  { value: "khatib", label: "Khatib" },
+  { value: "bilal", label: "Bilal" },
+  { value: "kultum", label: "Penceramah Kultum" },
+];
+
+// A row of the personnel table: one person who can be scheduled, in any of their roles.
+export interface Personnel {
+  id: string;
+  name: string;
+  title: string | null; // Shown before the name, e.g. "Ustadz" or "KH"
+  photo_url: string | null;
+  phone: string | null;
+  roles: PersonnelRole[];
+}
+
+// The person shown for a role on a schedule, from the directory or, for rows saved before it, the stored name.
+export interface SchedulePerson {
+  name: string;
+  title: string | null;
+  photo_url: string | null;
+}
+
+// The id and name columns of imam_muezzin_schedules for each role. The name is kept next to the id as it was when saved.
+export const SCHEDULE_PERSONNEL_FIELDS: Record<PersonnelRole, { idField: `${PersonnelRole}_id`; nameField: `${PersonnelRole}_name` }> = {
+  imam: { idField: "imam_id", nameField: "imam_name" },
+  muezzin: { idField: "muezzin_id", nameField: "muezzin_name" },
+  khatib: { idField: "khatib_id", nameField: "khatib_name" },
+  bilal: { idField: "bilal_id", nameField: "bilal_name" },
+  kultum: { idField: "kultum_id", nameField: "kultum_name" },
+};
+
+export const formatPersonnelName = (person: Pick<SchedulePerson, "name" | "title">) =>
+  person.title ? `${person.title} ${person.name}` : person.name;
+
+export const describePersonnelRoles = (roles: PersonnelRole[]) =>
+  PERSONNEL_ROLES.filter((option) => roles.includes(option.value)).map((option) => option.label).join(", ");
+
+/**
+ * The person scheduled for a role: the linked directory entry when there is
+ * one, otherwise the free-text name of older rows, or null when nobody is set.
+ */
+export const resolveSchedulePerson = (
+  schedule: ImamSchedule | null,
+  role: PersonnelRole,
+  personnel: Personnel[],
+): SchedulePerson | null => {
+  if (!schedule) return null;
+  const { idField, nameField } = SCHEDULE_PERSONNEL_FIELDS[role];
+  const person = personnel.find((candidate) => candidate.id === schedule[idField]);
+  if (person) {
+    return { name: person.name, title: person.title, photo_url: person.photo_url };
+  }
+  const name = schedule[nameField];
+  return typeof name === "string" && name ? { name, title: null, photo_url: null } : null;
+};
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { parsePrayerScheduleRows } from "@/lib/prayerScheduleImport";
+import { setMasjidTimeZone } from "@/lib/clock";
+import { DEFAULT_HIJRI_CALENDAR_CONFIG } from "@/lib/hijri";
+import { FRIDAY, JAKARTA_SETTINGS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+// A Kemenag style table: a title block above the header, day-first dates and HH.mm times.
+const HEADER = ["No", "Tanggal", "Imsak", "Subuh", "Terbit", "Dzuhur", "Ashar", "Maghrib", "Isya"];
+const THURSDAY_ROW = [1, "05/03/2026", "04.30", "04.42", "05.58", "12.04", "15.05", "18.10", "19.20"];
+const FRIDAY_ROW = [2, "06-03-2026", "04:30", "04:40", "05:58", "12:04", "15:06", "18:10", "19:19"];
+
+const parse = (rows: unknown[][]) => parsePrayerScheduleRows(rows, JAKARTA_SETTINGS, DEFAULT_HIJRI_CALENDAR_CONFIG);
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("parsePrayerScheduleRows", () => {
+  it("finds the header below a title block and reads day-first dates and HH.mm times", () => {
+    const schedule = parse([["JADWAL IMSAKIYAH"], ["Jakarta Pusat"], [], HEADER, THURSDAY_ROW, FRIDAY_ROW]);
+
+    expect(schedule.fileErrors).toEqual([]);
+    expect(schedule.columns).toEqual(["imsak", "fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha"]);
+    expect(schedule.rows.map((row) => [row.rowNumber, row.date, row.errors])).toEqual([
+      [5, THURSDAY, []],
+      [6, FRIDAY, []],
+    ]);
+    expect(schedule.rows[0].times.fajr).toBe("04:42");
+    expect(schedule.rows[0].diffMinutes.fajr).toBe(2);
+    expect(schedule.rows[1].diffMinutes.fajr).toBe(0);
+  });
+
+  it("rejects a date listed twice", () => {
+    const schedule = parse([HEADER, THURSDAY_ROW, [3, "2026-03-05", "04.30", "04.40"]]);
+
+    expect(schedule.rows[0].errors).toEqual([]);
+    expect(schedule.rows[1].errors).toEqual(["Tanggal 2026-03-05 muncul lebih dari sekali."]);
+  });
+
+  it("rejects times that are not in the order of the day", () => {
+    const schedule = parse([HEADER, [1, "05/03/2026", "04.30", "04.40", "05.58", "12.04", "15.05", "19.20", "18.10"]]);
+
+    expect(schedule.rows[0].errors).toEqual([
+      "Urutan waktu tidak wajar (setiap waktu harus lebih lambat dari waktu sebelumnya).",
+    ]);
+    expect(schedule.rows[0].diffMinutes).toEqual({});
+  });
+
+  it("reports invalid cells and a missing date column", () => {
+    const schedule = parse([HEADER, [1, "31/02/2026", "04.30", "25.00"]]);
+
+    expect(schedule.rows[0].errors).toEqual(['Tanggal "31/02/2026" tidak valid.', 'Waktu Subuh "25.00" tidak valid.']);
+    expect(parse([["Subuh", "Maghrib"], ["04:40", "18:10"]]).fileErrors).toEqual([
+      "Kolom tanggal tidak ditemukan. Pastikan ada kolom berjudul \"Tanggal\".",
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import dayjs from "dayjs";
+import * as XLSX from "xlsx";
+import { masjidDate, resolveTimeZone } from "@/lib/clock";
+import { HijriCalendarConfig } from "@/lib/hijri";
+import { isRamadanModeActiveOn, RamadanModeSettings } from "@/lib/ramadan";
+import {
+  calculatePrayerTimeline,
+  OVERRIDABLE_PRAYER_KEYS,
+  parseTimeOnDay,
+  PRAYER_DISPLAY_NAMES,
+  PrayerKey,
+  PrayerTimelineSettings,
+} from "@/lib/prayerTimes";
+
+type ImportColumn = "date" | PrayerKey;
+
+// Accepted header names per column, compared after lowercasing and stripping everything but letters.
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  date: ["tanggal", "tgl", "date"],
+  imsak: ["imsak", "imsyak"],
+  fajr: ["subuh", "shubuh", "fajr", "fajar"],
+  sunrise: ["terbit", "syuruq", "syuruk", "sunrise"],
+  dhuhr: ["dzuhur", "zuhur", "dhuhur", "duhur", "dhuhr", "lohor"],
+  asr: ["ashar", "asar", "asr"],
+  maghrib: ["maghrib", "magrib"],
+  isha: ["isya", "isyak", "isha"],
+};
+
+// Official tables often start with a title block, so the header row is searched for.
+const MAX_HEADER_SEARCH_ROWS = 10;
+
+export interface ImportedScheduleRow {
+  rowNumber: number; // 1-based row number in the file, for error messages
+  date: string | null; // YYYY-MM-DD
+  times: Partial<Record<PrayerKey, string>>; // HH:mm, only for columns present in the file
+  diffMinutes: Partial<Record<PrayerKey, number>>; // Imported minus calculated time
+  errors: string[];
+}
+
+export interface ImportedSchedule {
+  columns: PrayerKey[]; // Prayer columns found in the file, in day order
+  rows: ImportedScheduleRow[];
+  fileErrors: string[];
+}
+
+const normalizeHeader = (value: unknown) => String(value ?? "").toLowerCase().replace(/[^a-z]/g, "");
+
+const findColumn = (header: unknown[], column: ImportColumn) =>
+  header.findIndex((cell) => COLUMN_ALIASES[column].includes(normalizeHeader(cell)));
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === "";
+
+// Parses a spreadsheet date cell: an Excel serial number or a YYYY-MM-DD / DD-MM-YYYY style string.
+const parseDateCell = (value: unknown): string | null => {
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}` : null;
+  }
+  const text = String(value ?? "").trim();
+  const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/); // Indonesian order, e.g. 01/03/2026
+  let date: string;
+  if (yearFirst) {
+    date = `${yearFirst[1]}-${pad(Number(yearFirst[2]))}-${pad(Number(yearFirst[3]))}`;
+  } else if (dayFirst) {
+    date = `${dayFirst[3]}-${pad(Number(dayFirst[2]))}-${pad(Number(dayFirst[1]))}`;
+  } else {
+    return null;
+  }
+  return dayjs(date).format("YYYY-MM-DD") === date ? date : null;
+};
+
+// Parses a spreadsheet time cell: an Excel day fraction or an "HH:mm" / "HH.mm" string.
+const parseTimeCell = (value: unknown): string | null => {
+  if (typeof value === "number") {
+    const parsed = value >= 0 && value < 1 ? XLSX.SSF.parse_date_code(value) : null;
+    return parsed ? `${pad(parsed.H)}:${pad(parsed.M)}` : null;
+  }
+  const time = parseTimeOnDay(dayjs(), String(value ?? ""));
+  return time ? time.format("HH:mm") : null;
+};
+
+/**
+ * Parses the rows of an official prayer schedule table (first sheet of a CSV or
+ * XLSX file) and validates them. Each valid row is compared with the calculated
+ * times for its date so the admin can review the differences before importing.
+ */
+export const parsePrayerScheduleRows = (
+  sheetRows: unknown[][],
+  settings: PrayerTimelineSettings & RamadanModeSettings,
+  hijriConfig: HijriCalendarConfig,
+): ImportedSchedule => {
+  const headerIndex = sheetRows
+    .slice(0, MAX_HEADER_SEARCH_ROWS)
+    .findIndex((row) => findColumn(row, "date") !== -1);
+  if (headerIndex === -1) {
+    return { columns: [], rows: [], fileErrors: ["Kolom tanggal tidak ditemukan. Pastikan ada kolom berjudul \"Tanggal\"."] };
+  }
+
+  const header = sheetRows[headerIndex];
+  const dateColumn = findColumn(header, "date");
+  const columns = OVERRIDABLE_PRAYER_KEYS.filter((key) => findColumn(header, key) !== -1);
+  if (columns.length === 0) {
+    return { columns, rows: [], fileErrors: ["Tidak ada kolom waktu sholat yang dikenali (imsak, subuh, terbit, dzuhur, ashar, maghrib, isya)."] };
+  }
+
+  const seenDates = new Set<string>();
+  const rows: ImportedScheduleRow[] = [];
+
+  sheetRows.slice(headerIndex + 1).forEach((cells, index) => {
+    if (cells.every(isBlank)) return;
+
+    const row: ImportedScheduleRow = {
+      rowNumber: headerIndex + index + 2,
+      date: parseDateCell(cells[dateColumn]),
+      times: {},
+      diffMinutes: {},
+      errors: [],
+    };
+
+    if (!row.date) {
+      row.errors.push(`Tanggal "${cells[dateColumn] ?? ""}" tidak valid.`);
+    } else if (seenDates.has(row.date)) {
+      row.errors.push(`Tanggal ${row.date} muncul lebih dari sekali.`);
+    } else {
+      seenDates.add(row.date);
+    }
+
+    columns.forEach((key) => {
+      const cell = cells[findColumn(header, key)];
+      if (isBlank(cell)) return;
+      const time = parseTimeCell(cell);
+      if (time) {
+        row.times[key] = time;
+      } else {
+        row.errors.push(`Waktu ${PRAYER_DISPLAY_NAMES[key]} "${cell}" tidak valid.`);
+      }
+    });
+
+    if (Object.keys(row.times).length === 0 && row.errors.length === 0) {
+      row.errors.push("Tidak ada waktu sholat yang diisi.");
+    }
+
+    const filledKeys = OVERRIDABLE_PRAYER_KEYS.filter((key) => row.times[key]);
+    const outOfOrder = filledKeys.some((key, i) => i > 0 && row.times[key]! <= row.times[filledKeys[i - 1]]!);
+    if (outOfOrder) {
+      row.errors.push("Urutan waktu tidak wajar (setiap waktu harus lebih lambat dari waktu sebelumnya).");
+    }
+
+    if (row.date && row.errors.length === 0) {
+      const day = masjidDate(row.date, resolveTimeZone(settings.time_zone));
+      const isRamadanDay = isRamadanModeActiveOn(row.date, settings, hijriConfig);
+      const calculated = calculatePrayerTimeline({ ...settings, is_ramadan_mode_active: isRamadanDay }, day).times;
+      filledKeys.forEach((key) => {
+        row.diffMinutes[key] = parseTimeOnDay(day, row.times[key])!.diff(calculated[key].second(0), "minute");
+      });
+    }
+
+    rows.push(row);
+  });
+
+  return { columns, rows, fileErrors: rows.length === 0 ? ["File tidak berisi baris jadwal."] : [] };
+};
+
+/**
+ * Reads the first sheet of a CSV/XLSX file into rows of cell values. CSV values
+ * are kept as text so day-first dates are not misread as US dates.
+ */
+export const readPrayerScheduleFile = async (file: File): Promise<unknown[][]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "" });
+};
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import dayjs from "dayjs";
+import {
+  calculatePrayerTimeline,
+  findNextPrayer,
+  getTomorrowScheduleSwitchTime,
+  JUMUAH_DISPLAY_NAME,
+  PrayerKey,
+  PrayerTimeOverride,
+} from "@/lib/prayerTimes";
+import { masjidDate, masjidNow, setMasjidTimeZone } from "@/lib/clock";
+import { FRIDAY, JAKARTA_SETTINGS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const formatTimes = (times: Record<PrayerKey, dayjs.Dayjs>) =>
+  Object.fromEntries(Object.entries(times).map(([key, time]) => [key, time.format("HH:mm")]));
+
+const emptyOverride = (date: string): PrayerTimeOverride => ({
+  id: "override",
+  override_date: date,
+  imsak: null,
+  fajr: null,
+  sunrise: null,
+  dhuhr: null,
+  asr: null,
+  maghrib: null,
+  isha: null,
+  note: null,
+});
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("calculatePrayerTimeline", () => {
+  it("calculates today's times from the clock", () => {
+    vi.setSystemTime(new Date("2026-03-05T08:00:00+07:00"));
+
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS);
+
+    expect(timeline.date.format("YYYY-MM-DD")).toBe(THURSDAY);
+    expect(formatTimes(timeline.times)).toEqual({
+      imsak: "04:30",
+      fajr: "04:40",
+      sunrise: "05:58",
+      dhuhr: "12:04",
+      asr: "15:05",
+      maghrib: "18:10",
+      isha: "19:20",
+    });
+  });
+
+  it("uses the date at the masjid, not the device's date", () => {
+    // 17:30 UTC on Thursday is already 00:30 on Friday in Jakarta
+    vi.setSystemTime(new Date("2026-03-05T17:30:00Z"));
+
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidNow());
+
+    expect(timeline.date.format("YYYY-MM-DD")).toBe(FRIDAY);
+    expect(timeline.isFriday).toBe(true);
+    expect(timeline.times.fajr.format()).toBe("2026-03-06T04:40:00+07:00");
+  });
+
+  it("applies the per-prayer offsets in minutes", () => {
+    const timeline = calculatePrayerTimeline(
+      { ...JAKARTA_SETTINGS, fajr_offset: -2, dhuhr_offset: 3, isha_offset: 1 },
+      masjidDate(FRIDAY),
+    );
+
+    expect(timeline.times.fajr.format("HH:mm")).toBe("04:38");
+    expect(timeline.times.dhuhr.format("HH:mm")).toBe("12:07");
+    expect(timeline.times.asr.format("HH:mm")).toBe("15:06");
+    expect(timeline.times.isha.format("HH:mm")).toBe("19:20");
+  });
+
+  it("adds ihtiyat to every prayer and subtracts it from sunrise", () => {
+    const timeline = calculatePrayerTimeline(
+      { ...JAKARTA_SETTINGS, ihtiyat_active: true, ihtiyat_minutes: 2 },
+      masjidDate(FRIDAY),
+    );
+
+    expect(formatTimes(timeline.times)).toMatchObject({
+      fajr: "04:43",
+      sunrise: "05:57",
+      dhuhr: "12:06",
+      asr: "15:08",
+      maghrib: "18:12",
+      isha: "19:22",
+    });
+  });
+
+  it("prefers the times of a per-date override", () => {
+    const override = { ...emptyOverride(FRIDAY), dhuhr: "12:00", isha: "19:30:00" };
+
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), override);
+
+    expect(timeline.times.dhuhr.format("HH:mm")).toBe("12:00");
+    expect(timeline.times.isha.format("HH:mm")).toBe("19:30");
+    expect(timeline.times.asr.format("HH:mm")).toBe("15:06");
+    expect(timeline.overriddenKeys).toEqual(["dhuhr", "isha"]);
+  });
+});
+
+describe("Jum'at", () => {
+  it("replaces Dzuhur with Jum'at on Fridays", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY));
+    const dhuhrWindow = timeline.windows.find((window) => window.key === "dhuhr");
+
+    expect(timeline.entries.find((entry) => entry.key === "dhuhr")?.name).toBe(JUMUAH_DISPLAY_NAME);
+    expect(dhuhrWindow?.isJumuah).toBe(true);
+    expect(dhuhrWindow?.name).toBe(JUMUAH_DISPLAY_NAME);
+    expect(dhuhrWindow?.iqomahTime).toBeNull();
+    // Five minute countdown, two minute adhan, then the khutbah
+    expect(dhuhrWindow?.preAdhanStart.format("HH:mm")).toBe("11:59");
+    expect(dhuhrWindow?.end.format("HH:mm")).toBe("12:51");
+  });
+
+  it("uses the configured khutbah duration", () => {
+    const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, khutbah_duration_minutes: 30 }, masjidDate(FRIDAY));
+
+    expect(timeline.windows.find((window) => window.isJumuah)?.end.format("HH:mm")).toBe("12:36");
+  });
+
+  it("keeps Dzuhur on other days", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+    const dhuhrWindow = timeline.windows.find((window) => window.key === "dhuhr");
+
+    expect(timeline.isFriday).toBe(false);
+    expect(dhuhrWindow?.name).toBe("Dzuhur");
+    expect(dhuhrWindow?.isJumuah).toBe(false);
+    expect(dhuhrWindow?.iqomahTime?.format("HH:mm")).toBe("12:11");
+  });
+});
+
+describe("Imsak", () => {
+  it("defaults to ten minutes before Subuh", () => {
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY));
+
+    expect(timeline.times.imsak.format("HH:mm")).toBe("04:30");
+  });
+
+  it("uses the configured lead time and offset", () => {
+    const timeline = calculatePrayerTimeline(
+      { ...JAKARTA_SETTINGS, imsak_lead_minutes: 12, imsak_offset: 1 },
+      masjidDate(FRIDAY),
+    );
+
+    expect(timeline.times.imsak.format("HH:mm")).toBe("04:29");
+  });
+
+  it("uses a fixed Imsak time when one is set", () => {
+    const timeline = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, imsak_fixed_time: "04:25" }, masjidDate(FRIDAY));
+
+    expect(timeline.times.imsak.format("HH:mm")).toBe("04:25");
+  });
+
+  it("follows the official Subuh time of an override", () => {
+    const override = { ...emptyOverride(FRIDAY), fajr: "04:37" };
+
+    const timeline = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), override);
+
+    expect(timeline.times.imsak.format("HH:mm")).toBe("04:27");
+  });
+
+  it("is only listed in Ramadan mode", () => {
+    const normal = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY));
+    const ramadan = calculatePrayerTimeline({ ...JAKARTA_SETTINGS, is_ramadan_mode_active: true }, masjidDate(FRIDAY));
+
+    expect(normal.entries.map((entry) => entry.key)).not.toContain("imsak");
+    expect(ramadan.entries[0].key).toBe("imsak");
+  });
+});
+
+describe("findNextPrayer", () => {
+  const timeline = () => calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+
+  it("returns Subuh before dawn", () => {
+    const next = findNextPrayer(timeline(), masjidDate(`${THURSDAY} 03:00`));
+
+    expect(next?.key).toBe("fajr");
+    expect(next?.time.format()).toBe("2026-03-05T04:40:00+07:00");
+  });
+
+  it("skips sunrise and returns the following prayer once the adhan has started", () => {
+    expect(findNextPrayer(timeline(), masjidDate(`${THURSDAY} 04:40`))?.key).toBe("dhuhr");
+    expect(findNextPrayer(timeline(), masjidDate(`${THURSDAY} 15:04`))?.key).toBe("asr");
+  });
+
+  it("rolls over to tomorrow's Subuh after Isya", () => {
+    const next = findNextPrayer(timeline(), masjidDate(`${THURSDAY} 23:59`));
+
+    expect(next?.key).toBe("fajr");
+    expect(next?.time.format("YYYY-MM-DD HH:mm")).toBe("2026-03-06 04:40");
+  });
+
+  it("uses tomorrow's own Subuh when tomorrow's timeline is given", () => {
+    const override = { ...emptyOverride(FRIDAY), fajr: "04:35" };
+    const tomorrow = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY), override);
+
+    const next = findNextPrayer(timeline(), masjidDate(`${THURSDAY} 21:00`), tomorrow);
+
+    expect(next?.time.format("YYYY-MM-DD HH:mm")).toBe("2026-03-06 04:35");
+  });
+
+  it("returns Jum'at before noon on Friday", () => {
+    const friday = calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(FRIDAY));
+
+    expect(findNextPrayer(friday, masjidDate(`${FRIDAY} 10:00`))?.name).toBe(JUMUAH_DISPLAY_NAME);
+  });
+});
+
+describe("getTomorrowScheduleSwitchTime", () => {
+  const timeline = () => calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+
+  it("switches the given minutes after Isya", () => {
+    const switchTime = getTomorrowScheduleSwitchTime(timeline(), {
+      tomorrow_schedule_active: true,
+      tomorrow_schedule_after_isha_minutes: 45,
+    });
+
+    expect(switchTime?.format("YYYY-MM-DD HH:mm")).toBe("2026-03-05 20:05");
+  });
+
+  it("does not switch when disabled", () => {
+    expect(getTomorrowScheduleSwitchTime(timeline(), { tomorrow_schedule_active: false })).toBeNull();
+  });
+});
@@ -0,0 +1,335 @@
+import dayjs from "dayjs";
+import * as Adhan from "adhan";
+import type { AppSettings } from "@/contexts/AppSettingsContext";
+import { masjidDate, masjidNow, resolveTimeZone } from "@/lib/clock";
+import { calculateJumuahPhaseWindows, getDefaultJumuahPhases, JumuahPhase, JumuahPhaseWindow } from "@/lib/jumuah";
+
+export const DEFAULT_LATITUDE = -6.2088; // Jakarta
+export const DEFAULT_LONGITUDE = 106.8456; // Jakarta
+export const DEFAULT_CALCULATION_METHOD = "MuslimWorldLeague";
+export const CUSTOM_CALCULATION_METHOD = "Custom"; // Uses custom_fajr_angle / custom_isha_angle
+export const DEFAULT_CUSTOM_FAJR_ANGLE = 20; // Kemenag RI
+export const DEFAULT_CUSTOM_ISHA_ANGLE = 18; // Kemenag RI
+export const DEFAULT_ASR_MADHAB = "Shafi";
+export const DEFAULT_HIGH_LATITUDE_RULE = "MiddleOfTheNight";
+export const RECOMMENDED_HIGH_LATITUDE_RULE = "Recommended"; // Let adhan pick the rule for the coordinates
+export const DEFAULT_IHTIYAT_MINUTES = 2;
+
+export const PRE_ADHAN_COUNTDOWN_SECONDS = 30;
+export const ADHAN_DURATION_SECONDS = 120;
+export const DEFAULT_IMSAK_LEAD_MINUTES = 10; // Imsak = Subuh - 10 menit (+ imsak_offset)
+export const DEFAULT_IMSAK_OVERLAY_DURATION_SECONDS = 10;
+export const DEFAULT_IMSAK_BEEP_LEAD_SECONDS = 0; // Beep exactly at Imsak
+export const DEFAULT_IQOMAH_COUNTDOWN_SECONDS = 300;
+export const DEFAULT_KHUTBAH_DURATION_MINUTES = 45;
+export const DEFAULT_DARK_SCREEN_DURATION_MINUTES = 5;
+export const DEFAULT_TOMORROW_SCHEDULE_AFTER_ISHA_MINUTES = 30;
+
+export type PrayerKey = "imsak" | "fajr" | "sunrise" | "dhuhr" | "asr" | "maghrib" | "isha";
+export type ObligatoryPrayerKey = Exclude<PrayerKey, "imsak" | "sunrise">;
+
+// The five obligatory prayers, in the order they occur during the day.
+export const OBLIGATORY_PRAYER_KEYS: ObligatoryPrayerKey[] = ["fajr", "dhuhr", "asr", "maghrib", "isha"];
+
+// Per-prayer app_settings columns, e.g. iqomah_countdown_duration_fajr. A null column
+// falls back to the shared default.
+export type PrayerDurationField =
+  | "pre_adhan_countdown_seconds"
+  | "adhan_duration_seconds"
+  | "iqomah_countdown_duration"
+  | "dark_screen_duration_minutes";
+export type PrayerDurationSettingKey = `${PrayerDurationField}_${ObligatoryPrayerKey}`;
+
+export const getPrayerDurationSettingKey = (field: PrayerDurationField, key: ObligatoryPrayerKey): PrayerDurationSettingKey =>
+  `${field}_${key}`;
+
+export const PRAYER_DISPLAY_NAMES: Record<PrayerKey, string> = {
+  imsak: "Imsak",
+  fajr: "Subuh",
+  sunrise: "Syuruq",
+  dhuhr: "Dzuhur",
+  asr: "Ashar",
+  maghrib: "Maghrib",
+  isha: "Isya",
+};
+
+export const JUMUAH_DISPLAY_NAME = "Jum'at";
+
+export type PrayerTimelineSettings = Partial<Pick<AppSettings,
+  | "time_zone"
+  | "latitude"
+  | "longitude"
+  | "calculation_method"
+  | "asr_madhab"
+  | "high_latitude_rule"
+  | "custom_fajr_angle"
+  | "custom_isha_angle"
+  | "ihtiyat_active"
+  | "ihtiyat_minutes"
+  | "is_ramadan_mode_active"
+  | "fajr_offset"
+  | "dhuhr_offset"
+  | "asr_offset"
+  | "maghrib_offset"
+  | "isha_offset"
+  | "imsak_offset"
+  | "imsak_lead_minutes"
+  | "imsak_fixed_time"
+  | "imsak_overlay_duration_seconds"
+  | "iqomah_countdown_duration"
+  | "khutbah_duration_minutes"
+  | PrayerDurationSettingKey
+>>;
+
+// A row of the prayer_time_overrides table: the official (e.g. Kemenag) times for
+// one date. Every non-null time wins over the calculated one.
+export interface PrayerTimeOverride {
+  id: string;
+  override_date: string; // YYYY-MM-DD
+  imsak: string | null; // HH:mm or HH:mm:ss
+  fajr: string | null;
+  sunrise: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+  note: string | null;
+}
+
+export const OVERRIDABLE_PRAYER_KEYS: PrayerKey[] = ["imsak", "fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha"];
+
+export interface PrayerTimeEntry {
+  key: PrayerKey;
+  name: string; // Display name, "Jum'at" replaces "Dzuhur" on Fridays
+  time: dayjs.Dayjs;
+}
+
+export interface PrayerWindow {
+  key: ObligatoryPrayerKey;
+  name: string;
+  isJumuah: boolean;
+  preAdhanStart: dayjs.Dayjs;
+  adhanTime: dayjs.Dayjs;
+  adhanEnd: dayjs.Dayjs;
+  iqomahTime: dayjs.Dayjs | null; // End of the iqomah countdown, null for Jum'at
+  end: dayjs.Dayjs; // End of the whole window (iqomah, or the start of the Jum'at prayer phase)
+  darkScreenEnd: dayjs.Dayjs; // The screen stays dark from `end` until here while the prayer is held
+  jumuahPhases: JumuahPhaseWindow[]; // The Friday timeline, empty for the other prayers
+}
+
+export interface PrayerTimeline {
+  date: dayjs.Dayjs; // Start of the day this timeline belongs to
+  isFriday: boolean;
+  isRamadanModeActive: boolean;
+  iqomahCountdownDuration: number; // Default in seconds, the windows hold each prayer's own duration
+  khutbahDurationMinutes: number;
+  imsakOverlayDurationSeconds: number;
+  times: Record<PrayerKey, dayjs.Dayjs>;
+  overriddenKeys: PrayerKey[]; // Times taken from prayer_time_overrides instead of the calculation
+  entries: PrayerTimeEntry[]; // Ordered by time, Imsak only included in Ramadan mode
+  windows: PrayerWindow[]; // One per obligatory prayer
+}
+
+const OFFSET_FIELDS: Record<ObligatoryPrayerKey, keyof PrayerTimelineSettings> = {
+  fajr: "fajr_offset",
+  dhuhr: "dhuhr_offset",
+  asr: "asr_offset",
+  maghrib: "maghrib_offset",
+  isha: "isha_offset",
+};
+
+const getMethodParameters = (settings: PrayerTimelineSettings): Adhan.CalculationParameters => {
+  const method = settings.calculation_method || DEFAULT_CALCULATION_METHOD;
+  if (method === CUSTOM_CALCULATION_METHOD) {
+    const params = Adhan.CalculationMethod.Other();
+    params.fajrAngle = settings.custom_fajr_angle ?? DEFAULT_CUSTOM_FAJR_ANGLE;
+    params.ishaAngle = settings.custom_isha_angle ?? DEFAULT_CUSTOM_ISHA_ANGLE;
+    return params;
+  }
+  const factory = Adhan.CalculationMethod[method as keyof typeof Adhan.CalculationMethod];
+  if (!factory) {
+    console.warn(`prayerTimes: Unknown calculation method "${method}", falling back to ${DEFAULT_CALCULATION_METHOD}.`);
+    return Adhan.CalculationMethod[DEFAULT_CALCULATION_METHOD]();
+  }
+  return factory();
+};
+
+const HIGH_LATITUDE_RULES: Record<string, Adhan.CalculationParameters["highLatitudeRule"]> = {
+  MiddleOfTheNight: Adhan.HighLatitudeRule.MiddleOfTheNight,
+  SeventhOfTheNight: Adhan.HighLatitudeRule.SeventhOfTheNight,
+  TwilightAngle: Adhan.HighLatitudeRule.TwilightAngle,
+};
+
+const getCalculationParameters = (
+  settings: PrayerTimelineSettings,
+  coordinates: Adhan.Coordinates,
+): Adhan.CalculationParameters => {
+  const params = getMethodParameters(settings);
+  params.madhab = settings.asr_madhab === "Hanafi" ? Adhan.Madhab.Hanafi : Adhan.Madhab.Shafi;
+  const highLatitudeRule = settings.high_latitude_rule || DEFAULT_HIGH_LATITUDE_RULE;
+  params.highLatitudeRule = highLatitudeRule === RECOMMENDED_HIGH_LATITUDE_RULE
+    ? Adhan.HighLatitudeRule.recommended(coordinates)
+    : HIGH_LATITUDE_RULES[highLatitudeRule] ?? Adhan.HighLatitudeRule.MiddleOfTheNight;
+  if (settings.ihtiyat_active) {
+    params.rounding = Adhan.Rounding.Up;
+  }
+  return params;
+};
+
+// Parses an "HH:mm" / "HH:mm:ss" time onto the given day, or null if it is empty or invalid.
+export const parseTimeOnDay = (day: dayjs.Dayjs, value: string | null | undefined): dayjs.Dayjs | null => {
+  const match = value?.trim().match(/^(\d{1,2})[:.](\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [hour, minute, second] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return day.startOf("day").hour(hour).minute(minute).second(second);
+};
+
+/**
+ * Calculates the adjusted prayer timeline for the given day: the Adhan times for
+ * the configured method, madhab and high-latitude rule, with ihtiyat and the
+ * masjid's offsets applied, Imsak, and the adhan/iqomah windows used by
+ * the overlays and the audio scheduler. Times from a per-date override win over
+ * the calculated ones. On Fridays the Jum'at window follows the configured
+ * phases, or a countdown, adhan, khutbah and prayer when there are none.
+ */
+export const calculatePrayerTimeline = (
+  settings: PrayerTimelineSettings,
+  date: dayjs.Dayjs = masjidNow(),
+  override: PrayerTimeOverride | null = null,
+  jumuahPhases: JumuahPhase[] = [],
+): PrayerTimeline => {
+  const coordinates = new Adhan.Coordinates(settings.latitude || DEFAULT_LATITUDE, settings.longitude || DEFAULT_LONGITUDE);
+  const params = getCalculationParameters(settings, coordinates);
+  // The calendar date of `date` as a day at the masjid. Adhan reads the year, month
+  // and day from the Date's local fields, so it gets a device-local midnight of that date.
+  const timeZone = resolveTimeZone(settings.time_zone);
+  const day = masjidDate(date.format("YYYY-MM-DD"), timeZone);
+  const raw = new Adhan.PrayerTimes(coordinates, new Date(day.year(), day.month(), day.date()), params);
+
+  // Ihtiyat: a safety margin on top of the times rounded up to the minute. Sunrise
+  // marks the end of Subuh, so its margin goes the other way.
+  const ihtiyatMinutes = settings.ihtiyat_active ? settings.ihtiyat_minutes ?? DEFAULT_IHTIYAT_MINUTES : 0;
+  const calculated = (key: Exclude<PrayerKey, "imsak">) =>
+    dayjs(raw[key]).tz(timeZone).add(key === "sunrise" ? -ihtiyatMinutes : ihtiyatMinutes, "minute");
+
+  const applyOffset = (key: keyof typeof OFFSET_FIELDS) =>
+    calculated(key).add((settings[OFFSET_FIELDS[key]] as number | undefined) ?? 0, "minute");
+
+  const getOverride = (key: PrayerKey) => parseTimeOnDay(day, override?.[key]);
+  const overriddenKeys = OVERRIDABLE_PRAYER_KEYS.filter((key) => getOverride(key) !== null);
+
+  // Imsak: the date's override, else the masjid's fixed Imsak time, else a lead time
+  // before Subuh (the official Subuh time if there is one).
+  const imsakBaseFajr = getOverride("fajr") ?? calculated("fajr");
+  const imsakLeadMinutes = settings.imsak_lead_minutes ?? DEFAULT_IMSAK_LEAD_MINUTES;
+  const times: Record<PrayerKey, dayjs.Dayjs> = {
+    imsak: getOverride("imsak")
+      ?? parseTimeOnDay(day, settings.imsak_fixed_time)
+      ?? imsakBaseFajr.subtract(imsakLeadMinutes, "minute").add(settings.imsak_offset ?? 0, "minute"),
+    fajr: getOverride("fajr") ?? applyOffset("fajr"),
+    sunrise: getOverride("sunrise") ?? calculated("sunrise"), // Sunrise typically doesn't have an offset
+    dhuhr: getOverride("dhuhr") ?? applyOffset("dhuhr"),
+    asr: getOverride("asr") ?? applyOffset("asr"),
+    maghrib: getOverride("maghrib") ?? applyOffset("maghrib"),
+    isha: getOverride("isha") ?? applyOffset("isha"),
+  };
+
+  const isFriday = day.day() === 5;
+  const isRamadanModeActive = settings.is_ramadan_mode_active || false;
+  const iqomahCountdownDuration = settings.iqomah_countdown_duration || DEFAULT_IQOMAH_COUNTDOWN_SECONDS;
+  const khutbahDurationMinutes = settings.khutbah_duration_minutes || DEFAULT_KHUTBAH_DURATION_MINUTES;
+  const imsakOverlayDurationSeconds = settings.imsak_overlay_duration_seconds || DEFAULT_IMSAK_OVERLAY_DURATION_SECONDS;
+
+  const getDisplayName = (key: PrayerKey) =>
+    key === "dhuhr" && isFriday ? JUMUAH_DISPLAY_NAME : PRAYER_DISPLAY_NAMES[key];
+
+  const entryKeys: PrayerKey[] = isRamadanModeActive
+    ? ["imsak", "fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha"]
+    : ["fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha"];
+  const entries = entryKeys.map((key) => ({ key, name: getDisplayName(key), time: times[key] }));
+
+  const getDuration = (field: PrayerDurationField, key: ObligatoryPrayerKey, fallback: number) =>
+    settings[getPrayerDurationSettingKey(field, key)] ?? fallback;
+
+  const windows = OBLIGATORY_PRAYER_KEYS.map((key): PrayerWindow => {
+    const adhanTime = times[key];
+    const darkScreenMinutes = getDuration("dark_screen_duration_minutes", key, DEFAULT_DARK_SCREEN_DURATION_MINUTES);
+    if (key === "dhuhr" && isFriday) {
+      const phaseWindows = calculateJumuahPhaseWindows(
+        adhanTime,
+        jumuahPhases.length > 0 ? jumuahPhases : getDefaultJumuahPhases(khutbahDurationMinutes, darkScreenMinutes),
+      );
+      const firstAdhan = phaseWindows.find(({ phase }) => phase.phase_type === "adhan");
+      const darkScreenEnd = phaseWindows[phaseWindows.length - 1].end;
+      return {
+        key,
+        name: getDisplayName(key),
+        isJumuah: true,
+        preAdhanStart: phaseWindows[0].start,
+        adhanTime,
+        adhanEnd: firstAdhan?.end ?? adhanTime,
+        iqomahTime: null,
+        end: phaseWindows.find(({ phase }) => phase.phase_type === "prayer")?.start ?? darkScreenEnd,
+        darkScreenEnd,
+        jumuahPhases: phaseWindows,
+      };
+    }
+    const adhanEnd = adhanTime.add(getDuration("adhan_duration_seconds", key, ADHAN_DURATION_SECONDS), "second");
+    const iqomahTime = adhanEnd.add(getDuration("iqomah_countdown_duration", key, iqomahCountdownDuration), "second");
+    return {
+      key,
+      name: getDisplayName(key),
+      isJumuah: false,
+      preAdhanStart: adhanTime.subtract(getDuration("pre_adhan_countdown_seconds", key, PRE_ADHAN_COUNTDOWN_SECONDS), "second"),
+      adhanTime,
+      adhanEnd,
+      iqomahTime,
+      end: iqomahTime,
+      darkScreenEnd: iqomahTime.add(darkScreenMinutes, "minute"),
+      jumuahPhases: [],
+    };
+  });
+
+  return {
+    date: day,
+    isFriday,
+    isRamadanModeActive,
+    iqomahCountdownDuration,
+    khutbahDurationMinutes,
+    imsakOverlayDurationSeconds,
+    times,
+    overriddenKeys,
+    entries,
+    windows,
+  };
+};
+
+/**
+ * Returns the next obligatory prayer after `now`. Once Isya has passed, this is
+ * Subuh of `tomorrowTimeline`, or today's Subuh rolled over by a day without one.
+ */
+export const findNextPrayer = (
+  timeline: PrayerTimeline,
+  now: dayjs.Dayjs,
+  tomorrowTimeline: PrayerTimeline | null = null,
+): PrayerTimeEntry | null => {
+  const upcoming = timeline.windows.find((window) => window.adhanTime.isAfter(now));
+  if (upcoming) {
+    return { key: upcoming.key, name: upcoming.name, time: upcoming.adhanTime };
+  }
+  const tomorrowFajr = tomorrowTimeline?.windows.find((window) => window.key === "fajr");
+  if (tomorrowFajr) {
+    return { key: "fajr", name: tomorrowFajr.name, time: tomorrowFajr.adhanTime };
+  }
+  const fajr = timeline.windows.find((window) => window.key === "fajr");
+  return fajr ? { key: "fajr", name: fajr.name, time: fajr.adhanTime.add(1, "day") } : null;
+};
+
+export type TomorrowScheduleSettings = Partial<Pick<AppSettings, "tomorrow_schedule_active" | "tomorrow_schedule_after_isha_minutes">>;
+
+// When the prayer table switches to tomorrow's schedule: Isya plus the configured minutes. Null when disabled.
+export const getTomorrowScheduleSwitchTime = (timeline: PrayerTimeline, settings: TomorrowScheduleSettings) =>
+  settings.tomorrow_schedule_active
+    ? timeline.times.isha.add(settings.tomorrow_schedule_after_isha_minutes ?? DEFAULT_TOMORROW_SCHEDULE_AFTER_ISHA_MINUTES, "minute")
+    : null;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { HijriCalendarConfig } from "@/lib/hijri";
+import { getRamadanPeriod, isRamadanEveOn, isRamadanModeActiveOn, isTarawihNightOn, resolveRamadanMode } from "@/lib/ramadan";
+import { THURSDAY } from "@/test/fixtures";
+
+// Umm al-Qura: Ramadan 1447 runs from 2026-02-18 to 2026-03-19
+const UMM_AL_QURA: HijriCalendarConfig = { variant: "islamic-umalqura", dayAdjustment: 0, monthOverrides: [] };
+const AUTO = { ramadan_mode: "auto", ramadan_mode_from_previous_evening: true };
+
+describe("getRamadanPeriod", () => {
+  it("returns the Ramadan under way", () => {
+    expect(getRamadanPeriod(THURSDAY, UMM_AL_QURA)).toEqual({ hijriYear: 1447, firstDay: "2026-02-18", lastDay: "2026-03-19" });
+  });
+
+  it("returns the next Ramadan once it is over", () => {
+    expect(getRamadanPeriod("2026-03-20", UMM_AL_QURA)?.hijriYear).toBe(1448);
+  });
+
+  it("follows the day adjustment", () => {
+    expect(getRamadanPeriod(THURSDAY, { ...UMM_AL_QURA, dayAdjustment: -1 })).toEqual({
+      hijriYear: 1447,
+      firstDay: "2026-02-19",
+      lastDay: "2026-03-20",
+    });
+  });
+});
+
+describe("isRamadanModeActiveOn", () => {
+  it("covers the fasting days in auto mode", () => {
+    expect(isRamadanModeActiveOn("2026-02-17", AUTO, UMM_AL_QURA)).toBe(false);
+    expect(isRamadanModeActiveOn("2026-02-18", AUTO, UMM_AL_QURA)).toBe(true);
+    expect(isRamadanModeActiveOn("2026-03-19", AUTO, UMM_AL_QURA)).toBe(true);
+    expect(isRamadanModeActiveOn("2026-03-20", AUTO, UMM_AL_QURA)).toBe(false);
+  });
+
+  it("can be forced on or off", () => {
+    expect(isRamadanModeActiveOn("2026-06-01", { ramadan_mode: "on" }, UMM_AL_QURA)).toBe(true);
+    expect(isRamadanModeActiveOn(THURSDAY, { ramadan_mode: "off" }, UMM_AL_QURA)).toBe(false);
+  });
+
+  it("treats an unknown mode as auto", () => {
+    expect(resolveRamadanMode("sometimes")).toBe("auto");
+  });
+});
+
+describe("isRamadanEveOn", () => {
+  it("is the day before 1 Ramadan when the evening start is enabled", () => {
+    expect(isRamadanEveOn("2026-02-17", AUTO, UMM_AL_QURA)).toBe(true);
+    expect(isRamadanEveOn("2026-02-18", AUTO, UMM_AL_QURA)).toBe(false);
+    expect(isRamadanEveOn("2026-02-17", { ...AUTO, ramadan_mode_from_previous_evening: false }, UMM_AL_QURA)).toBe(false);
+    expect(isRamadanEveOn("2026-02-17", { ...AUTO, ramadan_mode: "off" }, UMM_AL_QURA)).toBe(false);
+  });
+});
+
+describe("isTarawihNightOn", () => {
+  it("runs from the eve of 1 Ramadan to the evening before the last fast", () => {
+    expect(isTarawihNightOn("2026-02-16", AUTO, UMM_AL_QURA)).toBe(false);
+    expect(isTarawihNightOn("2026-02-17", AUTO, UMM_AL_QURA)).toBe(true);
+    expect(isTarawihNightOn("2026-03-18", AUTO, UMM_AL_QURA)).toBe(true);
+    // The last evening of Ramadan is the eve of Idul Fitri
+    expect(isTarawihNightOn("2026-03-19", AUTO, UMM_AL_QURA)).toBe(false);
+  });
+
+  it("skips the eve when the evening start is disabled, and follows a forced mode", () => {
+    expect(isTarawihNightOn("2026-02-17", { ...AUTO, ramadan_mode_from_previous_evening: false }, UMM_AL_QURA)).toBe(false);
+    expect(isTarawihNightOn("2026-02-18", { ...AUTO, ramadan_mode_from_previous_evening: false }, UMM_AL_QURA)).toBe(true);
+    expect(isTarawihNightOn("2026-06-01", { ramadan_mode: "on" }, UMM_AL_QURA)).toBe(true);
+    expect(isTarawihNightOn(THURSDAY, { ramadan_mode: "off" }, UMM_AL_QURA)).toBe(false);
+  });
+});
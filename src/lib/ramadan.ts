@@ -0,0 +1,85 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import type { AppSettings } from "@/contexts/AppSettingsContext";
+import { HijriCalendarConfig, toHijriDate } from "@/lib/hijri";
+import { findNextHijriOccurrence } from "@/lib/islamicHolidays";
+
+dayjs.extend(utc);
+
+export type RamadanMode = "auto" | "on" | "off";
+
+export const DEFAULT_RAMADAN_MODE: RamadanMode = "auto";
+
+export const RAMADAN_MODE_OPTIONS: { value: RamadanMode; label: string }[] = [
+  { value: "auto", label: "Otomatis (kalender Hijriah)" },
+  { value: "on", label: "Selalu Aktif" },
+  { value: "off", label: "Selalu Nonaktif" },
+];
+
+const RAMADAN_MONTH = 9;
+
+export type RamadanModeSettings = Partial<Pick<AppSettings, "ramadan_mode" | "ramadan_mode_from_previous_evening">>;
+
+// The configured mode, or the default for an empty or unknown value.
+export const resolveRamadanMode = (mode: string | null | undefined): RamadanMode =>
+  RAMADAN_MODE_OPTIONS.find((option) => option.value === mode)?.value ?? DEFAULT_RAMADAN_MODE;
+
+export interface RamadanPeriod {
+  hijriYear: number;
+  firstDay: string; // YYYY-MM-DD of 1 Ramadan
+  lastDay: string; // YYYY-MM-DD of the last day of fasting
+}
+
+/**
+ * The Ramadan under way on `today` ("YYYY-MM-DD"), or else the next one, in
+ * the masjid's Hijri calendar (variant, day adjustment and isbat overrides).
+ */
+export const getRamadanPeriod = (today: string, config: HijriCalendarConfig): RamadanPeriod | null => {
+  const hijriToday = toHijriDate(today, config);
+  const firstDay = hijriToday.month === RAMADAN_MONTH
+    ? dayjs.utc(today).subtract(hijriToday.day - 1, "day").format("YYYY-MM-DD")
+    : findNextHijriOccurrence(RAMADAN_MONTH, 1, today, config);
+  if (!firstDay) return null;
+
+  const idulFitri = findNextHijriOccurrence(RAMADAN_MONTH + 1, 1, firstDay, config);
+  if (!idulFitri) return null;
+
+  return {
+    hijriYear: toHijriDate(firstDay, config).year,
+    firstDay,
+    lastDay: dayjs.utc(idulFitri).subtract(1, "day").format("YYYY-MM-DD"),
+  };
+};
+
+/**
+ * Whether Ramadan features (Imsak, sahur) are on for the day `day`: forced
+ * on or off, or in auto mode every fasting day of Ramadan.
+ */
+export const isRamadanModeActiveOn = (day: string, settings: RamadanModeSettings, config: HijriCalendarConfig) => {
+  const mode = resolveRamadanMode(settings.ramadan_mode);
+  if (mode !== "auto") return mode === "on";
+  return toHijriDate(day, config).month === RAMADAN_MONTH;
+};
+
+/**
+ * Whether `day` is the day before 1 Ramadan and the evening features
+ * (Tarawih) should already start that evening.
+ */
+export const isRamadanEveOn = (day: string, settings: RamadanModeSettings, config: HijriCalendarConfig) => {
+  if (resolveRamadanMode(settings.ramadan_mode) !== "auto" || !settings.ramadan_mode_from_previous_evening) return false;
+  const nextDay = toHijriDate(dayjs.utc(day).add(1, "day"), config);
+  return nextDay.month === RAMADAN_MONTH && nextDay.day === 1;
+};
+
+/**
+ * Whether Tarawih is prayed on the evening of `day`: every evening when forced
+ * on, and in auto mode the evenings before a fasting day, from the eve of
+ * 1 Ramadan when enabled. Not on the last evening, which is the eve of Idul Fitri.
+ */
+export const isTarawihNightOn = (day: string, settings: RamadanModeSettings, config: HijriCalendarConfig) => {
+  const mode = resolveRamadanMode(settings.ramadan_mode);
+  if (mode !== "auto") return mode === "on";
+  const nextDay = dayjs.utc(day).add(1, "day").format("YYYY-MM-DD");
+  if (!isRamadanModeActiveOn(nextDay, settings, config)) return false;
+  return isRamadanModeActiveOn(day, settings, config) || isRamadanEveOn(day, settings, config);
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getActiveSahurReminder, getSahurReminderEvents } from "@/lib/sahur";
+import { calculatePrayerTimeline, PrayerTimelineSettings } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { JAKARTA_SETTINGS, SAHUR_REMINDERS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const RAMADAN_SETTINGS: PrayerTimelineSettings = { ...JAKARTA_SETTINGS, is_ramadan_mode_active: true };
+
+const eventsOn = (date: string, reminders = SAHUR_REMINDERS, settings: PrayerTimelineSettings = RAMADAN_SETTINGS) =>
+  getSahurReminderEvents(calculatePrayerTimeline(settings, masjidDate(date)), reminders);
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("getSahurReminderEvents", () => {
+  it("places fixed and before-Imsak reminders on the day, clipping the overlay at Imsak", () => {
+    const events = eventsOn(THURSDAY);
+
+    expect(events.map((event) => [event.name, event.overlayEnd.format("HH:mm"), event.imsakTime.format("HH:mm")])).toEqual([
+      ["Sahur 02:30", "02:35", "04:30"],
+      ["Sahur 04:00", "04:30", "04:30"],
+    ]);
+    expect(events[0].message).toMatch(/^Waktu sahur telah tiba/);
+    expect(events[1].message).toBe("Tiga puluh menit menuju Imsak");
+  });
+
+  it("skips inactive reminders and fixed times after Imsak", () => {
+    const reminders = [
+      { ...SAHUR_REMINDERS[0], fixed_time: "04:45" },
+      { ...SAHUR_REMINDERS[1], is_active: false },
+    ];
+
+    expect(eventsOn(THURSDAY, reminders)).toEqual([]);
+  });
+
+  it("is empty outside Ramadan mode", () => {
+    expect(eventsOn(THURSDAY, SAHUR_REMINDERS, JAKARTA_SETTINGS)).toEqual([]);
+  });
+});
+
+describe("getActiveSahurReminder", () => {
+  it("follows the latest reminder that has started, until Imsak", () => {
+    const events = eventsOn(THURSDAY);
+    const activeAt = (time: string) => getActiveSahurReminder(events, masjidDate(`${THURSDAY} ${time}`))?.name ?? null;
+
+    expect(["02:29:59", "02:30:00", "03:59:59", "04:00:00", "04:29:59", "04:30:00"].map(activeAt)).toEqual([
+      null,
+      "Sahur 02:30",
+      "Sahur 02:30",
+      "Sahur 04:00",
+      "Sahur 04:00",
+      null,
+    ]);
+  });
+});
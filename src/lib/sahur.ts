@@ -0,0 +1,75 @@
+import dayjs from "dayjs";
+import { parseTimeOnDay, PrayerTimeline } from "@/lib/prayerTimes";
+
+export type SahurTriggerType = "fixed" | "before_imsak";
+
+export const SAHUR_TRIGGER_TYPES: { value: SahurTriggerType; label: string }[] = [
+  { value: "fixed", label: "Jam Tetap" },
+  { value: "before_imsak", label: "Menit Sebelum Imsak" },
+];
+
+export const DEFAULT_SAHUR_OVERLAY_DURATION_MINUTES = 5;
+export const DEFAULT_SAHUR_MINUTES_BEFORE_IMSAK = 60;
+export const DEFAULT_SAHUR_MESSAGE = "Waktu sahur telah tiba. Selamat makan sahur dan jangan lupa niat puasa.";
+
+export interface SahurReminder {
+  id: string;
+  trigger_type: SahurTriggerType;
+  fixed_time: string | null; // HH:mm, for "fixed"
+  minutes_before_imsak: number | null; // For "before_imsak"
+  audio_url: string | null;
+  message: string | null; // Running text until Imsak, the default message when empty
+  overlay_duration_minutes: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+export interface SahurReminderEvent {
+  reminder: SahurReminder;
+  name: string; // Unique per day, e.g. "Sahur 02:30"
+  time: dayjs.Dayjs;
+  overlayEnd: dayjs.Dayjs; // The "Waktu Sahur" overlay is shown from `time` until here, never past Imsak
+  imsakTime: dayjs.Dayjs;
+  message: string;
+}
+
+export const describeSahurReminder = (reminder: SahurReminder) =>
+  reminder.trigger_type === "fixed"
+    ? `Pukul ${reminder.fixed_time?.slice(0, 5) ?? "-"}`
+    : `${reminder.minutes_before_imsak ?? DEFAULT_SAHUR_MINUTES_BEFORE_IMSAK} menit sebelum Imsak`;
+
+/**
+ * The day's sahur reminders, ordered by time. Only in Ramadan mode, and only
+ * reminders that fall before Imsak: a fixed time after Imsak is skipped.
+ */
+export const getSahurReminderEvents = (timeline: PrayerTimeline, reminders: SahurReminder[]): SahurReminderEvent[] => {
+  if (!timeline.isRamadanModeActive) return [];
+  const imsakTime = timeline.times.imsak;
+
+  return reminders
+    .filter((reminder) => reminder.is_active)
+    .map((reminder) => {
+      const time = reminder.trigger_type === "fixed"
+        ? parseTimeOnDay(timeline.date, reminder.fixed_time)
+        : imsakTime.subtract(reminder.minutes_before_imsak ?? DEFAULT_SAHUR_MINUTES_BEFORE_IMSAK, "minute");
+      if (!time || time.valueOf() >= imsakTime.valueOf()) return null;
+      const plannedOverlayEnd = time.add(reminder.overlay_duration_minutes, "minute");
+      return {
+        reminder,
+        name: `Sahur ${time.format("HH:mm")}`,
+        time,
+        overlayEnd: plannedOverlayEnd.valueOf() < imsakTime.valueOf() ? plannedOverlayEnd : imsakTime,
+        imsakTime,
+        message: reminder.message?.trim() || DEFAULT_SAHUR_MESSAGE,
+      };
+    })
+    .filter((event): event is SahurReminderEvent => event !== null)
+    .sort((a, b) => a.time.valueOf() - b.time.valueOf());
+};
+
+// The latest reminder that has started by `now`, until Imsak; null outside sahur time.
+export const getActiveSahurReminder = (events: SahurReminderEvent[], now: dayjs.Dayjs) => {
+  const nowMs = now.valueOf();
+  const started = events.filter((event) => event.time.valueOf() <= nowMs && nowMs < event.imsakTime.valueOf());
+  return started.length > 0 ? started[started.length - 1] : null;
+};
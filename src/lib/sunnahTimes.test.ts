@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { calculateSunnahTimes, findActiveForbiddenInterval, getUpcomingLastThirdOfNight } from "@/lib/sunnahTimes";
+import { JAKARTA_SETTINGS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const calculate = (settings = JAKARTA_SETTINGS) => {
+  const timeline = calculatePrayerTimeline(settings, masjidDate(THURSDAY));
+  return { timeline, sunnahTimes: calculateSunnahTimes(settings, timeline) };
+};
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("calculateSunnahTimes", () => {
+  it("derives Dhuha and zawal from sunrise and Dzuhur", () => {
+    // Terbit 05:58, Dzuhur 12:04
+    const { sunnahTimes } = calculate();
+
+    expect(sunnahTimes.dhuhaStart.format("HH:mm")).toBe("06:13");
+    expect(sunnahTimes.dhuhaEnd.format("HH:mm")).toBe("11:54");
+    expect(sunnahTimes.zawal.format("HH:mm")).toBe("11:54");
+  });
+
+  it("follows the adjusted prayer times", () => {
+    const { sunnahTimes } = calculate({ ...JAKARTA_SETTINGS, dhuhr_offset: 3 });
+
+    expect(sunnahTimes.zawal.format("HH:mm")).toBe("11:57");
+  });
+
+  it("lists the forbidden intervals around sunrise, zawal and sunset", () => {
+    const { sunnahTimes } = calculate();
+
+    expect(sunnahTimes.forbiddenIntervals.map((interval) => `${interval.key} ${interval.start.format("HH:mm")}-${interval.end.format("HH:mm")}`))
+      .toEqual(["sunrise 05:58-06:13", "zawal 11:54-12:04", "sunset 17:55-18:10"]);
+  });
+
+  it("places the last third of the night two thirds from Maghrib to Subuh", () => {
+    // Maghrib 18:10 to Subuh 04:40 the next day: a night of 10 h 30 min
+    const { sunnahTimes } = calculate();
+
+    expect(sunnahTimes.nextLastThirdOfNight.format("YYYY-MM-DD HH:mm")).toBe("2026-03-06 01:10");
+    expect(sunnahTimes.lastThirdOfNight.format("YYYY-MM-DD")).toBe(THURSDAY);
+  });
+});
+
+describe("findActiveForbiddenInterval", () => {
+  it("returns the interval under way", () => {
+    const { sunnahTimes } = calculate();
+
+    expect(findActiveForbiddenInterval(sunnahTimes, masjidDate(`${THURSDAY} 06:00`))?.key).toBe("sunrise");
+    expect(findActiveForbiddenInterval(sunnahTimes, masjidDate(`${THURSDAY} 12:03`))?.key).toBe("zawal");
+    expect(findActiveForbiddenInterval(sunnahTimes, masjidDate(`${THURSDAY} 12:04`))).toBeNull();
+    expect(findActiveForbiddenInterval(sunnahTimes, masjidDate(`${THURSDAY} 18:00`))?.key).toBe("sunset");
+  });
+});
+
+describe("getUpcomingLastThirdOfNight", () => {
+  it("switches to tonight's once Subuh has passed", () => {
+    const { timeline, sunnahTimes } = calculate();
+
+    expect(getUpcomingLastThirdOfNight(sunnahTimes, timeline, masjidDate(`${THURSDAY} 02:00`))).toBe(sunnahTimes.lastThirdOfNight);
+    expect(getUpcomingLastThirdOfNight(sunnahTimes, timeline, masjidDate(`${THURSDAY} 20:00`))).toBe(sunnahTimes.nextLastThirdOfNight);
+  });
+});
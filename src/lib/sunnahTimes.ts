@@ -0,0 +1,68 @@
+import dayjs from "dayjs";
+import { calculatePrayerTimeline, PrayerTimeline, PrayerTimelineSettings } from "@/lib/prayerTimes";
+
+// Dhuha starts once the sun has risen about a spear's length (irtifa' rumh).
+export const DHUHA_START_AFTER_SUNRISE_MINUTES = 15;
+// Zawal: the sun at its zenith, shortly before Dzuhur. Dhuha ends here.
+export const ZAWAL_BEFORE_DHUHR_MINUTES = 10;
+// The sun turns yellow and sets during the last minutes before Maghrib.
+export const SUNSET_FORBIDDEN_MINUTES = 15;
+
+export type ForbiddenIntervalKey = "sunrise" | "zawal" | "sunset";
+
+// A makruh time in which voluntary prayers without a cause are not performed.
+export interface ForbiddenInterval {
+  key: ForbiddenIntervalKey;
+  name: string;
+  start: dayjs.Dayjs;
+  end: dayjs.Dayjs;
+}
+
+export interface SunnahTimes {
+  dhuhaStart: dayjs.Dayjs;
+  dhuhaEnd: dayjs.Dayjs;
+  zawal: dayjs.Dayjs;
+  forbiddenIntervals: ForbiddenInterval[]; // Ordered by time
+  lastThirdOfNight: dayjs.Dayjs; // In the night before this day's Subuh
+  nextLastThirdOfNight: dayjs.Dayjs; // In the night after this day's Maghrib
+}
+
+// The night runs from Maghrib to Subuh; tahajjud is best in its last third.
+const getLastThirdOfNight = (maghrib: dayjs.Dayjs, fajr: dayjs.Dayjs) =>
+  maghrib.add(Math.round((fajr.diff(maghrib) * 2) / 3), "millisecond");
+
+/**
+ * Derives the Dhuha, zawal and forbidden times and the last third of the night
+ * from the day's adjusted prayer times. The neighbouring days are calculated
+ * (without overrides) for the Maghrib and Subuh that bound each night.
+ */
+export const calculateSunnahTimes = (settings: PrayerTimelineSettings, timeline: PrayerTimeline): SunnahTimes => {
+  const { sunrise, dhuhr, maghrib, fajr } = timeline.times;
+  const previousDay = calculatePrayerTimeline(settings, timeline.date.subtract(1, "day"));
+  const nextDay = calculatePrayerTimeline(settings, timeline.date.add(1, "day"));
+
+  const dhuhaStart = sunrise.add(DHUHA_START_AFTER_SUNRISE_MINUTES, "minute");
+  const zawal = dhuhr.subtract(ZAWAL_BEFORE_DHUHR_MINUTES, "minute");
+
+  return {
+    dhuhaStart,
+    dhuhaEnd: zawal,
+    zawal,
+    forbiddenIntervals: [
+      { key: "sunrise", name: "Matahari Terbit", start: sunrise, end: dhuhaStart },
+      { key: "zawal", name: "Zawal", start: zawal, end: dhuhr },
+      { key: "sunset", name: "Menjelang Maghrib", start: maghrib.subtract(SUNSET_FORBIDDEN_MINUTES, "minute"), end: maghrib },
+    ],
+    lastThirdOfNight: getLastThirdOfNight(previousDay.times.maghrib, fajr),
+    nextLastThirdOfNight: getLastThirdOfNight(maghrib, nextDay.times.fajr),
+  };
+};
+
+export const findActiveForbiddenInterval = (sunnahTimes: SunnahTimes, now: dayjs.Dayjs): ForbiddenInterval | null =>
+  sunnahTimes.forbiddenIntervals.find(
+    (interval) => now.valueOf() >= interval.start.valueOf() && now.valueOf() < interval.end.valueOf(),
+  ) ?? null;
+
+// The last third of the night that is under way or still to come: tonight's once this day's Subuh has passed.
+export const getUpcomingLastThirdOfNight = (sunnahTimes: SunnahTimes, timeline: PrayerTimeline, now: dayjs.Dayjs) =>
+  now.isBefore(timeline.times.fajr) ? sunnahTimes.lastThirdOfNight : sunnahTimes.nextLastThirdOfNight;
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculateTarawihWindow, resolveTarawihRakaat } from "@/lib/tarawih";
+import { calculatePrayerTimeline } from "@/lib/prayerTimes";
+import { masjidDate, setMasjidTimeZone } from "@/lib/clock";
+import { JAKARTA_SETTINGS, TEST_TIME_ZONE, THURSDAY } from "@/test/fixtures";
+
+const thursdayTimeline = () => calculatePrayerTimeline(JAKARTA_SETTINGS, masjidDate(THURSDAY));
+
+beforeEach(() => {
+  setMasjidTimeZone(TEST_TIME_ZONE);
+});
+
+describe("calculateTarawihWindow", () => {
+  it("starts half an hour after the Isya adhan by default", () => {
+    // Isya at 19:20
+    const tarawih = calculateTarawihWindow(thursdayTimeline(), {});
+
+    expect([tarawih.countdownStart, tarawih.start, tarawih.end].map((time) => time.format("HH:mm"))).toEqual(["19:40", "19:50", "20:50"]);
+    expect(tarawih.rakaat).toBe(8);
+  });
+
+  it("follows the configured offset, countdown and duration", () => {
+    const tarawih = calculateTarawihWindow(thursdayTimeline(), {
+      tarawih_start_offset_minutes: 45,
+      tarawih_countdown_minutes: 5,
+      tarawih_duration_minutes: 90,
+      tarawih_rakaat: 20,
+    });
+
+    expect([tarawih.countdownStart, tarawih.start, tarawih.end].map((time) => time.format("HH:mm"))).toEqual(["20:00", "20:05", "21:35"]);
+    expect(tarawih.rakaat).toBe(20);
+  });
+});
+
+describe("resolveTarawihRakaat", () => {
+  it("accepts 8 or 20 and falls back to 8", () => {
+    expect(resolveTarawihRakaat(20)).toBe(20);
+    expect(resolveTarawihRakaat(11)).toBe(8);
+    expect(resolveTarawihRakaat(null)).toBe(8);
+  });
+});
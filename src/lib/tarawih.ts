@@ -0,0 +1,41 @@
+import dayjs from "dayjs";
+import type { AppSettings } from "@/contexts/AppSettingsContext";
+import { PrayerTimeline } from "@/lib/prayerTimes";
+
+export const DEFAULT_TARAWIH_START_OFFSET_MINUTES = 30; // After the Isya adhan, leaving time for Isya and the kultum
+export const DEFAULT_TARAWIH_COUNTDOWN_MINUTES = 10;
+export const DEFAULT_TARAWIH_DURATION_MINUTES = 60;
+export const TARAWIH_RAKAAT_OPTIONS = [8, 20] as const;
+export const DEFAULT_TARAWIH_RAKAAT = 8;
+
+export type TarawihSettings = Partial<Pick<AppSettings,
+  | "tarawih_start_offset_minutes"
+  | "tarawih_countdown_minutes"
+  | "tarawih_duration_minutes"
+  | "tarawih_rakaat"
+>>;
+
+export interface TarawihWindow {
+  countdownStart: dayjs.Dayjs;
+  start: dayjs.Dayjs;
+  end: dayjs.Dayjs; // The screen stays dark from `start` until here while Tarawih is prayed
+  rakaat: number;
+}
+
+// The configured number of rakaat, or the default for any other value.
+export const resolveTarawihRakaat = (rakaat: number | null | undefined) =>
+  TARAWIH_RAKAAT_OPTIONS.find((option) => option === rakaat) ?? DEFAULT_TARAWIH_RAKAAT;
+
+/**
+ * Schedules Tarawih relative to the Isya adhan of the timeline's day. Where the
+ * countdown overlaps the Isya window, the Isya phases are shown first.
+ */
+export const calculateTarawihWindow = (timeline: PrayerTimeline, settings: TarawihSettings): TarawihWindow => {
+  const start = timeline.times.isha.add(settings.tarawih_start_offset_minutes ?? DEFAULT_TARAWIH_START_OFFSET_MINUTES, "minute");
+  return {
+    countdownStart: start.subtract(settings.tarawih_countdown_minutes ?? DEFAULT_TARAWIH_COUNTDOWN_MINUTES, "minute"),
+    start,
+    end: start.add(settings.tarawih_duration_minutes ?? DEFAULT_TARAWIH_DURATION_MINUTES, "minute"),
+    rakaat: resolveTarawihRakaat(settings.tarawih_rakaat),
+  };
+};
@@ -0,0 +1,119 @@
+import { supabase } from "@/lib/supabase";
+import { setClockOffset } from "@/lib/clock";
+
+export const TIME_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+// Retry sooner after a failure, e.g. when the TV box boots before its network is up.
+const TIME_SYNC_RETRY_MS = 60 * 1000;
+const SAMPLES_PER_SYNC = 3;
+
+export interface TimeSyncStatus {
+  offsetMs: number; // Server time minus device time
+  roundTripMs: number | null; // Round trip of the sample the offset was taken from
+  lastSyncAt: number | null; // Corrected epoch milliseconds of the last successful sync
+  lastError: string | null;
+  isSyncing: boolean;
+}
+
+let status: TimeSyncStatus = {
+  offsetMs: 0,
+  roundTripMs: null,
+  lastSyncAt: null,
+  lastError: null,
+  isSyncing: false,
+};
+const statusListeners = new Set<() => void>();
+
+const updateStatus = (changes: Partial<TimeSyncStatus>) => {
+  status = { ...status, ...changes };
+  statusListeners.forEach((listener) => listener());
+};
+
+export const getTimeSyncStatus = () => status;
+
+export const subscribeToTimeSync = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const measureOffset = async () => {
+  const sentAt = Date.now();
+  const { data, error } = await supabase.rpc("server_now");
+  const receivedAt = Date.now();
+  if (error) throw error;
+
+  const serverTime = new Date(data).getTime();
+  if (Number.isNaN(serverTime)) throw new Error(`Unexpected server_now response: ${data}`);
+
+  // Assume the server read its clock halfway through the round trip.
+  const roundTripMs = receivedAt - sentAt;
+  return { offsetMs: Math.round(serverTime - (sentAt + roundTripMs / 2)), roundTripMs };
+};
+
+/**
+ * Measures the device clock's offset from the Supabase server clock and applies
+ * it to masjidNow(). A failed sync keeps the last known offset.
+ */
+export const syncServerTime = async () => {
+  if (status.isSyncing) return;
+  updateStatus({ isSyncing: true });
+
+  try {
+    const samples: { offsetMs: number; roundTripMs: number }[] = [];
+    for (let i = 0; i < SAMPLES_PER_SYNC; i++) {
+      samples.push(await measureOffset());
+    }
+    // The fastest round trip leaves the least room for network delay to skew the estimate.
+    const best = samples.reduce((fastest, sample) => (sample.roundTripMs < fastest.roundTripMs ? sample : fastest));
+
+    console.log(`timeSync: Device clock offset is ${best.offsetMs} ms (round trip ${best.roundTripMs} ms).`);
+    setClockOffset(best.offsetMs);
+    updateStatus({
+      offsetMs: best.offsetMs,
+      roundTripMs: best.roundTripMs,
+      lastSyncAt: Date.now() + best.offsetMs,
+      lastError: null,
+      isSyncing: false,
+    });
+  } catch (error) {
+    console.warn("timeSync: Failed to sync with the server clock, keeping the last offset.", error);
+    updateStatus({ lastError: (error as { message?: string })?.message || String(error), isSyncing: false });
+  }
+};
+
+let activeUsers = 0;
+let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+const syncAndScheduleNext = async () => {
+  await syncServerTime();
+  clearTimeout(timeoutId);
+  if (activeUsers > 0) {
+    timeoutId = setTimeout(syncAndScheduleNext, status.lastError ? TIME_SYNC_RETRY_MS : TIME_SYNC_INTERVAL_MS);
+  }
+};
+
+const handleOnline = () => {
+  console.log("timeSync: Network is back, re-syncing.");
+  syncServerTime();
+};
+
+/**
+ * Starts periodic syncing (once, however many screens ask for it) and returns
+ * the function that stops it again.
+ */
+export const startServerTimeSync = () => {
+  activeUsers++;
+  if (activeUsers === 1) {
+    syncAndScheduleNext();
+    window.addEventListener("online", handleOnline);
+  }
+
+  return () => {
+    activeUsers--;
+    if (activeUsers === 0) {
+      clearTimeout(timeoutId);
+      window.removeEventListener("online", handleOnline);
+    }
+  };
+};
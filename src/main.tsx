@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./globals.css";
+import { startClockSimulationFromUrl } from "./lib/clock";
+
+// Started before the first render so every timer is created at the simulated speed
+startClockSimulationFromUrl(window.location.search);
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import dayjs from "dayjs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getClockSimulation, getMasjidTimeZone, masjidNow } from "@/lib/clock";
+import { syncServerTime, TIME_SYNC_INTERVAL_MS } from "@/lib/timeSync";
+import { useServerTimeSync } from "@/hooks/use-time-sync";
+
+// Drift this large is enough to make the adhan beep or iqomah countdown noticeably early or late.
+const DRIFT_WARNING_MS = 5000;
+
+const formatDrift = (offsetMs: number) => {
+  if (Math.abs(offsetMs) < 1000) return `${offsetMs} ms (jam perangkat tepat)`;
+  const seconds = (Math.abs(offsetMs) / 1000).toFixed(1);
+  return offsetMs > 0
+    ? `${seconds} detik (jam perangkat terlambat)`
+    : `${seconds} detik (jam perangkat terlalu cepat)`;
+};
+
+const Diagnostics: React.FC = () => {
+  const navigate = useNavigate();
+  const status = useServerTimeSync();
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setTick((tick) => tick + 1), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const timeZone = getMasjidTimeZone();
+  const clockSimulation = getClockSimulation();
+  const rows = [
+    { label: "Jam Perangkat", value: dayjs().tz(timeZone).format("DD/MM/YYYY HH:mm:ss") },
+    { label: "Jam Server (dipakai layar)", value: masjidNow().format("DD/MM/YYYY HH:mm:ss") },
+    { label: "Selisih Jam Perangkat", value: formatDrift(status.offsetMs), isWarning: Math.abs(status.offsetMs) >= DRIFT_WARNING_MS },
+    { label: "Waktu Tempuh Jaringan", value: status.roundTripMs !== null ? `${status.roundTripMs} ms` : "-" },
+    {
+      label: "Sinkronisasi Terakhir",
+      value: status.lastSyncAt !== null ? dayjs(status.lastSyncAt).tz(timeZone).format("DD/MM/YYYY HH:mm:ss") : "Belum pernah",
+    },
+    { label: "Interval Sinkronisasi", value: `${TIME_SYNC_INTERVAL_MS / 60000} menit` },
+    { label: "Zona Waktu", value: timeZone },
+    {
+      label: "Simulasi",
+      value: clockSimulation ? `Aktif, ${clockSimulation.speed}x mulai ${clockSimulation.start}` : "Tidak aktif",
+      isWarning: clockSimulation !== null,
+    },
+    { label: "Galat Terakhir", value: status.lastError ?? "-", isWarning: status.lastError !== null },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <Card className="bg-gray-800 text-white border-gray-700 max-w-3xl mx-auto">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold text-blue-300">Diagnostik Jam</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-400 mb-4">
+            Jam layar disinkronkan dengan jam server Supabase agar adzan, beep dan hitung mundur iqomah tetap tepat walaupun jam perangkat TV bergeser.
+          </p>
+          <dl className="divide-y divide-gray-700">
+            {rows.map((row) => (
+              <div key={row.label} className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-300">{row.label}</dt>
+                <dd className={cn("text-right font-mono", row.isWarning ? "text-red-400" : "text-white")}>{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="flex flex-col sm:flex-row gap-2 mt-6">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/")}
+              className="text-gray-300 border-gray-600 hover:bg-gray-700"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" /> Kembali ke Layar Utama
+            </Button>
+            <Button
+              onClick={() => syncServerTime()}
+              disabled={status.isSyncing}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <RefreshCw className={cn("mr-2 h-4 w-4", status.isSyncing && "animate-spin")} />
+              {status.isSyncing ? "Menyinkronkan..." : "Sinkronkan Sekarang"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Diagnostics;
@@ -13,8 +13,12 @@ import MurottalPlayer from "@/components/MurottalPlayer";
 import IslamicHolidayCountdown from "@/components/IslamicHolidayCountdown";
 import PrayerCountdownOverlay from "@/components/PrayerCountdownOverlay";
 import JumuahInfoOverlay from "@/components/JumuahInfoOverlay";
+import EidPrayerOverlay from "@/components/EidPrayerOverlay";
+import TarawihOverlay from "@/components/TarawihOverlay";
+import IftarOverlay from "@/components/IftarOverlay";
 import DarkScreenOverlay from "@/components/DarkScreenOverlay";
 import ImsakOverlay from "@/components/ImsakOverlay";
+import SahurOverlay from "@/components/SahurOverlay";
 // import Screensaver from "@/components/Screensaver"; // Dihapus
 import MediaPlayerDisplay from "@/components/MediaPlayerDisplay";
 import { supabase } from "@/lib/supabase"; // Keep supabase import for other uses
@@ -22,46 +26,55 @@ import { toast } from "sonner";
 import dayjs from "dayjs";
 import duration from "dayjs/plugin/duration";
 import isBetween from "dayjs/plugin/isBetween";
-import * as Adhan from "adhan";
-import { Settings, RefreshCw } from "lucide-react"; // Import RefreshCw icon
+import { Settings, RefreshCw, Activity } from "lucide-react"; // Import RefreshCw icon
 import { Button } from "@/components/ui/button";
 import { useAppSettings } from "@/contexts/AppSettingsContext"; // Import useAppSettings
+import { usePrayerTimeline } from "@/contexts/PrayerTimelineContext";
+import { useEidPrayer } from "@/contexts/EidPrayerContext";
+import { useSahurReminders } from "@/contexts/SahurReminderContext";
+import { getClockSimulation } from "@/lib/clock";
+import { isEidOverlayPhase, isJumuahOverlayPhase, isPrayerOverlayPhase } from "@/lib/overlayState";
+import { useServerTimeSync } from "@/hooks/use-time-sync";
+import { useOverlayState } from "@/hooks/use-overlay-state";
 
 dayjs.extend(duration);
 dayjs.extend(isBetween);
 
 const InfoSlides = React.lazy(() => import("@/components/InfoSlides"));
 
-const ADHAN_DURATION_SECONDS = 120;
-const ADHAN_JUMUAH_DURATION_SECONDS = 120;
-const PRE_ADHAN_COUNTDOWN_SECONDS = 30;
-const IMSAK_OVERLAY_DURATION_SECONDS = 10;
-
 const Index = () => {
   const navigate = useNavigate();
   const { settings, isLoadingSettings } = useAppSettings(); // Use the new hook
+  const { timeline, tarawihWindow, iftarWindow } = usePrayerTimeline();
+  const { eidTimeline } = useEidPrayer();
+  const { sahurReminders } = useSahurReminders();
+  useServerTimeSync(); // Corrects masjidNow() for a drifting device clock
+  const clockSimulation = getClockSimulation(); // Set once from the URL before the first render
 
   const [masjidName, setMasjidName] = useState<string>(""); // Changed default to empty string
   const [masjidLogoUrl, setMasjidLogoUrl] = useState<string | null>(null);
   const [masjidAddress, setMasjidAddress] = useState<string | null>(null);
   const [masjidNameColor, setMasjidNameColor] = useState<string>("#34D399");
 
-  const [nextPrayerName, setNextPrayerName] = useState<string | null>(null);
-  const [nextPrayerTime, setNextPrayerTime] = useState<dayjs.Dayjs | null>(null);
-  const [iqomahCountdownDuration, setIqomahCountdownDuration] = useState<number>(300);
-  const [khutbahDurationMinutes, setKhutbahDurationMinutes] = useState<number>(45);
-  const [isRamadanModeActive, setIsRamadanModeActive] = useState(false);
   // const [screensaverIdleMinutes, setScreensaverIdleMinutes] = useState<number>(5); // Dihapus
 
-  const [showPrayerOverlay, setShowPrayerOverlay] = useState(false);
-  const [showJumuahOverlay, setShowJumuahOverlay] = useState(false);
-  const [showImsakOverlay, setShowImsakOverlay] = useState(false);
-  const [isScreenDarkened, setIsScreenDarkened] = useState(false);
   // const [isScreensaverActive, setIsScreensaverActive] = useState(false); // Dihapus
   const [isMurottalPlaying, setIsMurottalPlaying] = useState(false); // State for MurottalPlayer status
 
-  const [jumuahDhuhrTime, setJumuahDhuhrTime] = useState<dayjs.Dayjs | null>(null);
-  const [imsakTime, setImsakTime] = useState<dayjs.Dayjs | null>(null);
+  // One state machine decides which overlay is shown, so the overlays never disagree at phase boundaries
+  const overlayState = useOverlayState(timeline, eidTimeline, tarawihWindow, sahurReminders, iftarWindow);
+  const overlayPhase = overlayState.phase;
+  const activePrayerWindow = overlayState.prayerWindow;
+  const showImsakOverlay = overlayPhase === "imsak";
+  const activeSahurReminder = overlayPhase === "sahur"
+    ? sahurReminders.find((reminder) => reminder.time.valueOf() === overlayState.phaseStart?.valueOf()) ?? null
+    : null;
+  const showPrayerOverlay = !!activePrayerWindow && !activePrayerWindow.isJumuah && isPrayerOverlayPhase(overlayPhase);
+  const showJumuahOverlay = !!activePrayerWindow?.isJumuah && isJumuahOverlayPhase(overlayPhase);
+  const showEidOverlay = !!eidTimeline && isEidOverlayPhase(overlayPhase);
+  const showTarawihOverlay = !!tarawihWindow && overlayPhase === "tarawih-countdown";
+  const showIftarOverlay = !!iftarWindow && overlayPhase === "iftar-countdown";
+  const isScreenDarkened = overlayPhase === "in-prayer" || overlayPhase === "tarawih-in-prayer";
 
   // const activityTimerRef = useRef<NodeJS.Timeout | null>(null); // Dihapus
 
@@ -110,159 +123,17 @@ const Index = () => {
       return;
     }
 
-    console.log("Index: Settings available, updating state and calculating prayer times.");
+    console.log("Index: Settings available, updating masjid info.");
     setMasjidName(settings.masjid_name || ""); // Ensure it's an empty string if null
     setMasjidLogoUrl(settings.masjid_logo_url);
     setMasjidAddress(settings.masjid_address);
-    setIqomahCountdownDuration(settings.iqomah_countdown_duration || 300);
-    setKhutbahDurationMinutes(settings.khutbah_duration_minutes || 45);
-    setIsRamadanModeActive(settings.is_ramadan_mode_active || false);
     setMasjidNameColor(settings.masjid_name_color || "#34D399");
     // setScreensaverIdleMinutes(settings.screensaver_idle_minutes || 5); // Dihapus
     // console.log("Index: screensaverIdleMinutes from settings:", settings.screensaver_idle_minutes); // Dihapus
-
-
-    const coordinates = new Adhan.Coordinates(settings.latitude || -6.2088, settings.longitude || 106.8456);
-    const params = Adhan.CalculationMethod[settings.calculation_method as keyof typeof Adhan.CalculationMethod]();
-    const today = dayjs();
-    const times = new Adhan.PrayerTimes(coordinates, today.toDate(), params);
-
-    const adjustedFajr = dayjs(times.fajr).add(settings.fajr_offset ?? 0, 'minute');
-    const adjustedDhuhr = dayjs(times.dhuhr).add(settings.dhuhr_offset ?? 0, 'minute');
-    const adjustedAsr = dayjs(times.asr).add(settings.asr_offset ?? 0, 'minute');
-    const adjustedMaghrib = dayjs(times.maghrib).add(settings.maghrib_offset ?? 0, 'minute');
-    const adjustedIsha = dayjs(times.isha).add(settings.isha_offset ?? 0, 'minute');
-    const calculatedImsakTime = dayjs(times.fajr).subtract(10, 'minute').add(settings.imsak_offset ?? 0, 'minute');
-
-    const isFriday = today.day() === 5;
-
-    const prayerTimesList = [
-      { name: "Subuh", time: adjustedFajr },
-      { name: "Syuruq", time: dayjs(times.sunrise) },
-      { name: isFriday ? "Jum'at" : "Dzuhur", time: adjustedDhuhr },
-      { name: "Ashar", time: adjustedAsr },
-      { name: "Maghrib", time: adjustedMaghrib },
-      { name: "Isya", time: adjustedIsha },
-    ];
-
-    if (isFriday) {
-      setJumuahDhuhrTime(adjustedDhuhr);
-      console.log("Index: Jumuah Dhuhr Time set:", adjustedDhuhr.format('HH:mm:ss'));
-    } else {
-      setJumuahDhuhrTime(null);
-    }
-
-    if (settings.is_ramadan_mode_active) {
-      setImsakTime(calculatedImsakTime);
-      console.log("Index: Imsak Time set (Ramadan mode active):", calculatedImsakTime.format('HH:mm:ss'));
-    } else {
-      setImsakTime(null);
-    }
-
-    let foundNextPrayer: { name: string; time: dayjs.Dayjs } | null = null;
-    let minDiff = Infinity;
-    const now = dayjs();
-
-    for (const prayer of prayerTimesList) {
-      if (prayer.name === "Syuruq") continue; // Syuruq is not a prayer with countdown/overlay
-
-      let prayerDateTime = prayer.time;
-      // If the prayer time for today has already passed, consider it for tomorrow
-      if (prayerDateTime.isBefore(now)) {
-        prayerDateTime = prayerDateTime.add(1, 'day');
-      }
-      const diff = prayerDateTime.diff(now);
-      if (diff > 0 && diff < minDiff) {
-        minDiff = diff;
-        foundNextPrayer = { name: prayer.name, time: prayerDateTime };
-      }
-    }
-    
-    setNextPrayerName(foundNextPrayer?.name || null);
-    setNextPrayerTime(foundNextPrayer?.time || null);
-    console.log("Index: Next prayer determined:", foundNextPrayer?.name, foundNextPrayer?.time?.format('HH:mm:ss'));
   }, [isLoadingSettings, settings]); // Depend on settings and its loading state
 
-  const handlePrayerOrKhutbahEnd = useCallback(() => {
-    console.log("Index: handlePrayerOrKhutbahEnd called.");
-    setShowPrayerOverlay(false);
-    setShowJumuahOverlay(false);
-
-    if (nextPrayerName !== "Imsak") { // Imsak doesn't darken the screen
-      setIsScreenDarkened(true);
-      console.log("Index: Screen darkened for prayer/khutbah. Will revert in 5 minutes.");
-      setTimeout(() => {
-        setIsScreenDarkened(false);
-        console.log("Index: Screen reverted to normal after prayer/khutbah.");
-      }, 5 * 60 * 1000); // 5 minutes
-    }
-  }, [nextPrayerName]);
-
-  useEffect(() => {
-    const updateOverlayVisibility = () => {
-      const now = dayjs();
-      const isFriday = now.day() === 5;
-
-      // Reset all overlays first
-      setShowPrayerOverlay(false);
-      setShowJumuahOverlay(false);
-      setShowImsakOverlay(false);
-      // Do NOT reset isScreenDarkened here, it's managed by handlePrayerOrKhutbahEnd
-      // setIsScreenDarkened(false); // Removed this line
-
-      console.log(`Index: updateOverlayVisibility - Current Time: ${now.format('HH:mm:ss')}`);
-      console.log(`Index: Current Overlay States - Prayer: ${showPrayerOverlay}, Jumuah: ${showJumuahOverlay}, Imsak: ${showImsakOverlay}, Darkened: ${isScreenDarkened}`); // Dihapus: Screensaver
-
-
-      // Priority 1: Imsak Overlay (if Ramadan mode active)
-      if (isRamadanModeActive && imsakTime) {
-        const imsakEndTime = imsakTime.add(IMSAK_OVERLAY_DURATION_SECONDS, 'second');
-        console.log(`Index: Checking Imsak Overlay. Imsak Time: ${imsakTime.format('HH:mm:ss')}, End Time: ${imsakEndTime.format('HH:mm:ss')}`);
-        if (now.isBetween(imsakTime, imsakEndTime, null, '[)')) {
-          setShowImsakOverlay(true);
-          console.log("Index: Imsak Overlay is active.");
-          return; // Stop checking other overlays
-        }
-      }
-
-      // Priority 2: Jumuah Overlay (if Friday and Dhuhr time)
-      if (isFriday && jumuahDhuhrTime) {
-        const PRE_ADHAN_JUMUAH_SECONDS_LOCAL = 300;
-        const adhanEndTime = jumuahDhuhrTime.add(ADHAN_JUMUAH_DURATION_SECONDS, 'second');
-        const preAdhanStartTime = jumuahDhuhrTime.subtract(PRE_ADHAN_JUMUAH_SECONDS_LOCAL, 'second');
-        const khutbahEndTime = adhanEndTime.add(khutbahDurationMinutes, 'minute');
-
-        console.log(`Index: Checking Jumuah Overlay. Pre-Adhan Start: ${preAdhanStartTime.format('HH:mm:ss')}, Adhan End: ${adhanEndTime.format('HH:mm:ss')}, Khutbah End: ${khutbahEndTime.format('HH:mm:ss')}`);
-        if (now.isBetween(preAdhanStartTime, khutbahEndTime, null, '[)')) {
-          setShowJumuahOverlay(true);
-          console.log("Index: Jumuah Overlay is active.");
-          return; // Stop checking other overlays
-        }
-      }
-
-      // Priority 3: Regular Prayer Countdown Overlay
-      if (nextPrayerTime && nextPrayerName && nextPrayerName !== "Syuruq") {
-        const overlayStartTime = nextPrayerTime.subtract(PRE_ADHAN_COUNTDOWN_SECONDS, 'second');
-        const overlayEndTime = nextPrayerTime.add(ADHAN_DURATION_SECONDS + iqomahCountdownDuration, 'second');
-
-        console.log(`Index: Checking Prayer Overlay. Next Prayer: ${nextPrayerName} at ${nextPrayerTime.format('HH:mm:ss')}. Overlay Start: ${overlayStartTime.format('HH:mm:ss')}, Overlay End: ${overlayEndTime.format('HH:mm:ss')}`);
-        if (now.isBetween(overlayStartTime, overlayEndTime, null, '[)')) {
-          setShowPrayerOverlay(true);
-          console.log("Index: Prayer Countdown Overlay is active.");
-          return; // Stop checking other overlays
-        }
-      }
-      console.log("Index: No prayer/Jumuah/Imsak overlay is active.");
-    };
-
-    const interval = setInterval(updateOverlayVisibility, 1000);
-    updateOverlayVisibility();
-
-    return () => clearInterval(interval);
-  }, [nextPrayerTime, nextPrayerName, iqomahCountdownDuration, khutbahDurationMinutes, jumuahDhuhrTime, imsakTime, isRamadanModeActive, isScreenDarkened]); // Dihapus: isScreensaverActive
-
   // Combine all conditions that should pause the MediaPlayerDisplay
-  const isOverlayActive = showPrayerOverlay || showJumuahOverlay || showImsakOverlay;
+  const isOverlayActive = showPrayerOverlay || showJumuahOverlay || showEidOverlay || showTarawihOverlay || showIftarOverlay || showImsakOverlay || !!activeSahurReminder;
   const shouldMediaPlayerBePaused = isOverlayActive || isScreenDarkened || isMurottalPlaying; // Dihapus: isScreensaverActive
 
   console.log(`Index: Render - isOverlayActive: ${isOverlayActive}, isScreenDarkened: ${isScreenDarkened}, shouldMediaPlayerBePaused: ${shouldMediaPlayerBePaused}`); // Dihapus: isScreensaverActive
@@ -282,32 +153,44 @@ const Index = () => {
           <Screensaver /> // Dihapus
         )} */}
 
-        {showImsakOverlay && isRamadanModeActive && imsakTime && (
-          <ImsakOverlay
-            imsakTime={imsakTime}
-            onClose={() => {
-              setShowImsakOverlay(false);
-              console.log("Index: ImsakOverlay closed.");
-            }}
-          />
+        {showImsakOverlay && timeline && (
+          <ImsakOverlay imsakTime={timeline.times.imsak} />
+        )}
+        {activeSahurReminder && (
+          <SahurOverlay imsakTime={activeSahurReminder.imsakTime} message={activeSahurReminder.message} />
         )}
-        {showPrayerOverlay && (
+        {showPrayerOverlay && activePrayerWindow && isPrayerOverlayPhase(overlayPhase) && (
           <PrayerCountdownOverlay
-            nextPrayerName={nextPrayerName}
-            nextPrayerTime={nextPrayerTime}
-            iqomahCountdownDuration={iqomahCountdownDuration}
-            onClose={handlePrayerOrKhutbahEnd}
-            isJumuah={false}
+            nextPrayerName={activePrayerWindow.name}
+            displayPhase={overlayPhase}
+            phaseEnd={overlayState.phaseEnd}
           />
         )}
-        {showJumuahOverlay && jumuahDhuhrTime && (
+        {showJumuahOverlay && isJumuahOverlayPhase(overlayPhase) && (
           <JumuahInfoOverlay
-            jumuahDhuhrTime={jumuahDhuhrTime}
-            khutbahDurationMinutes={khutbahDurationMinutes}
-            onClose={handlePrayerOrKhutbahEnd}
+            displayPhase={overlayPhase}
+            jumuahPhases={activePrayerWindow?.jumuahPhases ?? []}
+            phaseStart={overlayState.phaseStart}
+            phaseEnd={overlayState.phaseEnd}
           />
         )}
 
+        {showEidOverlay && eidTimeline && isEidOverlayPhase(overlayPhase) && (
+          <EidPrayerOverlay
+            eidTimeline={eidTimeline}
+            displayPhase={overlayPhase}
+            phaseEnd={overlayState.phaseEnd}
+          />
+        )}
+
+        {showTarawihOverlay && tarawihWindow && (
+          <TarawihOverlay tarawihWindow={tarawihWindow} />
+        )}
+
+        {showIftarOverlay && iftarWindow && (
+          <IftarOverlay iftarWindow={iftarWindow} />
+        )}
+
         {isScreenDarkened && <DarkScreenOverlay />}
 
         {/* Main content div, hidden if any overlay or screensaver/dark screen is active */}
@@ -378,6 +261,12 @@ const Index = () => {
           </div>
         </div>
 
+        {clockSimulation && (
+          <div className="fixed top-2 left-1/2 -translate-x-1/2 z-[60] bg-red-600 text-white text-2xl font-bold px-4 py-1 rounded-md pointer-events-none">
+            MODE SIMULASI {clockSimulation.speed}x (mulai {clockSimulation.start})
+          </div>
+        )}
+
         <div
           className="absolute bottom-2 left-2 z-50"
         >
@@ -390,6 +279,15 @@ const Index = () => {
           >
             <Settings className="h-6 w-6" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/diagnostics")}
+            className="text-gray-400 hover:text-gray-200"
+            aria-label="Go to Diagnostics"
+          >
+            <Activity className="h-6 w-6" />
+          </Button>
         </div>
       </AppBackground>
     </>
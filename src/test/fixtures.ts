@@ -0,0 +1,80 @@
+import { EidPrayer } from "@/lib/eidPrayer";
+import { JumuahPhase } from "@/lib/jumuah";
+import { PrayerTimelineSettings } from "@/lib/prayerTimes";
+import { SahurReminder } from "@/lib/sahur";
+
+export const TEST_TIME_ZONE = "Asia/Jakarta";
+
+// Masjid Istiqlal, Jakarta, with the Kemenag RI angles (Subuh 20°, Isya 18°).
+// Calculated times for the pinned dates used in the tests:
+//   Thu 2026-03-05: Subuh 04:40, Terbit 05:58, Dzuhur 12:04, Ashar 15:05, Maghrib 18:10, Isya 19:20
+//   Fri 2026-03-06: Subuh 04:40, Terbit 05:58, Dzuhur 12:04, Ashar 15:06, Maghrib 18:10, Isya 19:19
+export const JAKARTA_SETTINGS: PrayerTimelineSettings = {
+  time_zone: TEST_TIME_ZONE,
+  latitude: -6.1702,
+  longitude: 106.8312,
+  calculation_method: "Custom",
+  custom_fajr_angle: 20,
+  custom_isha_angle: 18,
+  asr_madhab: "Shafi",
+  ihtiyat_active: false,
+  is_ramadan_mode_active: false,
+};
+
+export const THURSDAY = "2026-03-05";
+export const FRIDAY = "2026-03-06";
+
+// An Ied prayer at 06:30 on the Friday, so its takbir falls on the Thursday evening.
+export const FRIDAY_EID_PRAYER: EidPrayer = {
+  id: "eid",
+  eid_type: "fitri",
+  prayer_date: FRIDAY,
+  holiday_id: null,
+  prayer_time: "06:30",
+  imam_name: "Imam",
+  khatib_name: "Khatib",
+  location: "lapangan",
+  location_name: null,
+  takbir_audio_url: "takbir.mp3",
+  takbir_duration_minutes: 60,
+  khutbah_duration_minutes: 20,
+  countdown_minutes: 30,
+};
+
+// Sahur reminders at a fixed 02:30 and 30 minutes before the 04:30 Imsak.
+export const SAHUR_REMINDERS: SahurReminder[] = [
+  {
+    id: "sahur-fixed",
+    trigger_type: "fixed",
+    fixed_time: "02:30",
+    minutes_before_imsak: null,
+    audio_url: "sahur.mp3",
+    message: null,
+    overlay_duration_minutes: 5,
+    is_active: true,
+    display_order: 0,
+  },
+  {
+    id: "sahur-before-imsak",
+    trigger_type: "before_imsak",
+    fixed_time: null,
+    minutes_before_imsak: 30,
+    audio_url: null,
+    message: "Tiga puluh menit menuju Imsak",
+    overlay_duration_minutes: 45,
+    is_active: true,
+    display_order: 1,
+  },
+];
+
+// A Friday timeline with two adhans, the first at the 12:04 Jum'at time:
+//   Tarhim 11:54, Adzan Pertama 12:04, Khatib Naik Mimbar 12:07, Adzan Kedua 12:09,
+//   Khutbah 12:12, Sholat Jum'at 12:32 until 12:42. Listed out of order on purpose.
+export const FRIDAY_JUMUAH_PHASES: JumuahPhase[] = [
+  { id: "jumuah-khutbah", name: "Khutbah", phase_type: "khutbah", duration_minutes: 20, message: null, audio_url: null, display_order: 4 },
+  { id: "jumuah-tarhim", name: "Tarhim", phase_type: "announcement", duration_minutes: 10, message: "Menjelang Jum'at", audio_url: "tarhim-jumat.mp3", display_order: 0 },
+  { id: "jumuah-adhan-1", name: "Adzan Pertama", phase_type: "adhan", duration_minutes: 3, message: null, audio_url: null, display_order: 1 },
+  { id: "jumuah-prayer", name: "Sholat Jum'at", phase_type: "prayer", duration_minutes: 10, message: null, audio_url: null, display_order: 5 },
+  { id: "jumuah-mimbar", name: "Khatib Naik Mimbar", phase_type: "announcement", duration_minutes: 2, message: "Harap tenang, khatib naik mimbar", audio_url: "mimbar.mp3", display_order: 2 },
+  { id: "jumuah-adhan-2", name: "Adzan Kedua", phase_type: "adhan", duration_minutes: 3, message: null, audio_url: null, display_order: 3 },
+];
@@ -0,0 +1,101 @@
+// A row of the hijri_month_overrides table: the first day of a Hijri month as
+// decided by the sidang isbat.
+export interface HijriMonthOverride {
+  hijri_year: number;
+  hijri_month: number; // 1-12
+  start_date: string; // YYYY-MM-DD
+}
+
+// The Hijri calendar settings of the display (see src/lib/hijri.ts): the variant
+// and adjustment sent by the admin page, and the month overrides from the table.
+export interface HijriCalendarConfig {
+  variant: string;
+  dayAdjustment: number; // -2..+2 days, used while no month override of the past year applies
+  monthOverrides: HijriMonthOverride[];
+}
+
+const HIJRI_VARIANTS = ["islamic", "islamic-umalqura", "islamic-civil", "islamic-tbla"];
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export const resolveHijriCalendarConfig = (
+  variant: string | undefined,
+  dayAdjustment: number | undefined,
+  monthOverrides: HijriMonthOverride[],
+): HijriCalendarConfig => ({
+  variant: HIJRI_VARIANTS.includes(variant ?? '') ? variant! : 'islamic-umalqura',
+  dayAdjustment: Math.min(Math.max(dayAdjustment ?? 0, -2), 2),
+  monthOverrides: [...monthOverrides].sort((a, b) => a.start_date.localeCompare(b.start_date)),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// An override older than about a Hijri year is stale; the day adjustment takes over again.
+const OVERRIDE_MAX_AGE_DAYS = 354;
+// How far from an override's start date its month start is searched for in the calculated calendar.
+const MONTH_START_SEARCH_DAYS = 5;
+
+const toDay = (date: string) => new Date(`${date}T00:00:00Z`);
+const addDays = (day: Date, days: number) => new Date(day.getTime() + days * DAY_MS);
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const calculateHijriDate = (day: Date, variant: string): HijriDate => {
+  let formatter = formatters.get(variant);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-US-u-ca-${variant}`, {
+      day: 'numeric',
+      month: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    });
+    formatters.set(variant, formatter);
+  }
+  const parts = formatter.formatToParts(day);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+const monthIndex = (year: number, month: number) => year * 12 + month - 1;
+
+// Days between the override's start date and the day the calculated calendar starts that month.
+const getOverrideShift = (override: HijriMonthOverride, variant: string) => {
+  const start = toDay(override.start_date);
+  for (let distance = 0; distance <= MONTH_START_SEARCH_DAYS; distance++) {
+    for (const shift of distance === 0 ? [0] : [distance, -distance]) {
+      const calculated = calculateHijriDate(addDays(start, -shift), variant);
+      if (calculated.day === 1 && calculated.month === override.hijri_month && calculated.year === override.hijri_year) {
+        return shift;
+      }
+    }
+  }
+  console.warn(`Override ${override.hijri_month}/${override.hijri_year} is too far from the calculated calendar, ignored.`);
+  return null;
+};
+
+// Converts a YYYY-MM-DD date to a Hijri date the way the display does: the
+// variant shifted by the day adjustment, or from an override's start date on by
+// however much it moved its month, with the previous month extended up to it.
+export const toHijriDate = (date: string, config: HijriCalendarConfig, depth = 0): HijriDate => {
+  const day = toDay(date);
+  const latestOverride = config.monthOverrides.filter((override) => override.start_date <= date).pop();
+  const latestShift = latestOverride && (day.getTime() - toDay(latestOverride.start_date).getTime()) / DAY_MS < OVERRIDE_MAX_AGE_DAYS
+    ? getOverrideShift(latestOverride, config.variant)
+    : null;
+  const shift = latestShift ?? -config.dayAdjustment;
+  const hijriDate = calculateHijriDate(addDays(day, -shift), config.variant);
+
+  const nextOverride = config.monthOverrides.find((override) => override.start_date > date);
+  if (
+    nextOverride &&
+    depth < MONTH_START_SEARCH_DAYS &&
+    monthIndex(hijriDate.year, hijriDate.month) >= monthIndex(nextOverride.hijri_year, nextOverride.hijri_month)
+  ) {
+    const previous = toHijriDate(addDays(day, -1).toISOString().slice(0, 10), config, depth + 1);
+    return { ...previous, day: previous.day + 1 };
+  }
+  return hijriDate;
+};
@@ -1,11 +1,81 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import {
+  DEFAULT_PROVIDER_ID,
+  HOLIDAY_PROVIDERS,
+  isIslamicObservance,
+  ProviderError,
+  ProviderHoliday,
+} from './providers.ts';
+import { HijriCalendarConfig, resolveHijriCalendarConfig, toHijriDate } from './hijri.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface ExistingHoliday {
+  id: string;
+  name: string;
+  holiday_date: string | null;
+  hijri_month: number | null;
+  hijri_day: number | null;
+}
+
+interface HolidayUpdate {
+  id: string;
+  name: string;
+  holiday_date: string;
+  previous_date: string;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Names are compared without case, spacing and punctuation, so "Idul Fitri" matches "Idul-Fitri".
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Compares the provider's holidays with the table: new ones are inserted, a holiday
+// already listed under another date of the same year gets its date updated, and
+// holidays kept as recurring Hijri dates are left to the display's own calculation.
+// A recurring row is found by its Hijri date, since providers name holidays in
+// their own language, or by its name for a provider a day off the calculation.
+const planChanges = (holidays: ProviderHoliday[], existing: ExistingHoliday[], year: number, hijriCalendar: HijriCalendarConfig) => {
+  const inserts: { name: string; holiday_date: string }[] = [];
+  const updates: HolidayUpdate[] = [];
+  const unchanged: { name: string; holiday_date: string }[] = [];
+  const skipped: { name: string; holiday_date: string; reason: string }[] = [];
+
+  for (const holiday of holidays) {
+    const key = normalizeName(holiday.name);
+    const sameName = existing.filter((row) => normalizeName(row.name) === key);
+    const hijri = isIslamicObservance(holiday) ? toHijriDate(holiday.holiday_date, hijriCalendar) : null;
+    const isRecurring = existing.some((row) => row.hijri_month !== null && (
+      sameName.includes(row) || (row.hijri_month === hijri?.month && row.hijri_day === hijri?.day)
+    ));
+
+    if (isRecurring) {
+      skipped.push({ name: holiday.name, holiday_date: holiday.holiday_date, reason: 'recurring' });
+      continue;
+    }
+    if (sameName.some((row) => row.holiday_date === holiday.holiday_date)) {
+      unchanged.push({ name: holiday.name, holiday_date: holiday.holiday_date });
+      continue;
+    }
+    const sameYear = sameName.find((row) => row.holiday_date?.startsWith(`${year}-`));
+    if (sameYear && !updates.some((update) => update.id === sameYear.id)) {
+      updates.push({ id: sameYear.id, name: sameYear.name, holiday_date: holiday.holiday_date, previous_date: sameYear.holiday_date! });
+    } else {
+      inserts.push({ name: holiday.name, holiday_date: holiday.holiday_date });
+    }
+  }
+
+  return { inserts, updates, unchanged, skipped };
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     console.log("OPTIONS request received.");
@@ -14,46 +84,28 @@ serve(async (req) => {
 
   try {
     console.log("Incoming request to fetch-holidays.");
-    const { year, country } = await req.json();
-    console.log(`Request body parsed: year=${year}, country=${country}`);
+    const {
+      year,
+      country,
+      provider: providerId = DEFAULT_PROVIDER_ID,
+      islamic_only = true,
+      dry_run = false,
+      hijri_variant,
+      hijri_day_adjustment,
+    } = await req.json();
+    console.log(`Request body parsed: year=${year}, country=${country}, provider=${providerId}, islamic_only=${islamic_only}, dry_run=${dry_run}`);
 
     if (!year || !country) {
       console.error("Missing 'year' or 'country' in request body.");
-      return new Response(JSON.stringify({ error: "Missing 'year' or 'country' in request body." }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      });
+      return jsonResponse({ error: "Missing 'year' or 'country' in request body." }, 400);
     }
 
-    const CALENDARIFIC_API_KEY = Deno.env.get("CALENDARIFIC_API_KEY");
-    if (!CALENDARIFIC_API_KEY) {
-      console.error("CALENDARIFIC_API_KEY is not set in Supabase secrets.");
-      return new Response(JSON.stringify({ error: "CALENDARIFIC_API_KEY is not set in Supabase secrets." }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      });
-    }
-    console.log("CALENDARIFIC_API_KEY is set.");
-
-    const url = `https://calendarific.com/api/v2/holidays?api_key=${CALENDARIFIC_API_KEY}&country=${country}&year=${year}`;
-    console.log(`Attempting to fetch holidays from: ${url}`);
-
-    const response = await fetch(url);
-    console.log(`Calendarific API response status: ${response.status}`);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Calendarific API error: ${response.status} - ${errorText}`);
-      return new Response(JSON.stringify({ error: `Failed to fetch holidays from Calendarific API: ${response.status} ${errorText}` }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: response.status,
-      });
+    const provider = HOLIDAY_PROVIDERS.find((p) => p.id === providerId);
+    if (!provider) {
+      console.error(`Unknown holiday provider: ${providerId}`);
+      return jsonResponse({ error: `Unknown holiday provider '${providerId}'. Available: ${HOLIDAY_PROVIDERS.map((p) => p.id).join(', ')}.` }, 400);
     }
 
-    const data = await response.json();
-    console.log("Calendarific API response received and parsed.");
-    console.log(`Number of holidays found: ${data.response.holidays ? data.response.holidays.length : 0}`);
-
     // Initialize Supabase client for database operations
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -66,40 +118,68 @@ serve(async (req) => {
     );
     console.log("Supabase client initialized in Edge Function.");
 
-    const holidaysToUpsert = data.response.holidays.map((holiday: any) => ({
-      name: holiday.name,
-      holiday_date: holiday.date.iso,
-      display_order: 0, // Default display order
-    }));
-    console.log(`Prepared ${holidaysToUpsert.length} holidays for upsert.`);
+    // The isbat month starts, so the dates match the Hijri calendar on the display
+    const { data: monthOverrides, error: overridesError } = await supabaseClient
+      .from('hijri_month_overrides')
+      .select('hijri_year, hijri_month, start_date');
+
+    if (overridesError) {
+      console.error("Error reading Hijri month overrides from Supabase:", overridesError);
+      return jsonResponse({ error: `Failed to read Hijri month overrides: ${overridesError.message}` }, 500);
+    }
+
+    const hijriCalendar = resolveHijriCalendarConfig(hijri_variant, hijri_day_adjustment, monthOverrides || []);
+    const providerHolidays = await provider.fetchHolidays({ year: Number(year), country, hijri_calendar: hijriCalendar });
+    const holidays = islamic_only && !provider.islamicOnly ? providerHolidays.filter(isIslamicObservance) : providerHolidays;
+    console.log(`Provider '${provider.id}' returned ${providerHolidays.length} holidays, ${holidays.length} kept after filtering.`);
+
+    const { data: existing, error: selectError } = await supabaseClient
+      .from('islamic_holidays')
+      .select('id, name, holiday_date, hijri_month, hijri_day');
+
+    if (selectError) {
+      console.error("Error reading existing holidays from Supabase:", selectError);
+      return jsonResponse({ error: `Failed to read existing holidays: ${selectError.message}` }, 500);
+    }
+
+    const plan = planChanges(holidays, existing || [], Number(year), hijriCalendar);
+    console.log(`Planned ${plan.inserts.length} inserts, ${plan.updates.length} updates, ${plan.unchanged.length} unchanged, ${plan.skipped.length} skipped.`);
+
+    if (dry_run) {
+      return jsonResponse({ message: "Dry run, nothing was saved.", provider: provider.id, dry_run: true, ...plan, count: 0 }, 200);
+    }
 
-    if (holidaysToUpsert.length > 0) {
-      const { error: upsertError } = await supabaseClient
+    if (plan.inserts.length > 0) {
+      const { error: insertError } = await supabaseClient
         .from('islamic_holidays')
-        .upsert(holidaysToUpsert, { onConflict: 'holiday_date,name' }); // Upsert based on date and name to avoid duplicates
-
-      if (upsertError) {
-        console.error("Error upserting holidays to Supabase:", upsertError);
-        return new Response(JSON.stringify({ error: `Failed to save holidays to database: ${upsertError.message}` }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 500,
-        });
+        .insert(plan.inserts.map((holiday) => ({ ...holiday, display_order: 0 })));
+
+      if (insertError) {
+        console.error("Error inserting holidays to Supabase:", insertError);
+        return jsonResponse({ error: `Failed to save holidays to database: ${insertError.message}` }, 500);
       }
-      console.log(`Successfully upserted ${holidaysToUpsert.length} holidays.`);
-    } else {
-      console.log("No holidays to upsert.");
     }
 
-    return new Response(JSON.stringify({ message: "Holidays fetched and saved successfully!", count: holidaysToUpsert.length }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+    // Only the date changes; the name and display order chosen in the admin panel are kept
+    for (const update of plan.updates) {
+      const { error: updateError } = await supabaseClient
+        .from('islamic_holidays')
+        .update({ holiday_date: update.holiday_date })
+        .eq('id', update.id);
+
+      if (updateError) {
+        console.error("Error updating holiday in Supabase:", updateError);
+        return jsonResponse({ error: `Failed to update holiday '${update.name}': ${updateError.message}` }, 500);
+      }
+    }
+
+    const count = plan.inserts.length + plan.updates.length;
+    console.log(`Successfully saved ${count} holidays.`);
+
+    return jsonResponse({ message: "Holidays fetched and saved successfully!", provider: provider.id, dry_run: false, ...plan, count }, 200);
 
   } catch (error) {
     console.error("Caught unexpected error in fetch-holidays Edge Function:", error.message);
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
-    });
+    return jsonResponse({ error: error.message }, error instanceof ProviderError ? error.status : 500);
   }
 });
\ No newline at end of file
@@ -0,0 +1,129 @@
+import holidaysFile from './holidays.json' with { type: 'json' };
+import { HijriCalendarConfig, toHijriDate } from './hijri.ts';
+
+// A holiday as returned by a provider, before it is compared with the islamic_holidays table.
+export interface ProviderHoliday {
+  name: string;
+  holiday_date: string; // YYYY-MM-DD
+  types: string[]; // Provider categories, e.g. "National holiday"; empty when the provider has none
+}
+
+export interface ProviderRequest {
+  year: number;
+  country: string;
+  hijri_calendar: HijriCalendarConfig;
+}
+
+export interface HolidayProvider {
+  id: string;
+  // True when every holiday the provider returns is an Islamic observance
+  islamicOnly: boolean;
+  fetchHolidays: (request: ProviderRequest) => Promise<ProviderHoliday[]>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const calendarificProvider: HolidayProvider = {
+  id: 'calendarific',
+  islamicOnly: false,
+  fetchHolidays: async ({ year, country }) => {
+    const CALENDARIFIC_API_KEY = Deno.env.get("CALENDARIFIC_API_KEY");
+    if (!CALENDARIFIC_API_KEY) {
+      console.error("CALENDARIFIC_API_KEY is not set in Supabase secrets.");
+      throw new ProviderError("CALENDARIFIC_API_KEY is not set in Supabase secrets.");
+    }
+    console.log("CALENDARIFIC_API_KEY is set.");
+
+    const url = `https://calendarific.com/api/v2/holidays?api_key=${CALENDARIFIC_API_KEY}&country=${country}&year=${year}`;
+    console.log(`Attempting to fetch holidays from Calendarific for country=${country}, year=${year}`);
+
+    const response = await fetch(url);
+    console.log(`Calendarific API response status: ${response.status}`);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Calendarific API error: ${response.status} - ${errorText}`);
+      throw new ProviderError(`Failed to fetch holidays from Calendarific API: ${response.status} ${errorText}`, response.status);
+    }
+
+    const data = await response.json();
+    console.log(`Number of holidays found: ${data.response.holidays ? data.response.holidays.length : 0}`);
+
+    return (data.response.holidays || []).map((holiday: { name: string; date: { iso: string }; type?: string[] }) => ({
+      name: holiday.name,
+      holiday_date: holiday.date.iso.slice(0, 10),
+      types: holiday.type || [],
+    }));
+  },
+};
+
+// Observances computed from the Hijri calendar, so no API key or network access is needed.
+const HIJRI_OBSERVANCES = [
+  { name: "Tahun Baru Islam", month: 1, day: 1 },
+  { name: "Hari Asyura", month: 1, day: 10 },
+  { name: "Maulid Nabi Muhammad SAW", month: 3, day: 12 },
+  { name: "Isra Mi'raj Nabi Muhammad SAW", month: 7, day: 27 },
+  { name: "Nisfu Syakban", month: 8, day: 15 },
+  { name: "Awal Ramadan", month: 9, day: 1 },
+  { name: "Nuzulul Qur'an", month: 9, day: 17 },
+  { name: "Idul Fitri", month: 10, day: 1 },
+  { name: "Hari Arafah", month: 12, day: 9 },
+  { name: "Idul Adha", month: 12, day: 10 },
+];
+
+const localHijriProvider: HolidayProvider = {
+  id: 'local',
+  islamicOnly: true,
+  fetchHolidays: ({ year, hijri_calendar }) => {
+    console.log(`Computing Hijri holidays locally for year=${year}, variant=${hijri_calendar.variant}, adjustment=${hijri_calendar.dayAdjustment}, overrides=${hijri_calendar.monthOverrides.length}`);
+
+    const holidays: ProviderHoliday[] = [];
+    for (let date = new Date(Date.UTC(year, 0, 1)); date.getUTCFullYear() === year; date.setUTCDate(date.getUTCDate() + 1)) {
+      const holidayDate = date.toISOString().slice(0, 10);
+      const hijri = toHijriDate(holidayDate, hijri_calendar);
+      const observance = HIJRI_OBSERVANCES.find((o) => o.month === hijri.month && o.day === hijri.day);
+      if (observance) {
+        holidays.push({ name: observance.name, holiday_date: holidayDate, types: [] });
+      }
+    }
+    return Promise.resolve(holidays);
+  },
+};
+
+// Holidays listed in holidays.json next to this file, keyed by country and year,
+// e.g. the dates of the SKB 3 Menteri. Edit the file and redeploy to add a year.
+const jsonFileProvider: HolidayProvider = {
+  id: 'json',
+  islamicOnly: false,
+  fetchHolidays: ({ year, country }) => {
+    const data: Record<string, Record<string, { name: string; date: string; types?: string[] }[]>> = holidaysFile;
+    const holidays = data[country]?.[String(year)];
+    if (!holidays) {
+      throw new ProviderError(`holidays.json has no holidays for country=${country}, year=${year}.`, 404);
+    }
+    console.log(`Number of holidays found in holidays.json: ${holidays.length}`);
+    return Promise.resolve(holidays.map((holiday) => ({ name: holiday.name, holiday_date: holiday.date, types: holiday.types || [] })));
+  },
+};
+
+export const HOLIDAY_PROVIDERS: HolidayProvider[] = [localHijriProvider, calendarificProvider, jsonFileProvider];
+
+export const DEFAULT_PROVIDER_ID = 'calendarific';
+
+// Keywords of Islamic observances in the Indonesian and English names providers use.
+const ISLAMIC_KEYWORDS = [
+  'islam', 'hijri', 'muharram', 'muharam', 'asyura', 'ashura', 'maulid', 'mawlid', 'prophet',
+  'isra', 'miraj', "mi'raj", 'nisfu', 'ramadan', 'nuzulul', 'idul', 'eid', 'lebaran', 'arafah', 'arafat',
+];
+
+export const isIslamicObservance = (holiday: ProviderHoliday) => {
+  const text = `${holiday.name} ${holiday.types.join(' ')}`.toLowerCase();
+  return ISLAMIC_KEYWORDS.some((keyword) => text.includes(keyword));
+};
@@ -0,0 +1,77 @@
+-- Additional app_settings columns. Run once on an existing database.
+
+-- Advanced prayer time calculation
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS asr_madhab text DEFAULT 'Shafi' NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS high_latitude_rule text DEFAULT 'MiddleOfTheNight' NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS custom_fajr_angle numeric DEFAULT 20;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS custom_isha_angle numeric DEFAULT 18;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS ihtiyat_active boolean DEFAULT false NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS ihtiyat_minutes integer DEFAULT 2 NOT NULL;
+
+-- Imsak
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS imsak_lead_minutes integer DEFAULT 10 NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS imsak_fixed_time time;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS imsak_overlay_duration_seconds integer DEFAULT 10 NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS imsak_beep_lead_seconds integer DEFAULT 0 NOT NULL;
+
+-- Per-prayer durations, NULL uses the shared default
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS pre_adhan_countdown_seconds_fajr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS pre_adhan_countdown_seconds_dhuhr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS pre_adhan_countdown_seconds_asr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS pre_adhan_countdown_seconds_maghrib integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS pre_adhan_countdown_seconds_isha integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS adhan_duration_seconds_fajr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS adhan_duration_seconds_dhuhr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS adhan_duration_seconds_asr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS adhan_duration_seconds_maghrib integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS adhan_duration_seconds_isha integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iqomah_countdown_duration_fajr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iqomah_countdown_duration_dhuhr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iqomah_countdown_duration_asr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iqomah_countdown_duration_maghrib integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iqomah_countdown_duration_isha integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS dark_screen_duration_minutes_fajr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS dark_screen_duration_minutes_dhuhr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS dark_screen_duration_minutes_asr integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS dark_screen_duration_minutes_maghrib integer;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS dark_screen_duration_minutes_isha integer;
+
+-- Masjid time zone (IANA name, e.g. 'Asia/Jakarta'). NULL uses the display device's zone.
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS time_zone text;
+
+-- Optional indicators under the prayer times
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS show_dhuha_times boolean DEFAULT false NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS show_zawal_time boolean DEFAULT false NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS show_forbidden_times boolean DEFAULT false NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS show_last_third_of_night boolean DEFAULT false NOT NULL;
+
+-- Tomorrow's prayer times after Isya
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS tomorrow_schedule_active boolean DEFAULT false NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS tomorrow_schedule_after_isha_minutes integer DEFAULT 30 NOT NULL;
+
+-- Hijri calendar: Intl calendar variant and manual day adjustment
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS hijri_calendar_variant text DEFAULT 'islamic' NOT NULL;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS hijri_day_adjustment integer DEFAULT 0 NOT NULL CHECK (hijri_day_adjustment BETWEEN -2 AND 2);
+
+
+-- Ramadan mode: automatic from the Hijri calendar, or forced on or off. Replaces is_ramadan_mode_active
+-- The old switch is carried over once, when the column is added, so a re-run keeps the mode chosen since
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'app_settings' AND column_name = 'ramadan_mode') THEN
+    ALTER TABLE public.app_settings ADD COLUMN ramadan_mode text DEFAULT 'auto' NOT NULL CHECK (ramadan_mode IN ('auto', 'on', 'off'));
+    UPDATE public.app_settings SET ramadan_mode = CASE WHEN is_ramadan_mode_active THEN 'on' ELSE 'auto' END;
+  END IF;
+END $$;
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS ramadan_mode_from_previous_evening boolean DEFAULT true NOT NULL;
+
+
+-- Tarawih: scheduled relative to the Isya adhan, with a countdown and a dark screen while it is prayed
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS tarawih_start_offset_minutes integer DEFAULT 30 NOT NULL CHECK (tarawih_start_offset_minutes >= 0);
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS tarawih_countdown_minutes integer DEFAULT 10 NOT NULL CHECK (tarawih_countdown_minutes >= 0);
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS tarawih_duration_minutes integer DEFAULT 60 NOT NULL CHECK (tarawih_duration_minutes >= 0);
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS tarawih_rakaat integer DEFAULT 8 NOT NULL CHECK (tarawih_rakaat IN (8, 20));
+
+-- Iftar: countdown with the berbuka doa before Maghrib on fasting days, with an optional chime as it starts
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iftar_countdown_minutes integer DEFAULT 10 NOT NULL CHECK (iftar_countdown_minutes >= 0);
+ALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS iftar_chime_audio_url text;
\ No newline at end of file
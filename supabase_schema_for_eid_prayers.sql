@@ -0,0 +1,23 @@
+CREATE TABLE public.eid_prayers (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  eid_type text NOT NULL CHECK (eid_type IN ('fitri', 'adha')),
+  prayer_date date NOT NULL UNIQUE,
+  holiday_id uuid REFERENCES public.islamic_holidays(id) ON DELETE SET NULL,
+  prayer_time time NOT NULL,
+  imam_name text,
+  khatib_name text,
+  location text DEFAULT 'masjid' NOT NULL CHECK (location IN ('masjid', 'lapangan')),
+  location_name text,
+  takbir_audio_url text,
+  takbir_duration_minutes integer DEFAULT 60 NOT NULL CHECK (takbir_duration_minutes >= 0),
+  khutbah_duration_minutes integer DEFAULT 20 NOT NULL CHECK (khutbah_duration_minutes >= 0),
+  countdown_minutes integer DEFAULT 30 NOT NULL CHECK (countdown_minutes >= 0)
+);
+
+ALTER TABLE public.eid_prayers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.eid_prayers FOR SELECT USING (true);
+CREATE POLICY "Enable insert for authenticated users only" ON public.eid_prayers FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for authenticated users only" ON public.eid_prayers FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users only" ON public.eid_prayers FOR DELETE USING (auth.role() = 'authenticated');
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE public.hijri_month_overrides (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  hijri_year integer NOT NULL,
+  hijri_month integer NOT NULL CHECK (hijri_month BETWEEN 1 AND 12),
+  start_date date NOT NULL UNIQUE,
+  note text,
+  UNIQUE (hijri_year, hijri_month)
+);
+
+ALTER TABLE public.hijri_month_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.hijri_month_overrides FOR SELECT USING (true);
+CREATE POLICY "Enable insert for authenticated users only" ON public.hijri_month_overrides FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for authenticated users only" ON public.hijri_month_overrides FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users only" ON public.hijri_month_overrides FOR DELETE USING (auth.role() = 'authenticated');
\ No newline at end of file
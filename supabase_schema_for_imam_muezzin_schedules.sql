@@ -13,4 +13,12 @@ ALTER TABLE public.imam_muezzin_schedules ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Enable read access for all users" ON public.imam_muezzin_schedules FOR SELECT USING (true);
 CREATE POLICY "Enable insert for authenticated users only" ON public.imam_muezzin_schedules FOR INSERT WITH CHECK (auth.role() = 'authenticated');
 CREATE POLICY "Enable update for authenticated users only" ON public.imam_muezzin_schedules FOR UPDATE USING (auth.role() = 'authenticated');
-CREATE POLICY "Enable delete for authenticated users only" ON public.imam_muezzin_schedules FOR DELETE USING (auth.role() = 'authenticated');
\ No newline at end of file
+CREATE POLICY "Enable delete for authenticated users only" ON public.imam_muezzin_schedules FOR DELETE USING (auth.role() = 'authenticated');
+
+
+-- Kultum (short sermon) speaker before Tarawih, only used for Tarawih schedules
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS kultum_name text;
+
+
+-- Assignment for one date (e.g. the khatib of a given Friday), overriding the weekly row for day_of_week
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS schedule_date date;
\ No newline at end of file
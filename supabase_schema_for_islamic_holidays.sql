@@ -0,0 +1,6 @@
+-- Recurring holidays: a Hijri month/day instead of a fixed Gregorian date
+ALTER TABLE public.islamic_holidays ALTER COLUMN holiday_date DROP NOT NULL;
+ALTER TABLE public.islamic_holidays ADD COLUMN IF NOT EXISTS hijri_month smallint CHECK (hijri_month BETWEEN 1 AND 12);
+ALTER TABLE public.islamic_holidays ADD COLUMN IF NOT EXISTS hijri_day smallint CHECK (hijri_day BETWEEN 1 AND 30);
+ALTER TABLE public.islamic_holidays DROP CONSTRAINT IF EXISTS islamic_holidays_date_check;
+ALTER TABLE public.islamic_holidays ADD CONSTRAINT islamic_holidays_date_check CHECK (holiday_date IS NOT NULL OR (hijri_month IS NOT NULL AND hijri_day IS NOT NULL));
\ No newline at end of file
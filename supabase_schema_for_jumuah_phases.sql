@@ -0,0 +1,17 @@
+CREATE TABLE public.jumuah_phases (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  name text NOT NULL,
+  phase_type text NOT NULL CHECK (phase_type IN ('countdown', 'announcement', 'adhan', 'khutbah', 'prayer')),
+  duration_minutes integer DEFAULT 5 NOT NULL CHECK (duration_minutes >= 0),
+  message text,
+  audio_url text,
+  display_order integer DEFAULT 0 NOT NULL
+);
+
+ALTER TABLE public.jumuah_phases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.jumuah_phases FOR SELECT USING (true);
+CREATE POLICY "Enable insert for authenticated users only" ON public.jumuah_phases FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for authenticated users only" ON public.jumuah_phases FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users only" ON public.jumuah_phases FOR DELETE USING (auth.role() = 'authenticated');
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE public.personnel (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  name text NOT NULL,
+  title text,
+  photo_url text,
+  phone text,
+  roles text[] DEFAULT '{}' NOT NULL CHECK (roles <@ ARRAY['imam', 'muezzin', 'khatib', 'bilal', 'kultum']::text[])
+);
+
+ALTER TABLE public.personnel ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.personnel FOR SELECT USING (true);
+CREATE POLICY "Enable insert for authenticated users only" ON public.personnel FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for authenticated users only" ON public.personnel FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users only" ON public.personnel FOR DELETE USING (auth.role() = 'authenticated');
+
+
+-- Schedules reference personnel by id; the *_name columns keep the name as it was when the schedule was saved
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS imam_id uuid REFERENCES public.personnel(id) ON DELETE SET NULL;
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS muezzin_id uuid REFERENCES public.personnel(id) ON DELETE SET NULL;
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS khatib_id uuid REFERENCES public.personnel(id) ON DELETE SET NULL;
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS bilal_id uuid REFERENCES public.personnel(id) ON DELETE SET NULL;
+ALTER TABLE public.imam_muezzin_schedules ADD COLUMN IF NOT EXISTS kultum_id uuid REFERENCES public.personnel(id) ON DELETE SET NULL;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE public.prayer_time_overrides (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  override_date date NOT NULL UNIQUE,
+  imsak time,
+  fajr time,
+  sunrise time,
+  dhuhr time,
+  asr time,
+  maghrib time,
+  isha time,
+  note text
+);
+
+ALTER TABLE public.prayer_time_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.prayer_time_overrides FOR SELECT USING (true);
+CREATE POLICY "Enable insert for authenticated users only" ON public.prayer_time_overrides FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for authenticated users only" ON public.prayer_time_overrides FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users only" ON public.prayer_time_overrides FOR DELETE USING (auth.role() = 'authenticated');
\ No newline at end of file
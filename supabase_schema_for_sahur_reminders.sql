@@ -0,0 +1,23 @@
+CREATE TABLE public.sahur_reminders (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  trigger_type text DEFAULT 'fixed' NOT NULL CHECK (trigger_type IN ('fixed', 'before_imsak')),
+  fixed_time time,
+  minutes_before_imsak integer CHECK (minutes_before_imsak > 0),
+  audio_url text,
+  message text,
+  overlay_duration_minutes integer DEFAULT 5 NOT NULL CHECK (overlay_duration_minutes >= 0),
+  is_active boolean DEFAULT true NOT NULL,
+  display_order integer DEFAULT 0 NOT NULL,
+  CONSTRAINT sahur_reminders_trigger_check CHECK (
+    (trigger_type = 'fixed' AND fixed_time IS NOT NULL) OR
+    (trigger_type = 'before_imsak' AND minutes_before_imsak IS NOT NULL)
+  )
+);
+
+ALTER TABLE public.sahur_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.sahur_reminders FOR SELECT USING (true);
+CREATE POLICY "Enable insert for authenticated users only" ON public.sahur_reminders FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for authenticated users only" ON public.sahur_reminders FOR UPDATE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users only" ON public.sahur_reminders FOR DELETE USING (auth.role() = 'authenticated');
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE OR REPLACE FUNCTION public.server_now()
+RETURNS timestamp with time zone
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT clock_timestamp();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.server_now() TO anon, authenticated;